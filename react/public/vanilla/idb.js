@@ -26,14 +26,28 @@
   /** Get current rates in memory (diagnostics) */
   function getCurrentRates() { return _currentRates; }
 
-  /** Validate and normalize a rates object */
+  /** Legacy / non-ISO currency codes mapped to ISO 4217 */
+  const CODE_ALIASES = { EURO: 'EUR' };
+
+  /** Normalize a currency code: trim, upper-case, map aliases (EURO -> EUR) */
+  function normalizeCode(code) {
+    const c = String(code || '').trim().toUpperCase();
+    return CODE_ALIASES[c] || c;
+  }
+
+  /** Validate and normalize a rates object (any set of 3-letter codes, units per 1 USD) */
   function normalizeRates(obj) {
+    if (!obj || typeof obj !== 'object') { throw new Error('Rates must be a JSON object'); }
     const out = {};
-    ['USD', 'GBP', 'EURO', 'ILS'].forEach(function (k) {
-      const v = Number(obj && obj[k]);
+    Object.keys(obj).forEach(function (k) {
+      const code = normalizeCode(k);
+      if (!/^[A-Z]{3}$/.test(code)) { throw new Error('Invalid currency code ' + k); }
+      const v = Number(obj[k]);
       if (!isFinite(v) || v <= 0) { throw new Error('Invalid rate for ' + k); }
-      out[k] = v;
+      if (code !== k && Object.prototype.hasOwnProperty.call(obj, code)) { return; } // ISO key wins
+      out[code] = v;
     });
+    if (Object.keys(out).length === 0) { throw new Error('Rates JSON has no currencies'); }
     return out;
   }
 
@@ -64,9 +78,10 @@
   /** Currency conversion using loaded rates */
   function convert(amount, from, to, rates) {
     const r = rates || _currentRates;
+    if (normalizeCode(from) === normalizeCode(to)) { return Number(amount) || 0; }
     if (!r) { throw new Error('Rates are not loaded.'); }
-    const rf = r[from];
-    const rt = r[to];
+    const rf = r[normalizeCode(from)];
+    const rt = r[normalizeCode(to)];
     if (!rf || !rt) { throw new Error('Missing rate for conversion.'); }
     return (Number(amount) || 0) / rf * rt;
   }
@@ -99,7 +114,7 @@
 
       // validate
       const sum = Number(c.sum);
-      const currency = String(c.currency || '').toUpperCase();
+      const currency = normalizeCode(c.currency);
       const category = String(c.category || '');
       const description = String(c.description || '');
 
@@ -134,7 +149,7 @@
     function getReport(year, month, currency) {
       const y = Number(year);
       const m = Number(month);
-      const targetCur = String(currency || 'USD').toUpperCase();
+      const targetCur = normalizeCode(currency || 'USD');
       if (!y || !m) { return Promise.reject(new Error('year/month required')); }
 
       return ensureRates().then(function (rates) {
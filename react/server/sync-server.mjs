@@ -0,0 +1,145 @@
+/**
+ * Reference sync server for the cost records (protocol and conflict rules: src/services/sync.ts).
+ * Plain Node (18+), no dependencies; keeps every ledger in one JSON file.
+ *
+ *   npm run sync-server                         # http://localhost:8787, data in server/data/sync-data.json
+ *   PORT=9000 DATA_FILE=/srv/costs.json node server/sync-server.mjs
+ *
+ * There is no authentication: run it on a trusted network, or behind a reverse proxy that adds it (and HTTPS).
+ */
+import { createServer } from 'node:http';
+import { readFileSync, writeFileSync, renameSync, mkdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.PORT || 8787);
+const DATA_FILE = resolve(process.env.DATA_FILE || resolve(dirname(fileURLToPath(import.meta.url)), 'data/sync-data.json'));
+const MAX_BODY = 20 * 1024 * 1024;
+const MAX_PAGE = 1000;
+
+// { [ledger]: { rev, records: { [uid]: { uid, updatedAt, deleted?, cost?, rev } } } }
+// (prototype-less maps: ledger names and uids come from clients)
+const dict = (obj = {}) => Object.assign(Object.create(null), obj);
+let ledgers = dict();
+try {
+  for (const [name, l] of Object.entries(JSON.parse(readFileSync(DATA_FILE, 'utf8')))) {
+    ledgers[name] = { rev: l.rev, records: dict(l.records) };
+  }
+} catch (e) {
+  if (e.code !== 'ENOENT') throw e;
+}
+
+// Write the whole store (temp file + rename, so a crash never leaves half a file)
+function save() {
+  mkdirSync(dirname(DATA_FILE), { recursive: true });
+  writeFileSync(DATA_FILE + '.tmp', JSON.stringify(ledgers));
+  renameSync(DATA_FILE + '.tmp', DATA_FILE);
+}
+
+function ledger(name) {
+  return (ledgers[name] ??= { rev: 0, records: dict() });
+}
+
+// Conflict rules 1–3: does the incoming version replace the stored one? ('same' = it is the stored version)
+function decide(incoming, stored) {
+  if (!stored) return 'take';
+  if (incoming.updatedAt !== stored.updatedAt) return incoming.updatedAt > stored.updatedAt ? 'take' : 'refuse';
+  if (!!incoming.deleted === !!stored.deleted) return 'same';
+  return incoming.deleted ? 'take' : 'refuse';
+}
+
+// A change as the protocol defines it, or null
+function validChange(ch) {
+  if (!ch || typeof ch.uid !== 'string' || !ch.uid || !Number.isFinite(ch.updatedAt)) return null;
+  if (ch.deleted) return { uid: ch.uid, updatedAt: ch.updatedAt, deleted: true };
+  if (!ch.cost || typeof ch.cost !== 'object') return null;
+  return { uid: ch.uid, updatedAt: ch.updatedAt, cost: ch.cost };
+}
+
+// An integer query parameter of at least `min` (the fallback when absent); anything else is a 400
+function intParam(url, key, fallback, min) {
+  const raw = url.searchParams.get(key);
+  if (raw === null || raw === '') return fallback;
+  const n = /^\d+$/.test(raw) ? Number(raw) : NaN;
+  if (!Number.isSafeInteger(n) || n < min) {
+    throw Object.assign(new Error(`"${key}" must be an integer of at least ${min}.`), { status: 400 });
+  }
+  return n;
+}
+
+// GET: stored versions after `since`, in rev order
+function pull(name, url) {
+  const asked = intParam(url, 'since', 0, 0);
+  // A page of 0 would report the latest rev with no changes, so the client would skip them
+  const limit = Math.min(intParam(url, 'limit', MAX_PAGE, 1), MAX_PAGE);
+  const l = ledger(name);
+  // A client ahead of the server (e.g. after its data file was reset) starts over
+  const since = asked > l.rev ? 0 : asked;
+  const after = Object.values(l.records).filter((r) => r.rev > since).sort((a, b) => a.rev - b.rev);
+  const changes = after.slice(0, limit);
+  return { rev: changes.length ? changes[changes.length - 1].rev : Math.max(since, l.rev), changes, more: after.length > limit };
+}
+
+// POST: store what wins, report the rest as conflicts with the stored copy (rule 4)
+function push(name, body) {
+  if (!Array.isArray(body?.changes)) throw Object.assign(new Error('Body needs a "changes" array.'), { status: 400 });
+  const l = ledger(name);
+  const accepted = [];
+  const conflicts = [];
+  for (const raw of body.changes) {
+    const ch = validChange(raw);
+    if (!ch) continue;
+    const stored = l.records[ch.uid];
+    const verdict = decide(ch, stored);
+    if (verdict === 'refuse') { conflicts.push(stored); continue; }
+    if (verdict === 'take') l.records[ch.uid] = { ...ch, rev: ++l.rev };
+    accepted.push(ch.uid);
+  }
+  if (accepted.length) save();
+  return { rev: l.rev, accepted, conflicts };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((res, rej) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', (c) => {
+      size += c.length;
+      if (size > MAX_BODY) { rej(Object.assign(new Error('Body too large.'), { status: 413 })); req.destroy(); return; }
+      chunks.push(c);
+    });
+    req.on('end', () => {
+      try { res(JSON.parse(Buffer.concat(chunks).toString('utf8') || 'null')); }
+      catch { rej(Object.assign(new Error('Body is not JSON.'), { status: 400 })); }
+    });
+    req.on('error', rej);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, 'http://localhost');
+  try {
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (url.pathname === '/health') return send(res, 200, { ok: true });
+    const m = url.pathname.match(/^\/wallets\/([^/]+)\/costs$/);
+    if (!m) return send(res, 404, { error: 'Not found.' });
+    const name = decodeURIComponent(m[1]);
+    if (req.method === 'GET') return send(res, 200, pull(name, url));
+    if (req.method === 'POST') return send(res, 200, push(name, await readBody(req)));
+    send(res, 405, { error: 'Method not allowed.' });
+  } catch (e) {
+    send(res, e.status ?? 500, { error: e.message });
+  }
+});
+
+server.listen(PORT, () => console.log(`Sync server on http://localhost:${PORT} (data: ${DATA_FILE})`));
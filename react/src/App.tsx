@@ -1,92 +1,261 @@
-//Application shell — top app bar + tabbed navigation (Form, Report, Pie, Bar, Settings)
-import { useEffect, useMemo, useState } from 'react';
+//Application shell — top app bar + tabbed navigation (Form, Report, Pie, Bar, Settings); view and parameters are mirrored in the URL
+import { useEffect, useMemo, useRef, useState } from 'react';
 // MUI components for layout and controls
-import { AppBar, Toolbar, Typography, Container, Tabs, Tab, FormControl, InputLabel, Select, MenuItem, Stack, Snackbar, Alert } from '@mui/material';
+import { AppBar, Toolbar, Typography, Container, Tabs, Tab, FormControl, InputLabel, Select, MenuItem, Stack, Snackbar, Alert, FormControlLabel, Switch, Tooltip, Box, Button } from '@mui/material';
 // Import main feature components
 import CostForm from './components/CostForm';
 import ReportTable from './components/ReportTable';
 import PieByCategory from './components/PieByCategory';
 import BarByMonth from './components/BarByMonth';
 import Settings from './components/Settings';
+import BudgetTable from './components/BudgetTable';
+import RecurringList from './components/RecurringList';
+import CategoryManager from './components/CategoryManager';
+import CurrencySelect from './components/CurrencySelect';
+import RangePicker from './components/RangePicker';
+import SearchView from './components/SearchView';
+import TagBreakdown from './components/TagBreakdown';
+import ComparisonView from './components/ComparisonView';
+import ForecastView from './components/ForecastView';
+import WalletSwitcher from './components/WalletSwitcher';
+import OfflineIndicator from './components/OfflineIndicator';
+import UnconvertedNotice from './components/UnconvertedNotice';
+import AllWalletsReport from './components/AllWalletsReport';
 // Types and DB helper
-import { Currency } from './types';
-import { openCostsDB } from './services/idb';
-
-// Utility: get current year
-function thisYear() { return new Date().getFullYear(); }
-// Utility: get current month (1-based)
-function thisMonth() { return new Date().getMonth() + 1; }
+import { Bucket, Currency, DateRange, RateMode, Wallet } from './types';
+import { CostInput, AuditEntry, AuditEvent, activeDBName } from './services/idb';
+import { undo, redo, auditSummary } from './services/audit';
+import { checkBudgetCrossing, OVERALL } from './services/budgets';
+import { materializeRecurring } from './services/recurring';
+import { listWallets, getActiveWalletId, setActiveWallet, ALL_WALLETS } from './services/wallets';
+import { RangePreset, defaultBucket, singleMonth, fromDayKey } from './services/ranges';
+import { VIEWS, Route, parseRoute, routeUrl } from './services/route';
+import { getPreferences } from './services/preferences';
+import { t, tn } from './services/i18n';
 
 export default function App() {
-  // Main tab state (0 = Add Cost, 1 = Report, etc.)
-  const [tab, setTab] = useState(0);
-  // Selected year/month/currency for reports/charts
-  const [year, setYear] = useState(thisYear());
-  const [month, setMonth] = useState(thisMonth());
-  const [currency, setCurrency] = useState<Currency>('USD');
+  // The link the app was opened with (view, range, currency...; see ./services/route)
+  const [link] = useState<Route>(() => parseRoute(window.location, getPreferences().startTab));
+  // Main tab state (0 = Add Cost, 1 = Report, etc.; VIEWS order)
+  const [tab, setTab] = useState(() => Math.max(0, VIEWS.indexOf(link.view as typeof VIEWS[number])));
+  // Selected date range (preset or custom), bucket size and currency for reports/charts
+  const [preset, setPreset] = useState<RangePreset>(link.preset);
+  const [range, setRange] = useState<DateRange>(link.range);
+  const [bucket, setBucket] = useState<Bucket>(link.bucket);
+  const [currency, setCurrency] = useState<Currency>(link.currency ?? 'USD');
+  // Convert with the rates of each cost's date (historical) or with today's rates
+  const [rateMode, setRateMode] = useState<RateMode>(link.rateMode);
   // Snackbar message state
   const [snack, setSnack] = useState<string>('');
+  const [snackSeverity, setSnackSeverity] = useState<'info' | 'warning' | 'error'>('info');
+  // Last recorded change of the active wallet: the snackbar offers to undo it (or to redo it, after an undo)
+  const [undoable, setUndoable] = useState<AuditEntry | null>(null);
+  // Show a status message (info by default)
+  const notify = (msg: string, severity: 'info' | 'warning' | 'error' = 'info') => { setSnackSeverity(severity); setSnack(msg); };
+  const closeSnack = () => { setSnack(''); setUndoable(null); };
+
+  // Every recorded change shows up in the snackbar with Undo / Redo (callers may replace the message, e.g. "Cost added.")
+  useEffect(() => {
+    const onAudit = (e: Event) => {
+      const { entry, db } = (e as CustomEvent<AuditEvent>).detail;
+      if (db !== activeDBName()) return; // e.g. the other wallets of an all-wallets import
+      setUndoable(entry);
+      notify(auditSummary(entry) + '.');
+    };
+    window.addEventListener('audit:changed', onAudit);
+    return () => window.removeEventListener('audit:changed', onAudit);
+  }, []);
+
+  // Preferences changed (Settings or an import): re-render so amounts and days use the new formats
+  const [, setPrefsSeen] = useState(0);
+  useEffect(() => {
+    const onPrefs = () => setPrefsSeen((n) => n + 1);
+    window.addEventListener('preferences:changed', onPrefs);
+    return () => window.removeEventListener('preferences:changed', onPrefs);
+  }, []);
+
+  // Snackbar action: undo the last change, or redo the change just undone
+  async function undoRedo(entry: AuditEntry) {
+    setUndoable(null);
+    try {
+      if (!(await (entry.op === 'undo' ? redo() : undo()))) notify(t(entry.op === 'undo' ? 'app.nothingToRedo' : 'app.nothingToUndo'), 'warning');
+    } catch (e: any) {
+      notify(t(entry.op === 'undo' ? 'app.redoFailed' : 'app.undoFailed', { error: e?.message ?? e }), 'error');
+    }
+  }
+
+  // Active wallet (null until loaded) and whether the consolidated all-wallets report is shown
+  const [wallet, setWallet] = useState<Wallet | null>(null);
+  const [allWallets, setAllWallets] = useState(false);
+
+  // Open a wallet: point the services at its DB, use the link's currency (or the preferred one, or the wallet's), catch up on its recurring costs
+  async function openWallet(w: Wallet, ready: string, opened?: Route) {
+    if (w.id !== getActiveWalletId()) setActiveWallet(w.id);
+    setUndoable(null); // undo works on the active wallet's log
+    setWallet(w); setCurrency(opened?.currency ?? getPreferences().reportCurrency ?? w.currency); setAllWallets(opened?.view === 'all-wallets');
+    const n = await materializeRecurring();
+    notify(n ? tn('app.recurringAdded', n, { ready }) : ready);
+  }
+
+  // On mount: open the wallet used last (or the first one) and show status
+  useEffect(() => {
+    listWallets()
+      .then((ws) => openWallet(ws.find((w) => w.id === getActiveWalletId()) ?? ws[0], t('app.dbReady'), link))
+      .catch((e) => notify(t('app.dbError', { error: e.message }), 'error'));
+  }, []);
+
+  // Wallet renamed, re-currencied or deleted elsewhere: refresh (or fall back to the first wallet)
+  useEffect(() => {
+    const load = () => {
+      listWallets().then((ws) => {
+        const active = ws.find((w) => w.id === getActiveWalletId());
+        if (!active) openWallet(ws[0], t('app.switchedTo', { name: ws[0].name })).catch((e) => notify(t('app.dbError', { error: e.message }), 'error'));
+        else setWallet((cur) => (cur && cur.id !== active.id ? cur : active));
+      });
+    };
+    window.addEventListener('wallets:changed', load);
+    return () => window.removeEventListener('wallets:changed', load);
+  }, []);
+
+  // Mirror the view and its parameters in the URL, one history entry per change (the first one only
+  // rewrites the opening link to what is shown, e.g. with invalid parameters dropped)
+  const linked = useRef(false);
+  useEffect(() => {
+    if (!wallet) return;
+    const url = routeUrl({ view: allWallets ? 'all-wallets' : VIEWS[tab], preset, range, bucket, currency, rateMode });
+    if (url !== window.location.pathname + window.location.search) {
+      if (linked.current) window.history.pushState(null, '', url);
+      else window.history.replaceState(null, '', url);
+    }
+    linked.current = true;
+  }, [wallet, allWallets, tab, preset, range, bucket, currency, rateMode]);
 
-  // On mount: open IndexedDB and show status
+  // Back/forward: show what the URL says (it then matches, so no new entry is pushed)
   useEffect(() => {
-    openCostsDB('costsDB', 1)
-      .then(() => setSnack('Database ready.'))
-      .catch((e) => setSnack('DB error: ' + e.message));
+    const onPop = () => {
+      const r = parseRoute(window.location, getPreferences().startTab);
+      setAllWallets(r.view === 'all-wallets');
+      if (r.view !== 'all-wallets') setTab(VIEWS.indexOf(r.view));
+      setPreset(r.preset); setRange(r.range); setBucket(r.bucket); setRateMode(r.rateMode);
+      if (r.currency) setCurrency(r.currency);
+    };
+    window.addEventListener('popstate', onPop);
+    return () => window.removeEventListener('popstate', onPop);
   }, []);
 
-  // Memoized year/month lists for dropdowns
-  const years = useMemo(() => { const y = thisYear(); return Array.from({length:6},(_,i)=>y-i); }, []);
-  const months = useMemo(() => Array.from({length:12},(_,i)=>i+1), []);
+  // Switcher: another wallet, or the consolidated report
+  async function onWalletChange(id: string) {
+    if (id === ALL_WALLETS) { setAllWallets(true); return; }
+    const w = (await listWallets()).find((x) => x.id === id);
+    if (w) openWallet(w, t('app.switchedTo', { name: w.name })).catch((e) => notify(t('app.dbError', { error: e.message }), 'error'));
+  }
+
+  // After adding a cost: warn if it pushed its category (or the overall budget) past 80% / 100%
+  async function onCostAdded(cost: CostInput) {
+    const now = new Date();
+    try {
+      const [alert] = await checkBudgetCrossing(cost.category, cost.sum, cost.currency, now.getFullYear(), now.getMonth() + 1, rateMode);
+      if (alert) {
+        const name = alert.category === OVERALL ? t('app.overallBudget') : t('app.categoryBudget', { category: alert.category });
+        const pct = Math.round(alert.ratio * 100);
+        notify(t(alert.level === 'over' ? 'app.budgetExceeded' : 'app.budgetAt', { name, pct }), alert.level === 'over' ? 'error' : 'warning');
+        return;
+      }
+    } catch {
+      // budget check is best-effort
+    }
+    notify(t('app.costAdded'));
+  }
+
+  // New range: pick a bucket size that suits its length
+  function onRangeChange(p: RangePreset, r: DateRange) {
+    setPreset(p); setRange(r); setBucket(defaultBucket(r));
+  }
+
+  // Budgets are monthly: use the month the range covers, or the month it ends in
+  const budgetMonth = useMemo(() => {
+    const d = fromDayKey(range.to);
+    return singleMonth(range) ?? { year: d.getFullYear(), month: d.getMonth() + 1 };
+  }, [range]);
+  // The forecast always looks at the current month
+  const thisMonth = useMemo(() => { const d = new Date(); return { year: d.getFullYear(), month: d.getMonth() + 1 }; }, []);
 
   return (<>
     {/* AppBar: Title and currency selector */}
     <AppBar position="static" color="primary" elevation={1}>
       <Toolbar>
-        <Typography variant="h6" sx={{ flexGrow: 1 }}>Cost Manager</Typography>
-        <FormControl size="small" sx={{ mr: 2, minWidth: 100 }}>
-          <InputLabel>Currency</InputLabel>
-          <Select label="Currency" value={currency} onChange={(e)=>setCurrency(e.target.value as Currency)}>
-            <MenuItem value="USD">USD</MenuItem><MenuItem value="ILS">ILS</MenuItem><MenuItem value="GBP">GBP</MenuItem><MenuItem value="EURO">EURO</MenuItem>
-          </Select>
-        </FormControl>
+        <Typography variant="h6" sx={{ flexGrow: 1 }}>{t('app.title')}</Typography>
+        <OfflineIndicator />
+        {wallet && (
+          <WalletSwitcher value={allWallets ? ALL_WALLETS : wallet.id} onChange={onWalletChange}
+            sx={{ minWidth: 160, bgcolor: 'background.paper', borderRadius: 1 }} />
+        )}
+        <CurrencySelect size="small" sx={{ mr: 2, minWidth: 100, bgcolor: 'background.paper', borderRadius: 1 }} value={currency} onChange={setCurrency} />
       </Toolbar>
     </AppBar>
 
-    {/* Main container: year/month selectors, tabs, and content */}
+    {/* Main container: range selectors, tabs, and content */}
     <Container sx={{ mt: 3, mb: 4 }}>
-      <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
-        {/* Year selector */}
-        <FormControl size="small" sx={{ minWidth: 120 }}>
-          <InputLabel>Year</InputLabel>
-          <Select label="Year" value={year} onChange={(e)=>setYear(Number(e.target.value))}>
-            {years.map(y => <MenuItem key={y} value={y}>{y}</MenuItem>)}
-          </Select>
-        </FormControl>
-        {/* Month selector */}
-        <FormControl size="small" sx={{ minWidth: 120 }}>
-          <InputLabel>Month</InputLabel>
-          <Select label="Month" value={month} onChange={(e)=>setMonth(Number(e.target.value))}>
-            {months.map(m => <MenuItem key={m} value={m}>{m}</MenuItem>)}
+      <Stack direction="row" spacing={2} alignItems="center" useFlexGap flexWrap="wrap" sx={{ mb: 2 }}>
+        {/* Date range selector */}
+        <RangePicker preset={preset} range={range} onChange={onRangeChange} />
+        {/* Bucket size for range totals */}
+        <FormControl size="small" sx={{ minWidth: 110 }}>
+          <InputLabel>{t('app.groupBy')}</InputLabel>
+          <Select label={t('app.groupBy')} value={bucket} onChange={(e)=>setBucket(e.target.value as Bucket)}>
+            <MenuItem value="day">{t('app.day')}</MenuItem><MenuItem value="week">{t('app.week')}</MenuItem><MenuItem value="month">{t('app.month')}</MenuItem>
           </Select>
         </FormControl>
+        {/* Rates switch for report/pie/bar */}
+        <Tooltip title={t('app.historicalRatesHint')}>
+          <FormControlLabel
+            control={<Switch checked={rateMode==='historical'} onChange={(e)=>setRateMode(e.target.checked ? 'historical' : 'today')} />}
+            label={t('app.historicalRates')}
+          />
+        </Tooltip>
       </Stack>
 
-      {/* Tabs for navigation */}
-      <Tabs value={tab} onChange={(_,v)=>setTab(v)} sx={{ mb: 2 }}>
-        <Tab label="Add Cost" /><Tab label="Report" /><Tab label="Pie by Category" /><Tab label="Bar by Month" /><Tab label="Settings" />
-      </Tabs>
-
-      {/* Tab content: show relevant component */}
-      {tab===0 && <CostForm onAdded={()=>setSnack('Cost added.')} />}
-      {tab===1 && <ReportTable year={year} month={month} currency={currency} />}
-      {tab===2 && <PieByCategory year={year} month={month} currency={currency} />}
-      {tab===3 && <BarByMonth year={year} currency={currency} />}
-      {tab===4 && <Settings onRatesSaved={()=>setSnack('Rates saved.')} onImported={()=>setSnack('Import complete.')} />}
+      {/* Costs left out of the totals (no rate for their currency) */}
+      <UnconvertedNotice currency={currency} />
+
+      {/* Consolidated report over every wallet */}
+      {allWallets && <AllWalletsReport range={range} currency={currency} rateMode={rateMode} />}
+
+      {/* Wallet views: remounted on a wallet switch so everything reloads from the new wallet's DB */}
+      {wallet && !allWallets && (
+        <Box key={wallet.id}>
+          {/* Tabs for navigation */}
+          <Tabs value={tab} onChange={(_,v)=>setTab(v)} sx={{ mb: 2 }}>
+            {VIEWS.map((v) => <Tab key={v} label={t(`tab.${v}`)} />)}
+          </Tabs>
+
+          {/* Tab content: show relevant component */}
+          {tab===0 && <CostForm onAdded={onCostAdded} defaultCurrency={getPreferences().entryCurrency ?? wallet.currency} defaultCategory={getPreferences().entryCategory} />}
+          {tab===1 && <ReportTable range={range} bucket={bucket} currency={currency} rateMode={rateMode} />}
+          {tab===2 && <SearchView currency={currency} rateMode={rateMode} />}
+          {tab===3 && (
+            <Stack direction={{ xs: 'column', lg: 'row' }} spacing={2} sx={{ '& > *': { flex: 1, minWidth: 0 } }}>
+              <PieByCategory range={range} currency={currency} rateMode={rateMode} />
+              <TagBreakdown range={range} currency={currency} rateMode={rateMode} />
+            </Stack>
+          )}
+          {tab===4 && <BarByMonth range={range} bucket={bucket} currency={currency} rateMode={rateMode} />}
+          {tab===5 && <ComparisonView currency={currency} rateMode={rateMode} />}
+          {tab===6 && <ForecastView year={thisMonth.year} month={thisMonth.month} currency={currency} rateMode={rateMode} />}
+          {tab===7 && <BudgetTable year={budgetMonth.year} month={budgetMonth.month} currency={currency} rateMode={rateMode} />}
+          {tab===8 && <RecurringList />}
+          {tab===9 && <CategoryManager />}
+          {tab===10 && <Settings onRatesSaved={()=>notify(t('app.ratesSaved'))} onImported={()=>notify(t('app.importComplete'))} />}
+        </Box>
+      )}
     </Container>
 
     {/* Snackbar for status messages */}
-    <Snackbar open={!!snack} autoHideDuration={2500} onClose={()=>setSnack('')}>
-      <Alert severity="info" onClose={()=>setSnack('')}>{snack}</Alert>
+    <Snackbar open={!!snack} autoHideDuration={undoable ? 6000 : 2500} onClose={closeSnack}>
+      <Alert severity={snackSeverity} onClose={closeSnack}
+        action={undoable && <Button color="inherit" size="small" onClick={()=>undoRedo(undoable)}>{t(undoable.op === 'undo' ? 'app.redo' : 'app.undo')}</Button>}>
+        {snack}
+      </Alert>
     </Snackbar>
   </>);
 }
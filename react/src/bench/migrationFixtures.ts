@@ -0,0 +1,145 @@
+/**
+ * Migration fixtures: dumps of databases as older versions of the app left them (schema + records, see
+ * ./fixtures/*.json). restoreFixture recreates such a DB exactly as dumped (without running any migration);
+ * verifyMigrated opens it through openCostsDB — which runs the migrations — and checks the result.
+ */
+import {
+  openCostsDB, closeCostsDB, setActiveDB, activeDBName, getRangeCategoryTotals, DB_VERSION, StoredCost,
+  COSTS_STORE, META_STORE, BUDGETS_STORE, RECURRING_STORE, CATEGORIES_STORE, AGGREGATES_STORE, AUDIT_STORE, TOMBSTONES_STORE
+} from '../services/idb';
+import { setCurrentRates } from '../services/currency';
+import { isLegacyCode } from '../services/currencies';
+import { partsToDayKey } from '../services/ranges';
+
+interface FixtureIndex { name: string; keyPath: string | string[]; unique?: boolean; multiEntry?: boolean; }
+interface FixtureStore { keyPath: string; autoIncrement?: boolean; indexes?: FixtureIndex[]; records: any[]; }
+
+/** A DB dump at an old version, and what it must look like once migrated */
+export interface Fixture {
+  description: string;
+  version: number;
+  stores: Record<string, FixtureStore>;
+  expect: {
+    count: number;
+    categories: string[]; // distinct cost categories, sorted
+    budgets?: string[]; // budget categories, sorted
+    costs: Record<string, { category?: string; currency?: string; date?: string }>; // by id
+  };
+}
+
+// Utility: wrap a request in a promise
+function done<T>(rq: IDBRequest<T>): Promise<T> {
+  return new Promise((res, rej) => { rq.onsuccess = () => res(rq.result); rq.onerror = () => rej(rq.error); });
+}
+
+/** Delete a DB (after closing our connection to it) */
+export async function dropDB(name: string): Promise<void> {
+  await closeCostsDB(name);
+  await new Promise<void>((res, rej) => {
+    const rq = indexedDB.deleteDatabase(name);
+    rq.onsuccess = () => res();
+    rq.onerror = () => rej(rq.error);
+  });
+}
+
+/** Recreate the dumped DB under `name`: same version, stores, indexes and records */
+export async function restoreFixture(name: string, fixture: Fixture): Promise<void> {
+  await dropDB(name);
+  const db = await new Promise<IDBDatabase>((res, rej) => {
+    const rq = indexedDB.open(name, fixture.version);
+    rq.onupgradeneeded = () => {
+      for (const [storeName, spec] of Object.entries(fixture.stores)) {
+        const store = rq.result.createObjectStore(storeName, { keyPath: spec.keyPath, autoIncrement: !!spec.autoIncrement });
+        for (const ix of spec.indexes ?? []) store.createIndex(ix.name, ix.keyPath, { unique: !!ix.unique, multiEntry: !!ix.multiEntry });
+      }
+    };
+    rq.onsuccess = () => res(rq.result);
+    rq.onerror = () => rej(rq.error);
+  });
+  const names = Object.keys(fixture.stores);
+  const tx = db.transaction(names, 'readwrite');
+  for (const storeName of names) for (const rec of fixture.stores[storeName].records) tx.objectStore(storeName).put(rec);
+  await new Promise<void>((res, rej) => { tx.oncomplete = () => res(); tx.onerror = () => rej(tx.error); });
+  db.close();
+}
+
+// Utility: local YYYY-MM-DD of an ISO string
+function isoDay(iso: string): string {
+  const d = new Date(iso);
+  return partsToDayKey(d.getFullYear(), d.getMonth() + 1, d.getDate());
+}
+
+/** Open the restored DB through the migrations and list every failed check (empty = all good) */
+export async function verifyMigrated(name: string, fixture: Fixture): Promise<string[]> {
+  const fails: string[] = [];
+  const check = (ok: boolean, what: string) => { if (!ok) fails.push(what); };
+
+  const db = await openCostsDB(name);
+  check(db.version === DB_VERSION, `version ${db.version}, expected ${DB_VERSION}`);
+  for (const s of [COSTS_STORE, META_STORE, BUDGETS_STORE, RECURRING_STORE, CATEGORIES_STORE, AGGREGATES_STORE, AUDIT_STORE, TOMBSTONES_STORE]) {
+    check(db.objectStoreNames.contains(s), `store "${s}" missing`);
+  }
+  const tx = db.transaction([COSTS_STORE, BUDGETS_STORE, RECURRING_STORE], 'readonly');
+  const costsStore = tx.objectStore(COSTS_STORE);
+  for (const ix of ['by_date', 'by_category', 'by_tag', 'by_uid', 'by_dirty']) check(costsStore.indexNames.contains(ix), `costs index "${ix}" missing`);
+  check(!costsStore.indexNames.contains('byDate'), 'legacy costs index "byDate" still there');
+  const [costs, budgets, recurring] = await Promise.all([
+    done(costsStore.getAll()) as Promise<StoredCost[]>,
+    done(tx.objectStore(BUDGETS_STORE).getAll()),
+    done(tx.objectStore(RECURRING_STORE).getAll()),
+  ]);
+
+  // Every record: a Date, a dateISO on the same local day, and a sync id (pending push)
+  for (const c of costs) {
+    const day = c.Date ? partsToDayKey(c.Date.year, c.Date.month, c.Date.day) : '';
+    check(!!c.Date, `cost #${c.id}: no Date`);
+    check(typeof c.dateISO === 'string' && isoDay(c.dateISO) === day, `cost #${c.id}: dateISO ${c.dateISO} does not match Date ${day}`);
+    check(!!c.uid && !!c.updatedAt && c.dirty === 1, `cost #${c.id}: no sync id`);
+  }
+  // No legacy currency codes, trimmed categories with one spelling each
+  for (const r of [...costs, ...budgets, ...recurring]) check(!isLegacyCode(r.currency), `legacy currency ${r.currency} left`);
+  const spellings = new Map<string, Set<string>>();
+  for (const r of [...costs, ...recurring]) {
+    check(r.category === r.category.trim(), `category "${r.category}" not trimmed`);
+    const key = r.category.toLowerCase();
+    spellings.set(key, (spellings.get(key) ?? new Set()).add(r.category));
+  }
+  for (const [key, set] of spellings) check(set.size === 1, `category "${key}" spelled ${Array.from(set).join(' / ')}`);
+
+  // What this fixture must contain
+  const { expect } = fixture;
+  check(costs.length === expect.count, `${costs.length} costs, expected ${expect.count}`);
+  const categories = Array.from(new Set(costs.map((c) => c.category))).sort();
+  check(categories.join() === expect.categories.join(), `categories ${categories.join(', ')}, expected ${expect.categories.join(', ')}`);
+  if (expect.budgets) {
+    const names = budgets.map((b) => b.category).sort();
+    check(names.join() === expect.budgets.join(), `budgets ${names.join(', ')}, expected ${expect.budgets.join(', ')}`);
+  }
+  for (const [id, want] of Object.entries(expect.costs)) {
+    const c = costs.find((x) => x.id === Number(id));
+    if (!c) { fails.push(`cost #${id} missing`); continue; }
+    if (want.category) check(c.category === want.category, `cost #${id}: category ${c.category}, expected ${want.category}`);
+    if (want.currency) check(c.currency === want.currency, `cost #${id}: currency ${c.currency}, expected ${want.currency}`);
+    if (want.date) check(partsToDayKey(c.Date.year, c.Date.month, c.Date.day) === want.date, `cost #${id}: date differs from ${want.date}`);
+  }
+
+  // Chart totals (aggregates cache, rebuilt after the migration) agree with the records; no rates = unconverted sums
+  const days = costs.map((c) => partsToDayKey(c.Date.year, c.Date.month, c.Date.day)).sort();
+  if (days.length) {
+    const expected = new Map<string, number>();
+    for (const c of costs) expected.set(c.category, (expected.get(c.category) ?? 0) + c.sum);
+    const previous = activeDBName();
+    setCurrentRates(null);
+    setActiveDB(name);
+    try {
+      const totals = await getRangeCategoryTotals({ from: days[0], to: days[days.length - 1] }, 'USD', 'today');
+      for (const [category, sum] of expected) {
+        const got = totals.find((t) => t.name === category)?.value ?? 0;
+        check(Math.abs(got - sum) < 0.01, `chart total for ${category}: ${got}, expected ${sum}`);
+      }
+    } finally {
+      setActiveDB(previous);
+    }
+  }
+  return fails;
+}
@@ -0,0 +1,45 @@
+/**
+ * Migration check (migrations.html): restores each fixture dump into a scratch database, opens it through
+ * the migrations and reports which checks fail. The scratch databases are deleted afterwards.
+ */
+import { MIGRATIONS, DB_VERSION } from '../services/migrations';
+import { restoreFixture, verifyMigrated, dropDB, Fixture } from './migrationFixtures';
+import v1React from './fixtures/v1-react.json';
+import v1Vanilla from './fixtures/v1-vanilla.json';
+import v6Tags from './fixtures/v6-tags.json';
+
+const FIXTURES: Record<string, Fixture> = {
+  'v1-react': v1React as Fixture,
+  'v1-vanilla': v1Vanilla as Fixture,
+  'v6-tags': v6Tags as Fixture,
+};
+
+const out = document.getElementById('out')!;
+const log = (line: string) => { out.textContent += line + '\n'; };
+
+async function run() {
+  out.textContent = '';
+  log(`Schema version ${DB_VERSION}:`);
+  for (const m of MIGRATIONS) log(`  v${m.version}  ${m.description}`);
+  log('');
+  let failed = 0;
+  for (const [file, fixture] of Object.entries(FIXTURES)) {
+    const name = `costsMigrationCheck-${file}`;
+    try {
+      await restoreFixture(name, fixture);
+      const fails = await verifyMigrated(name, fixture);
+      log(`${fails.length ? 'FAIL' : 'ok  '}  ${file} (v${fixture.version}): ${fixture.description}`);
+      for (const f of fails) log(`        - ${f}`);
+      if (fails.length) failed++;
+    } catch (e: any) {
+      failed++;
+      log(`FAIL  ${file}: ${e?.message ?? e}`);
+    } finally {
+      await dropDB(name).catch(() => {});
+    }
+  }
+  log('');
+  log(failed ? `${failed} of ${Object.keys(FIXTURES).length} fixtures failed.` : 'All fixtures migrated correctly.');
+}
+
+document.getElementById('run')!.addEventListener('click', () => { run().catch((e) => log('Error: ' + (e?.message ?? e))); });
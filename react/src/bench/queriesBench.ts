@@ -0,0 +1,123 @@
+/**
+ * Query benchmark (bench.html): seeds a separate "costsBench" database with a few hundred thousand
+ * records and times the index/aggregate-backed reads against the old getAll() + filter approach.
+ */
+import {
+  openCostsDB, closeCostsDB, setActiveDB, getDB, txDone, addCosts, addCost, deleteCost, getReport, getRangeReport, getYearMonthTotals,
+  getRangeCategoryTotals, clearAggregates, CostInput, StoredCost, COSTS_STORE, AGGREGATES_STORE
+} from '../services/idb';
+import { setCurrentRates } from '../services/currency';
+import { monthRange, presetRange, partsToDayKey } from '../services/ranges';
+
+const BENCH_DB = 'costsBench';
+const YEARS = 8;
+const CATEGORIES = ['Food', 'Rent', 'Transport', 'Health', 'Fun', 'Bills', 'Travel', 'Gifts', 'Kids', 'Pets', 'Books', 'Other'];
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'ILS'];
+
+const out = document.getElementById('out')!;
+let opened = false;
+const log = (line: string) => { out.textContent += line + '\n'; };
+
+// Time an async step and log it
+async function time<T>(label: string, fn: () => Promise<T>): Promise<T> {
+  const t0 = performance.now();
+  const result = await fn();
+  log(`${label.padEnd(48)} ${(performance.now() - t0).toFixed(1).padStart(9)} ms`);
+  return result;
+}
+
+// Number of records currently in the bench DB
+async function countCosts(): Promise<number> {
+  const db = await getDB();
+  const rq = db.transaction(COSTS_STORE, 'readonly').objectStore(COSTS_STORE).count();
+  return new Promise((res, rej) => { rq.onsuccess = () => res(rq.result); rq.onerror = () => rej(rq.error); });
+}
+
+// Deterministic pseudo-random generator, so runs are comparable
+function rng(seed: number) {
+  return () => ((seed = (seed * 1664525 + 1013904223) >>> 0) / 2 ** 32);
+}
+
+// Fill the bench DB with `n` costs spread over the last YEARS years (batched transactions)
+async function seed(n: number) {
+  const db = await getDB();
+  const tx = db.transaction([COSTS_STORE, AGGREGATES_STORE], 'readwrite');
+  tx.objectStore(COSTS_STORE).clear();
+  clearAggregates(tx);
+  await txDone(tx);
+  const rand = rng(42);
+  const lastYear = new Date().getFullYear();
+  for (let done = 0; done < n; ) {
+    const batch: CostInput[] = [];
+    for (let i = 0; i < 5000 && done < n; i++, done++) {
+      const year = lastYear - Math.floor(rand() * YEARS);
+      const month = 1 + Math.floor(rand() * 12);
+      const day = 1 + Math.floor(rand() * 28);
+      batch.push({
+        sum: Math.round(rand() * 50000) / 100,
+        currency: CURRENCIES[Math.floor(rand() * CURRENCIES.length)],
+        category: CATEGORIES[Math.floor(rand() * CATEGORIES.length)],
+        description: `bench #${done}`,
+        dateISO: new Date(year, month - 1, day, 12).toISOString(),
+      });
+    }
+    await addCosts(batch);
+  }
+}
+
+// The pre-index approach: read the whole store, then filter one month in JS
+async function legacyMonthScan(year: number, month: number): Promise<number> {
+  const db = await getDB();
+  const rq = db.transaction(COSTS_STORE, 'readonly').objectStore(COSTS_STORE).getAll();
+  const all: StoredCost[] = await new Promise((res, rej) => { rq.onsuccess = () => res(rq.result); rq.onerror = () => rej(rq.error); });
+  return all.filter((c) => c.Date.year === year && c.Date.month === month).length;
+}
+
+async function run() {
+  out.textContent = '';
+  const n = Math.max(1000, Number((document.getElementById('count') as HTMLInputElement).value) || 300000);
+  setActiveDB(BENCH_DB); // every service call below reads the bench DB
+  await openCostsDB(BENCH_DB);
+  opened = true;
+  setCurrentRates({ USD: 1, EUR: 0.92, GBP: 0.79, ILS: 3.7 });
+
+  if ((await countCosts()) !== n) await time(`seed ${n} records (addCosts, 5000/tx)`, () => seed(n));
+  else log(`reusing ${n} seeded records`);
+
+  const now = new Date();
+  const y = now.getFullYear() - 1;
+  const m = 6;
+  log('');
+  const legacy = await time('legacy: getAll() + filter one month', () => legacyMonthScan(y, m));
+  const report = await time('getReport (by_date key range, cursor)', () => getReport(y, m, 'USD', 'today'));
+  await time('getRangeReport (last 30 days)', () => getRangeReport(presetRange('last-30-days'), 'USD', 'today', 'day'));
+  await time('getRangeReport (this quarter, weekly)', () => getRangeReport(presetRange('this-quarter'), 'USD', 'today', 'week'));
+
+  const db = await getDB();
+  const tx = db.transaction(AGGREGATES_STORE, 'readwrite');
+  clearAggregates(tx);
+  await txDone(tx);
+  await time('getYearMonthTotals, cold (builds 12 months)', () => getYearMonthTotals(y, 'USD', 'today'));
+  await time('getYearMonthTotals, warm', () => getYearMonthTotals(y, 'USD', 'today'));
+  const all = { from: partsToDayKey(now.getFullYear() - YEARS + 1, 1, 1), to: partsToDayKey(now.getFullYear(), 12, 31) };
+  await time(`getRangeCategoryTotals, ${YEARS} years (cold months)`, () => getRangeCategoryTotals(all, 'USD', 'today'));
+  await time(`getRangeCategoryTotals, ${YEARS} years, warm`, () => getRangeCategoryTotals(all, 'USD', 'today'));
+  await time('addCost (incremental aggregate update)', () => addCost({ sum: 1, currency: 'USD', category: 'Food', description: 'bench' }));
+  const [added] = (await getRangeReport(presetRange('last-30-days'), 'USD', 'today')).costs.filter((c) => c.description === 'bench');
+  if (added?.id != null) await time('deleteCost (incremental aggregate update)', () => deleteCost(added.id!));
+
+  // Sanity check: cached totals match the rows of the same month
+  const cats = await getRangeCategoryTotals(monthRange(y, m), 'USD', 'today');
+  const fromCache = cats.reduce((s, c) => s + c.value, 0);
+  log('');
+  log(`rows in ${y}/${m}: legacy ${legacy}, index ${report.costs.length}`);
+  log(`total ${y}/${m}: rows ${report.total.total.toFixed(2)}, aggregates ${fromCache.toFixed(2)}`);
+}
+
+document.getElementById('run')!.addEventListener('click', () => { run().catch((e) => log('Error: ' + (e?.message ?? e))); });
+document.getElementById('reset')!.addEventListener('click', async () => {
+  if (opened) await closeCostsDB(BENCH_DB);
+  const rq = indexedDB.deleteDatabase(BENCH_DB);
+  rq.onsuccess = () => log('Bench DB deleted. Reload the page to run again.');
+  rq.onblocked = () => log('Delete blocked: close other tabs that use the bench DB.');
+});
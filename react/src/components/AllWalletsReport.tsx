@@ -0,0 +1,97 @@
+/** Consolidated report over every wallet: totals per wallet and per category, and all costs of the range. */
+import { useEffect, useState } from 'react';
+// MUI imports for the summary tables and the cost table
+import { Paper, Stack, Typography, Table, TableHead, TableRow, TableCell, TableBody, Alert } from '@mui/material';
+import { Currency, DateRange, RateMode } from '../types';
+import { getAllWalletsReport, AllWalletsReport as Report } from '../services/wallets';
+import { formatAmount } from '../services/currencies';
+import { rangeLabel, formatDay } from '../services/ranges';
+import { t, tn } from '../services/i18n';
+
+// Props: selected range, report currency and rates mode
+interface Props { range: DateRange; currency: Currency; rateMode?: RateMode; }
+
+// Rows rendered at most (totals always cover every cost)
+const MAX_ROWS = 500;
+
+export default function AllWalletsReport({ range, currency, rateMode = 'historical' }: Props) {
+  const [data, setData] = useState<Report | null>(null);
+  const [err, setErr] = useState('');
+  // Load when range/currency changes, and when wallets change
+  useEffect(() => {
+    const load = () => {
+      setErr('');
+      getAllWalletsReport(range, currency, rateMode).then(setData).catch((e) => setErr(e?.message ?? String(e)));
+    };
+    load();
+    window.addEventListener('wallets:changed', load);
+    return () => window.removeEventListener('wallets:changed', load);
+  }, [range, currency, rateMode]);
+
+  if (err) return <Alert severity="error">{err}</Alert>;
+  if (!data) return null;
+
+  return (
+    <Stack spacing={2}>
+      {/* Totals per wallet and per category */}
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ '& > *': { flex: 1 } }}>
+        <Paper sx={{ p: 2 }}>
+          <Typography variant="h6" sx={{ mb: 1 }}>{t('allWallets.title', { range: rangeLabel(range), currency })}</Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow><TableCell>{t('wallet.label')}</TableCell><TableCell align="right">{t('allWallets.costs')}</TableCell><TableCell align="right">{t('common.total')}</TableCell></TableRow>
+            </TableHead>
+            <TableBody>
+              {data.wallets.map((w) => (
+                <TableRow key={w.id}><TableCell>{w.name}</TableCell><TableCell align="right">{w.count}</TableCell><TableCell align="right">{formatAmount(w.total, currency)}</TableCell></TableRow>
+              ))}
+              <TableRow>
+                <TableCell><b>{t('common.total')}</b></TableCell>
+                <TableCell align="right"><b>{data.rows.length}</b></TableCell>
+                <TableCell align="right"><b>{formatAmount(data.total, currency)}</b></TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </Paper>
+        <Paper sx={{ p: 2 }}>
+          <Typography variant="h6" sx={{ mb: 1 }}>{t('allWallets.byCategory')}</Typography>
+          <Table size="small">
+            <TableHead><TableRow><TableCell>{t('common.category')}</TableCell><TableCell align="right">{t('common.total')}</TableCell></TableRow></TableHead>
+            <TableBody>
+              {data.categories.map((c) => (
+                <TableRow key={c.name}><TableCell>{c.name}</TableCell><TableCell align="right">{formatAmount(c.value, currency)}</TableCell></TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      </Stack>
+
+      {/* Every cost of the range, with its wallet */}
+      <Paper sx={{ p: 2 }}>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          {tn('allWallets.rows', data.rows.length)}{data.rows.length > MAX_ROWS && ` ${t('search.showingFirst', { n: MAX_ROWS })}`}. {t('allWallets.note')}
+        </Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('common.date')}</TableCell><TableCell>{t('wallet.label')}</TableCell><TableCell>{t('common.category')}</TableCell><TableCell>{t('common.description')}</TableCell>
+              <TableCell align="right">{t('search.amount')}</TableCell><TableCell align="right">{t('search.inCurrency', { currency })}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {data.rows.slice(0, MAX_ROWS).map((r, i) => (
+              <TableRow key={i}>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatDay(r.date)}</TableCell>
+                <TableCell>{r.wallet}</TableCell>
+                <TableCell>{r.category}</TableCell>
+                <TableCell>{r.description}</TableCell>
+                <TableCell align="right">{formatAmount(r.sum, r.currency)} {r.currency}</TableCell>
+                <TableCell align="right">{r.converted == null ? '—' : formatAmount(r.converted, currency)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Paper>
+    </Stack>
+  );
+}
@@ -0,0 +1,115 @@
+/** Audit log viewer (Settings): every recorded change of the active wallet, newest first, with undo/redo. */
+import { useEffect, useState } from 'react';
+// MUI imports for the log table, buttons and the details dialog
+import {
+  Stack, Button, Typography, Table, TableHead, TableRow, TableCell, TableBody, Chip, Alert,
+  Dialog, DialogTitle, DialogContent, DialogActions, Box
+} from '@mui/material';
+import UndoIcon from '@mui/icons-material/Undo';
+import RedoIcon from '@mui/icons-material/Redo';
+import { AuditEntry, AuditOp, AuditState } from '../services/idb';
+import { listAudit, getUndoRedo, undo, redo, auditSummary, AUDIT_PAGE } from '../services/audit';
+import { t, tn, getLocale } from '../services/i18n';
+
+// Chip label per operation
+const opLabel = (op: AuditOp) => t(`audit.op.${op}`);
+
+// Utility: "n records" / "n categories" / … / "rates" for a before/after state
+function stateLabel(s: AuditState): string {
+  const parts = [];
+  if (s.costs.length) parts.push(tn('audit.records', s.costs.length));
+  if (s.categories?.length) parts.push(tn('audit.categories', s.categories.length));
+  if (s.budgets?.length) parts.push(tn('audit.budgets', s.budgets.length));
+  if (s.recurring?.length) parts.push(tn('audit.templates', s.recurring.length));
+  if (s.rates) parts.push(t(s.rates.source === 'inline-json' ? 'audit.inlineRates' : 'audit.urlRates'));
+  return parts.join(', ') || '—';
+}
+
+export default function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [more, setMore] = useState(false);
+  const [next, setNext] = useState<{ undo: AuditEntry | null; redo: AuditEntry | null }>({ undo: null, redo: null });
+  const [details, setDetails] = useState<AuditEntry | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState('');
+
+  // Load the first page and the undo/redo candidates; reload on every new entry
+  useEffect(() => {
+    const load = () => {
+      listAudit(AUDIT_PAGE).then((rows) => { setEntries(rows); setMore(rows.length === AUDIT_PAGE); })
+        .catch((e) => setErr(e?.message ?? String(e)));
+      getUndoRedo().then(setNext).catch(() => {});
+    };
+    load();
+    window.addEventListener('audit:changed', load);
+    return () => window.removeEventListener('audit:changed', load);
+  }, []);
+
+  // Next page, below the oldest entry shown
+  async function loadMore() {
+    const rows = await listAudit(AUDIT_PAGE, entries[entries.length - 1]?.id);
+    setEntries([...entries, ...rows]);
+    setMore(rows.length === AUDIT_PAGE);
+  }
+
+  // Undo or redo, showing errors inline
+  async function run(fn: () => Promise<unknown>) {
+    setErr(''); setBusy(true);
+    try { await fn(); } catch (e: any) { setErr(e?.message ?? String(e)); } finally { setBusy(false); }
+  }
+
+  return (<>
+    <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
+      <Button variant="outlined" startIcon={<UndoIcon />} disabled={!next.undo || busy} onClick={()=>run(undo)}
+        title={next.undo ? auditSummary(next.undo) : undefined}>{t('app.undo')}</Button>
+      <Button variant="outlined" startIcon={<RedoIcon />} disabled={!next.redo || busy} onClick={()=>run(redo)}
+        title={next.redo ? auditSummary(next.redo) : undefined}>{t('app.redo')}</Button>
+    </Stack>
+    {err && <Alert severity="error" sx={{ mb: 1 }}>{err}</Alert>}
+    {entries.length === 0 ? (
+      <Typography variant="body2" color="text.secondary">{t('audit.empty')}</Typography>
+    ) : (
+      <Box sx={{ maxHeight: 360, overflow: 'auto' }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('audit.time')}</TableCell><TableCell>{t('audit.operation')}</TableCell><TableCell>{t('audit.change')}</TableCell>
+              <TableCell>{t('audit.before')}</TableCell><TableCell>{t('audit.after')}</TableCell><TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {entries.map((e) => (
+              <TableRow key={e.id}>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>{new Date(e.at).toLocaleString(getLocale())}</TableCell>
+                <TableCell><Chip size="small" label={opLabel(e.op)} variant={e.op === 'undo' || e.op === 'redo' ? 'outlined' : 'filled'} /></TableCell>
+                <TableCell>{auditSummary(e)}</TableCell>
+                <TableCell>{stateLabel(e.before)}</TableCell>
+                <TableCell>{stateLabel(e.after)}</TableCell>
+                <TableCell><Button size="small" onClick={()=>setDetails(e)}>{t('audit.details')}</Button></TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Box>
+    )}
+    {more && <Button size="small" sx={{ mt: 1 }} onClick={loadMore}>{t('audit.loadMore')}</Button>}
+
+    {/* Before/after payloads of one entry */}
+    <Dialog open={!!details} onClose={()=>setDetails(null)} fullWidth maxWidth="md">
+      <DialogTitle>{details && auditSummary(details)}</DialogTitle>
+      <DialogContent dividers>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ '& > *': { flex: 1, minWidth: 0 } }}>
+          {details && (['before', 'after'] as const).map((side) => (
+            <Box key={side}>
+              <Typography variant="subtitle2">{t(side === 'before' ? 'audit.before' : 'audit.after')}</Typography>
+              <Box component="pre" dir="ltr" sx={{ m: 0, p: 1, bgcolor: 'action.hover', borderRadius: 1, fontSize: 12, maxHeight: 400, overflow: 'auto' }}>
+                {JSON.stringify(details[side], null, 2)}
+              </Box>
+            </Box>
+          ))}
+        </Stack>
+      </DialogContent>
+      <DialogActions><Button onClick={()=>setDetails(null)}>{t('common.close')}</Button></DialogActions>
+    </Dialog>
+  </>);
+}
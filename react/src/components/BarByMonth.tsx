@@ -1,34 +1,87 @@
-/** Bar chart for yearly totals per month. */
+/** Bar chart for totals per day/week/month over the selected range, with the monthly budget as a reference line
+ *  and an optional rolling 3/6/12-month average. */
 import { useEffect, useState } from 'react';
 // MUI and Recharts imports for chart rendering
-import { Paper, Typography } from '@mui/material';
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, CartesianGrid } from 'recharts';
-import { Currency } from '../types';
-import { getYearMonthTotals } from '../services/idb';
+import { Paper, Typography, Stack, TextField, MenuItem, useTheme } from '@mui/material';
+import { ComposedChart, Bar, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, CartesianGrid, ReferenceLine } from 'recharts';
+import { Bucket, Currency, DateRange, RateMode } from '../types';
+import { getRangeBucketTotals } from '../services/idb';
+import { getBudgetLimits } from '../services/budgets';
+import { formatAmount } from '../services/currencies';
+import { rangeLabel, formatDay, formatMonth } from '../services/ranges';
+import { getRollingMonthAverage, ROLLING_WINDOWS } from '../services/forecast';
+import { t } from '../services/i18n';
+import { chartStyle } from '../theme';
 
-// Props: selected year and currency for the chart
-interface Props { year: number; currency: Currency; }
+// Props: selected range, bucket size, currency and rates mode for the chart
+interface Props { range: DateRange; bucket: Bucket; currency: Currency; rateMode?: RateMode; }
 
-export default function BarByMonth({ year, currency }: Props) {
-  // Chart data: array of {month, total}
-  const [data, setData] = useState<{month:string; total:number}[]>([]);
-  // Fetch totals per month when year/currency changes
-  useEffect(() => { getYearMonthTotals(year, currency).then(setData); }, [year, currency]);
+// Axis and tooltip label of a bucket key: a day, the first day of a week, or a month name
+const keyLabel = (bucket: Bucket, key: string, width?: 'short') => (bucket === 'month' ? formatMonth(key, width) : formatDay(key));
+
+export default function BarByMonth({ range, bucket, currency, rateMode = 'historical' }: Props) {
+  // Chart data: array of {key, total} (key = YYYY-MM-DD day/week start or YYYY-MM)
+  const [data, setData] = useState<{key:string; total:number}[]>([]);
+  // Fetch totals per bucket when range/bucket/currency changes, and after any cost edit/delete
+  useEffect(() => {
+    const load = () => { getRangeBucketTotals(range, bucket, currency, rateMode).then(setData); };
+    load();
+    window.addEventListener('costs:changed', load);
+    return () => window.removeEventListener('costs:changed', load);
+  }, [range, bucket, currency, rateMode]);
+  // Overall monthly budget in the chart currency (null = no budgets set, or bars are not months)
+  const [budget, setBudget] = useState<number | null>(null);
+  useEffect(() => {
+    const load = () => {
+      if (bucket === 'month') getBudgetLimits(currency, rateMode).then((l) => setBudget(l.overall));
+      else setBudget(null);
+    };
+    load();
+    window.addEventListener('budgets:changed', load);
+    return () => window.removeEventListener('budgets:changed', load);
+  }, [currency, rateMode, bucket]);
+  // Rolling average over the last N months (0 = off; month bars only)
+  const [avgWindow, setAvgWindow] = useState(0);
+  const [avg, setAvg] = useState<Map<string, number>>(new Map());
+  useEffect(() => {
+    const load = () => {
+      if (bucket === 'month' && avgWindow) getRollingMonthAverage(range, avgWindow, currency, rateMode).then(setAvg);
+      else setAvg(new Map());
+    };
+    load();
+    window.addEventListener('costs:changed', load);
+    return () => window.removeEventListener('costs:changed', load);
+  }, [range, bucket, avgWindow, currency, rateMode]);
+  const rows = avg.size ? data.map((d) => ({ ...d, avg: avg.get(d.key) ?? null })) : data;
+  // Bars in the accent colour, grid/axes/tooltip in the theme's (light or dark) colours
+  const chart = chartStyle(useTheme());
   return (
     <Paper sx={{ p:2, height: 380 }}>
-      {/* Chart title */}
-      <Typography variant="h6" sx={{ mb: 1 }}>Bar by Month: {year} — {currency}</Typography>
+      {/* Chart title and rolling average window */}
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="h6">{t(`bar.title.${bucket}`, { range: rangeLabel(range), currency })}</Typography>
+        {bucket === 'month' && (
+          <TextField select size="small" label={t('bar.rolling')} value={avgWindow} onChange={(e)=>setAvgWindow(Number(e.target.value))} sx={{ minWidth: 160 }}>
+            <MenuItem value={0}>{t('common.off')}</MenuItem>
+            {ROLLING_WINDOWS.map((n) => <MenuItem key={n} value={n}>{t('bar.months', { n })}</MenuItem>)}
+          </TextField>
+        )}
+      </Stack>
       {/* Responsive bar chart */}
       <ResponsiveContainer width="100%" height={320}>
-        <BarChart data={data}>
-          <CartesianGrid strokeDasharray="3 3" />
-          <XAxis dataKey="month" />
-          <YAxis />
-          <Tooltip />
+        <ComposedChart data={rows}>
+          <CartesianGrid strokeDasharray="3 3" stroke={chart.grid} />
+          <XAxis {...chart.axis} dataKey="key" tickFormatter={(k: string)=>keyLabel(bucket, k, 'short')} />
+          <YAxis {...chart.axis} domain={[0, (max: number) => Math.max(max, budget ?? 0)]} />
+          <Tooltip {...chart.tooltip} cursor={{ fill: chart.grid }} formatter={(v:number)=>formatAmount(v, currency)} labelFormatter={(k)=>t(`bar.tip.${bucket}`, { key: keyLabel(bucket, k) })} />
           <Legend />
-          <Bar dataKey="total" name="Total" />
-        </BarChart>
+          <Bar dataKey="total" name={t('common.total')} fill={chart.primary} />
+          {avg.size > 0 && <Line type="monotone" dataKey="avg" name={t('bar.average', { n: avgWindow })} stroke={chart.warning} strokeWidth={2} dot={false} />}
+          {budget != null && (
+            <ReferenceLine y={budget} stroke={chart.error} strokeDasharray="6 4" label={{ value: t('common.budget', { amount: formatAmount(budget, currency) }), position: 'insideTopRight', fill: chart.error }} />
+          )}
+        </ComposedChart>
       </ResponsiveContainer>
     </Paper>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,122 @@
+/** Budget-vs-actual table for the selected month, with a form to set per-category or overall budgets. */
+import { useEffect, useState } from 'react';
+// MUI imports for table, progress bars and the budget form
+import {
+  Paper, Table, TableBody, TableCell, TableHead, TableRow, Typography, Stack, TextField,
+  Button, IconButton, Tooltip, LinearProgress, Alert
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import EditIcon from '@mui/icons-material/Edit';
+import { Currency, RateMode } from '../types';
+import { getBudgetStatus, saveBudget, deleteBudget, listBudgets, BudgetRow, OVERALL, WARN_AT, OVER_AT } from '../services/budgets';
+import { formatAmount } from '../services/currencies';
+import CurrencySelect from './CurrencySelect';
+import CategoryPicker from './CategoryPicker';
+import { resolveCategoryName } from '../services/categories';
+import { formatMonth } from '../services/ranges';
+import { t } from '../services/i18n';
+
+// Props: selected year/month/currency and rates mode (same as the report)
+interface Props { year: number; month: number; currency: Currency; rateMode?: RateMode; }
+
+// Progress colour for a spent/budget ratio
+function ratioColor(ratio: number | null): 'success' | 'warning' | 'error' {
+  if (ratio == null || ratio < WARN_AT) return 'success';
+  return ratio < OVER_AT ? 'warning' : 'error';
+}
+
+export default function BudgetTable({ year, month, currency, rateMode = 'historical' }: Props) {
+  // Rows of the budget-vs-actual table
+  const [rows, setRows] = useState<BudgetRow[]>([]);
+  // Budget form state (category '' = overall)
+  const [category, setCategory] = useState('');
+  const [amount, setAmount] = useState<number>(0);
+  const [budgetCurrency, setBudgetCurrency] = useState<Currency>(currency);
+  const [err, setErr] = useState('');
+
+  // Load rows when the period/currency changes, and after cost or budget edits
+  useEffect(() => {
+    const load = () => { getBudgetStatus(year, month, currency, rateMode).then(setRows); };
+    load();
+    window.addEventListener('costs:changed', load);
+    window.addEventListener('budgets:changed', load);
+    return () => {
+      window.removeEventListener('costs:changed', load);
+      window.removeEventListener('budgets:changed', load);
+    };
+  }, [year, month, currency, rateMode]);
+
+  // Save (create or replace) the budget in the form
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setErr('');
+    try {
+      await saveBudget({ category: category.trim() ? await resolveCategoryName(category) : OVERALL, amount, currency: budgetCurrency });
+      setCategory(''); setAmount(0);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    }
+  }
+
+  // Load a budget into the form in its own currency
+  async function startEdit(id: number) {
+    const b = (await listBudgets()).find((x) => x.id === id);
+    if (!b) return;
+    setCategory(b.category); setAmount(b.amount); setBudgetCurrency(b.currency);
+  }
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="h6" sx={{ mb: 1 }}>{t('budgets.title', { month: formatMonth(`${year}-${String(month).padStart(2, '0')}`), currency })}</Typography>
+
+      {/* Budget form */}
+      <Stack component="form" onSubmit={submit} direction={{ xs:'column', sm:'row' }} spacing={2} sx={{ mb: 2 }}>
+        <CategoryPicker label={t('budgets.category')} value={category} onChange={setCategory} />
+        <TextField type="number" label={t('budgets.monthly')} value={amount} inputProps={{ step: '0.01' }} onChange={(e)=>setAmount(Number(e.target.value))} required />
+        <CurrencySelect value={budgetCurrency} onChange={setBudgetCurrency} sx={{ minWidth: 120 }} />
+        <Button type="submit" variant="contained">{t('budgets.set')}</Button>
+      </Stack>
+      {err && <Alert severity="error" sx={{ mb: 2 }}>{err}</Alert>}
+
+      {/* Budget vs actual */}
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>{t('common.category')}</TableCell>
+            <TableCell align="right">{t('budgets.budget')}</TableCell>
+            <TableCell align="right">{t('forecast.spent')}</TableCell>
+            <TableCell align="right">{t('budgets.left')}</TableCell>
+            <TableCell sx={{ width: '25%' }}>{t('budgets.used')}</TableCell>
+            <TableCell align="right">{t('report.actions')}</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map((r) => (
+            <TableRow key={r.category || '__overall__'} sx={r.category === OVERALL ? { '& td': { fontWeight: 600 } } : undefined}>
+              <TableCell>{r.category === OVERALL ? t('budgets.overall') : r.category}</TableCell>
+              <TableCell align="right">{r.budget == null ? '—' : formatAmount(r.budget, currency)}</TableCell>
+              <TableCell align="right">{formatAmount(r.spent, currency)}</TableCell>
+              <TableCell align="right" sx={{ color: r.left != null && r.left < 0 ? 'error.main' : undefined }}>
+                {r.left == null ? '—' : formatAmount(r.left, currency)}
+              </TableCell>
+              <TableCell>
+                {r.ratio != null && (
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <LinearProgress variant="determinate" color={ratioColor(r.ratio)} value={Math.min(100, r.ratio * 100)} sx={{ flexGrow: 1, height: 8, borderRadius: 4 }} />
+                    <Typography variant="body2">{Math.round(r.ratio * 100)}%</Typography>
+                  </Stack>
+                )}
+              </TableCell>
+              <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                {r.budgetId != null && (<>
+                  <Tooltip title={t('budgets.edit')}><IconButton size="small" onClick={()=>startEdit(r.budgetId!)}><EditIcon fontSize="small" /></IconButton></Tooltip>
+                  <Tooltip title={t('budgets.remove')}><IconButton size="small" onClick={()=>deleteBudget(r.budgetId!)}><DeleteIcon fontSize="small" /></IconButton></Tooltip>
+                </>)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+}
@@ -0,0 +1,42 @@
+/** Renders a category icon by name (see CATEGORY_ICONS in services/categories). */
+import { SvgIconProps } from '@mui/material';
+import LabelIcon from '@mui/icons-material/Label';
+import RestaurantIcon from '@mui/icons-material/Restaurant';
+import ShoppingCartIcon from '@mui/icons-material/ShoppingCart';
+import HomeIcon from '@mui/icons-material/Home';
+import DirectionsCarIcon from '@mui/icons-material/DirectionsCar';
+import BoltIcon from '@mui/icons-material/Bolt';
+import PhoneIcon from '@mui/icons-material/Phone';
+import LocalHospitalIcon from '@mui/icons-material/LocalHospital';
+import SchoolIcon from '@mui/icons-material/School';
+import FlightIcon from '@mui/icons-material/Flight';
+import SportsEsportsIcon from '@mui/icons-material/SportsEsports';
+import PetsIcon from '@mui/icons-material/Pets';
+import CheckroomIcon from '@mui/icons-material/Checkroom';
+import ReceiptIcon from '@mui/icons-material/Receipt';
+
+// Icon name -> component
+const ICONS: Record<string, typeof LabelIcon> = {
+  label: LabelIcon,
+  restaurant: RestaurantIcon,
+  shopping_cart: ShoppingCartIcon,
+  home: HomeIcon,
+  directions_car: DirectionsCarIcon,
+  bolt: BoltIcon,
+  phone: PhoneIcon,
+  local_hospital: LocalHospitalIcon,
+  school: SchoolIcon,
+  flight: FlightIcon,
+  sports_esports: SportsEsportsIcon,
+  pets: PetsIcon,
+  checkroom: CheckroomIcon,
+  receipt: ReceiptIcon,
+};
+
+// Props: icon name plus any SvgIcon props (fontSize, sx, htmlColor…)
+interface Props extends SvgIconProps { name: string; }
+
+export default function CategoryIcon({ name, ...rest }: Props) {
+  const Icon = ICONS[name] ?? LabelIcon;
+  return <Icon {...rest} />;
+}
@@ -0,0 +1,116 @@
+/** Category management: colour and icon per category, rename, merge several into one, delete unused. */
+import { useEffect, useState } from 'react';
+// MUI imports for the category table and merge controls
+import {
+  Paper, Typography, Table, TableHead, TableRow, TableCell, TableBody, Checkbox, TextField, MenuItem,
+  IconButton, Tooltip, Stack, Button, Alert
+} from '@mui/material';
+import EditIcon from '@mui/icons-material/Edit';
+import CheckIcon from '@mui/icons-material/Check';
+import CloseIcon from '@mui/icons-material/Close';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { Category } from '../types';
+import {
+  listCategories, saveCategoryStyle, renameCategory, mergeCategories, deleteCategory, CATEGORY_ICONS
+} from '../services/categories';
+import CategoryIcon from './CategoryIcon';
+import { t, tn } from '../services/i18n';
+
+export default function CategoryManager() {
+  // Categories, merge selection and inline rename state
+  const [items, setItems] = useState<Category[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [target, setTarget] = useState<number | ''>('');
+  const [renaming, setRenaming] = useState<{ id: number; name: string } | null>(null);
+  const [msg, setMsg] = useState('');
+  const [err, setErr] = useState('');
+
+  // Load on mount and whenever categories change
+  useEffect(() => {
+    const load = () => { listCategories().then(setItems); };
+    load();
+    window.addEventListener('categories:changed', load);
+    return () => window.removeEventListener('categories:changed', load);
+  }, []);
+
+  // Run an action and report its outcome
+  async function run(action: () => Promise<string>) {
+    setMsg(''); setErr('');
+    try { setMsg(await action()); }
+    catch (e: any) { setErr(e?.message ?? String(e)); }
+  }
+
+  const rename = () => run(async () => {
+    const n = await renameCategory(renaming!.id, renaming!.name);
+    setRenaming(null);
+    return tn('categories.renamed', n);
+  });
+
+  const merge = () => run(async () => {
+    const n = await mergeCategories(selected, Number(target));
+    setSelected([]); setTarget('');
+    return tn('categories.merged', n);
+  });
+
+  const toggle = (id: number) => setSelected((s) => (s.includes(id) ? s.filter((x) => x !== id) : [...s, id]));
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="h6" sx={{ mb: 1 }}>{t('tab.categories')}</Typography>
+
+      {/* Merge selected categories into a target */}
+      <Stack direction={{ xs:'column', sm:'row' }} spacing={2} alignItems={{ sm: 'center' }} sx={{ mb: 2 }}>
+        <Typography variant="body2">{t('categories.selected', { n: selected.length })}</Typography>
+        <TextField select size="small" label={t('categories.mergeInto')} value={target} onChange={(e)=>setTarget(Number(e.target.value))} sx={{ minWidth: 200 }}>
+          {items.map((c) => <MenuItem key={c.id} value={c.id}>{c.name}</MenuItem>)}
+        </TextField>
+        <Button variant="outlined" disabled={target === '' || !selected.some((id) => id !== target)} onClick={merge}>{t('categories.mergeSelected')}</Button>
+      </Stack>
+      {msg && <Alert severity="success" sx={{ mb: 2 }}>{msg}</Alert>}
+      {err && <Alert severity="error" sx={{ mb: 2 }}>{err}</Alert>}
+
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell padding="checkbox" />
+            <TableCell>{t('categories.colour')}</TableCell>
+            <TableCell>{t('categories.icon')}</TableCell>
+            <TableCell>{t('common.name')}</TableCell>
+            <TableCell align="right">{t('report.actions')}</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {items.map((c) => (
+            <TableRow key={c.id}>
+              <TableCell padding="checkbox"><Checkbox checked={selected.includes(c.id!)} onChange={()=>toggle(c.id!)} /></TableCell>
+              <TableCell>
+                <input type="color" value={c.color} aria-label={t('categories.colourOf', { name: c.name })}
+                  onChange={(e)=>saveCategoryStyle(c.id!, { color: e.target.value, icon: c.icon })} />
+              </TableCell>
+              <TableCell>
+                <TextField select size="small" value={c.icon} onChange={(e)=>saveCategoryStyle(c.id!, { color: c.color, icon: e.target.value })}
+                  SelectProps={{ renderValue: (v) => <CategoryIcon name={String(v)} htmlColor={c.color} fontSize="small" /> }}>
+                  {CATEGORY_ICONS.map((i) => <MenuItem key={i} value={i}><CategoryIcon name={i} fontSize="small" /></MenuItem>)}
+                </TextField>
+              </TableCell>
+              <TableCell>
+                {renaming?.id === c.id ? (
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <TextField size="small" autoFocus value={renaming?.name ?? ''} onChange={(e)=>setRenaming({ id: c.id!, name: e.target.value })}
+                      onKeyDown={(e)=>{ if (e.key === 'Enter') rename(); if (e.key === 'Escape') setRenaming(null); }} />
+                    <IconButton size="small" onClick={rename}><CheckIcon fontSize="small" /></IconButton>
+                    <IconButton size="small" onClick={()=>setRenaming(null)}><CloseIcon fontSize="small" /></IconButton>
+                  </Stack>
+                ) : c.name}
+              </TableCell>
+              <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                <Tooltip title={t('categories.rename')}><IconButton size="small" onClick={()=>setRenaming({ id: c.id!, name: c.name })}><EditIcon fontSize="small" /></IconButton></Tooltip>
+                <Tooltip title={t('categories.delete')}><IconButton size="small" onClick={()=>run(async () => { await deleteCategory(c.id!); return t('categories.deleted'); })}><DeleteIcon fontSize="small" /></IconButton></Tooltip>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+}
@@ -0,0 +1,53 @@
+/** Category autocomplete: suggests existing categories (with colour and icon) and allows typing a new one. */
+import { useEffect, useState } from 'react';
+// MUI imports for the autocomplete field
+import { Autocomplete, TextField, Box, SxProps, Theme } from '@mui/material';
+import { Category } from '../types';
+import { listCategories } from '../services/categories';
+import CategoryIcon from './CategoryIcon';
+import { t } from '../services/i18n';
+
+// Props: controlled value (free text) plus optional label/required/styling
+interface Props {
+  value: string;
+  onChange: (name: string)=>void;
+  label?: string;
+  required?: boolean;
+  size?: 'small' | 'medium';
+  sx?: SxProps<Theme>;
+}
+
+export default function CategoryPicker({ value, onChange, label = t('common.category'), required, size, sx }: Props) {
+  // Known categories, refreshed on rename/merge/new
+  const [options, setOptions] = useState<Category[]>([]);
+  useEffect(() => {
+    const load = () => { listCategories().then(setOptions); };
+    load();
+    window.addEventListener('categories:changed', load);
+    return () => window.removeEventListener('categories:changed', load);
+  }, []);
+  return (
+    <Autocomplete
+      freeSolo
+      autoSelect
+      size={size}
+      sx={{ minWidth: 180, ...sx }}
+      options={options.map((c) => c.name)}
+      value={value}
+      inputValue={value}
+      onInputChange={(_, v)=>onChange(v)}
+      onChange={(_, v)=>onChange(v ?? '')}
+      renderOption={(props, name) => {
+        const c = options.find((o) => o.name === name);
+        const { key, ...rest } = props as typeof props & { key: string };
+        return (
+          <Box component="li" key={key} {...rest} sx={{ gap: 1 }}>
+            <CategoryIcon name={c?.icon ?? 'label'} htmlColor={c?.color} fontSize="small" />
+            {name}
+          </Box>
+        );
+      }}
+      renderInput={(params) => <TextField {...params} label={label} required={required} />}
+    />
+  );
+}
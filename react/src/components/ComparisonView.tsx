@@ -0,0 +1,126 @@
+/** Comparison view: years overlaid month by month, and per-category changes between two months. */
+import { useEffect, useMemo, useState } from 'react';
+// MUI and Recharts imports for the overlay chart and the deltas table
+import {
+  Paper, Stack, Typography, TextField, Autocomplete, Table, TableHead, TableRow, TableCell, TableBody, Chip, useTheme
+} from '@mui/material';
+import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid } from 'recharts';
+import { Currency, RateMode } from '../types';
+import { getYearsOverlay, getCategoryDeltas, highlightDeltas, OverlayRow, CategoryDelta } from '../services/compare';
+import { formatAmount } from '../services/currencies';
+import { defaultCategoryColor } from '../services/categories';
+import { formatMonth, monthName } from '../services/ranges';
+import { t, getLocale } from '../services/i18n';
+import { chartStyle } from '../theme';
+
+// Props: report currency and rates mode
+interface Props { currency: Currency; rateMode?: RateMode; }
+
+// Utility: "YYYY-MM" (month input value) <-> {year, month}
+const toMonthValue = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+function parseMonthValue(v: string): { year: number; month: number } | null {
+  const m = /^(\d{4})-(\d{2})$/.exec(v);
+  return m ? { year: Number(m[1]), month: Number(m[2]) } : null;
+}
+
+// Utility: signed percentage label
+const pctLabel = (p: number | null) => (p == null
+  ? t('compare.new')
+  : new Intl.NumberFormat(getLocale(), { style: 'percent', minimumFractionDigits: 1, maximumFractionDigits: 1, signDisplay: 'exceptZero' }).format(p));
+
+export default function ComparisonView({ currency, rateMode = 'historical' }: Props) {
+  const thisYear = new Date().getFullYear();
+  // Year overlay: selectable years (last ten) and the chosen ones
+  const yearOptions = useMemo(() => Array.from({ length: 10 }, (_, i) => String(thisYear - i)), [thisYear]);
+  const [years, setYears] = useState<string[]>([String(thisYear - 1), String(thisYear)]);
+  const [overlay, setOverlay] = useState<OverlayRow[]>([]);
+  // Month-over-month: the two months to compare (default: last month -> this month)
+  const [monthA, setMonthA] = useState(() => { const d = new Date(); d.setDate(1); d.setMonth(d.getMonth() - 1); return toMonthValue(d); });
+  const [monthB, setMonthB] = useState(() => toMonthValue(new Date()));
+  const [deltas, setDeltas] = useState<CategoryDelta[]>([]);
+
+  // Load the overlay and the deltas; reload after cost edits
+  useEffect(() => {
+    const load = () => {
+      const ys = years.map(Number).sort((a, b) => a - b);
+      getYearsOverlay(ys, currency, rateMode).then(setOverlay);
+      const a = parseMonthValue(monthA), b = parseMonthValue(monthB);
+      if (a && b) getCategoryDeltas(a, b, currency, rateMode).then(setDeltas);
+    };
+    load();
+    window.addEventListener('costs:changed', load);
+    return () => window.removeEventListener('costs:changed', load);
+  }, [years, monthA, monthB, currency, rateMode]);
+
+  const { up, down } = useMemo(() => highlightDeltas(deltas), [deltas]);
+  const sortedYears = useMemo(() => years.slice().sort(), [years]);
+  const chart = chartStyle(useTheme());
+
+  return (
+    <Stack spacing={2}>
+      {/* Years overlaid month by month */}
+      <Paper sx={{ p: 2, height: 420 }}>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" spacing={2} sx={{ mb: 1 }}>
+          <Typography variant="h6">{t('compare.years', { currency })}</Typography>
+          <Autocomplete multiple size="small" options={yearOptions} value={years} sx={{ minWidth: 260 }}
+            onChange={(_, v)=>setYears(v.length ? v : years)}
+            renderInput={(params) => <TextField {...params} label={t('compare.yearsField')} />} />
+        </Stack>
+        <ResponsiveContainer width="100%" height={340}>
+          <LineChart data={overlay}>
+            <CartesianGrid strokeDasharray="3 3" stroke={chart.grid} />
+            <XAxis {...chart.axis} dataKey="month" tickFormatter={(m: string)=>monthName(Number(m))} />
+            <YAxis {...chart.axis} />
+            <Tooltip {...chart.tooltip} formatter={(v:number)=>formatAmount(v, currency)} labelFormatter={(m)=>monthName(Number(m), 'long')} />
+            <Legend />
+            {sortedYears.map((y) => (
+              <Line key={y} type="monotone" dataKey={y} name={y} stroke={chart.color(defaultCategoryColor(y))} strokeWidth={y === String(thisYear) ? 3 : 2} dot={false} />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </Paper>
+
+      {/* Per-category changes between two months */}
+      <Paper sx={{ p: 2 }}>
+        <Stack direction={{ xs:'column', sm:'row' }} justifyContent="space-between" alignItems={{ sm: 'center' }} spacing={2} sx={{ mb: 1 }}>
+          <Typography variant="h6">{t('compare.months', { currency })}</Typography>
+          <Stack direction="row" spacing={2}>
+            <TextField size="small" type="month" label={t('compare.fromMonth')} value={monthA} onChange={(e)=>setMonthA(e.target.value)} InputLabelProps={{ shrink: true }} />
+            <TextField size="small" type="month" label={t('compare.toMonth')} value={monthB} onChange={(e)=>setMonthB(e.target.value)} InputLabelProps={{ shrink: true }} />
+          </Stack>
+        </Stack>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('common.category')}</TableCell>
+              <TableCell align="right">{formatMonth(monthA, 'short')}</TableCell>
+              <TableCell align="right">{formatMonth(monthB, 'short')}</TableCell>
+              <TableCell align="right">{t('compare.change')}</TableCell>
+              <TableCell align="right">{t('compare.changePct')}</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {deltas.map((d) => {
+              // Spending up is bad news: increases in red, decreases in green
+              const mark = up.has(d.category) ? 'error' : down.has(d.category) ? 'success' : null;
+              return (
+                <TableRow key={d.category} sx={mark ? { bgcolor: `${mark}.main`, '& td': { color: `${mark}.contrastText` } } : undefined}>
+                  <TableCell>{d.category}</TableCell>
+                  <TableCell align="right">{formatAmount(d.before, currency)}</TableCell>
+                  <TableCell align="right">{formatAmount(d.after, currency)}</TableCell>
+                  <TableCell align="right">{d.delta > 0 ? '+' : ''}{formatAmount(d.delta, currency)}</TableCell>
+                  <TableCell align="right">{pctLabel(d.pct)}</TableCell>
+                  <TableCell>{mark && <Chip size="small" variant="outlined" sx={{ color: 'inherit', borderColor: 'currentColor' }} label={t(mark === 'error' ? 'compare.biggestIncrease' : 'compare.biggestDecrease')} />}</TableCell>
+                </TableRow>
+              );
+            })}
+            {!deltas.length && (
+              <TableRow><TableCell colSpan={6}><Typography variant="body2" color="text.secondary">{t('compare.none')}</Typography></TableCell></TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </Paper>
+    </Stack>
+  );
+}
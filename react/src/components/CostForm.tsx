@@ -1,46 +1,88 @@
-/** Controlled form to add a new cost item into IndexedDB. */
+/** Controlled form to add a new cost item into IndexedDB, or edit an existing one. */
 import { useState } from 'react';
 // MUI imports for form layout
-import { Box, TextField, MenuItem, Button, Stack, Paper } from '@mui/material';
-import { addCost } from '../services/idb';
+import { Box, TextField, Button, Stack, Paper } from '@mui/material';
+import { addCost, updateCost, StoredCost, CostInput } from '../services/idb';
 import { Currency } from '../types';
+import { getCurrencyInfo } from '../services/currencies';
+import CurrencySelect from './CurrencySelect';
+import CategoryPicker from './CategoryPicker';
+import TagInput from './TagInput';
+import { resolveCategoryName } from '../services/categories';
+import { t } from '../services/i18n';
 
-// Props: callback for when a cost is added
-interface Props { onAdded?: ()=>void; }
+// Props: callback for when a cost is added; `initial` switches the form to edit mode
+interface Props {
+  onAdded?: (cost: CostInput)=>void;
+  initial?: StoredCost;
+  onSaved?: ()=>void;
+  onCancel?: ()=>void;
+  defaultCurrency?: Currency; // the wallet's default for new costs
+  defaultCategory?: string; // preselected for new costs
+}
 
-export default function CostForm({ onAdded }: Props) {
+// Utility: stored {year, month, day} -> value for a date input
+function toDateInput(d: StoredCost['Date']) {
+  return `${d.year}-${String(d.month).padStart(2, '0')}-${String(d.day).padStart(2, '0')}`;
+}
+
+export default function CostForm({ onAdded, initial, onSaved, onCancel, defaultCurrency = 'USD', defaultCategory = 'Food' }: Props) {
+  const editing = initial?.id != null;
   // Form fields state
-  const [sum, setSum] = useState<number>(0);
-  const [currency, setCurrency] = useState<Currency>('USD');
-  const [category, setCategory] = useState('Food');
-  const [description, setDescription] = useState('');
-  // Submit handler: validate and add cost
+  const [sum, setSum] = useState<number>(initial?.sum ?? 0);
+  const [currency, setCurrency] = useState<Currency>(initial?.currency ?? defaultCurrency);
+  const [category, setCategory] = useState(initial?.category ?? defaultCategory);
+  const [description, setDescription] = useState(initial?.description ?? '');
+  const [tags, setTags] = useState<string[]>(initial?.tags ?? []);
+  const [date, setDate] = useState(initial ? toDateInput(initial.Date) : '');
+  // Submit handler: validate and add (or update) cost
   const submit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!sum || sum <= 0) return;
-    await addCost({ sum, currency, category, description });
-    setSum(0); setDescription('');
-    onAdded?.();
+    if (!sum || sum <= 0 || !category.trim()) return;
+    // Match an existing category case-insensitively ("groceries" -> "Groceries") or register a new one
+    const canonical = await resolveCategoryName(category);
+    if (editing) {
+      // Only send a new date if the user changed it (keeps the original dateISO otherwise)
+      const dateISO = date && date !== toDateInput(initial!.Date) ? new Date(date + 'T12:00:00').toISOString() : undefined;
+      await updateCost(initial!.id!, { sum, currency, category: canonical, description, dateISO, tags });
+      onSaved?.();
+      return;
+    }
+    const input: CostInput = { sum, currency, category: canonical, description, tags };
+    await addCost(input);
+    setSum(0); setDescription(''); setTags([]);
+    onAdded?.(input);
   };
   return (
-    <Paper sx={{ p: 2 }}>
+    <Paper sx={{ p: 2 }} elevation={editing ? 0 : 1}>
       {/* Cost entry form */}
       <Box component="form" onSubmit={submit}>
-        <Stack direction={{ xs:'column', sm:'row' }} spacing={2}>
+        <Stack direction={{ xs:'column', sm: editing ? 'column' : 'row' }} spacing={2}>
           {/* Amount input */}
-          <TextField type="number" label="Sum" value={sum} inputProps={{ step: '0.01' }} onChange={(e)=>setSum(Number(e.target.value))} required />
+          <TextField type="number" label={t('common.sum')} value={sum} inputProps={{ step: String(10 ** -getCurrencyInfo(currency).decimals) }} onChange={(e)=>setSum(Number(e.target.value))} required />
           {/* Currency selector */}
-          <TextField select label="Currency" value={currency} onChange={(e)=>setCurrency(e.target.value as Currency)}>
-            <MenuItem value="USD">USD</MenuItem><MenuItem value="ILS">ILS</MenuItem><MenuItem value="GBP">GBP</MenuItem><MenuItem value="EURO">EURO</MenuItem>
-          </TextField>
+          <CurrencySelect value={currency} onChange={setCurrency} />
           {/* Category input */}
-          <TextField label="Category" value={category} onChange={(e)=>setCategory(e.target.value)} required />
+          <CategoryPicker value={category} onChange={setCategory} required />
           {/* Description input */}
-          <TextField label="Description" value={description} onChange={(e)=>setDescription(e.target.value)} />
+          <TextField label={t('common.description')} value={description} onChange={(e)=>setDescription(e.target.value)} />
+          {/* Tags input */}
+          <TagInput value={tags} onChange={setTags} />
+          {/* Date input (edit mode only; new costs are stamped with today's date) */}
+          {editing && (
+            <TextField type="date" label={t('common.date')} value={date} onChange={(e)=>setDate(e.target.value)} InputLabelProps={{ shrink: true }} required />
+          )}
           {/* Submit button */}
-          <Button type="submit" variant="contained">Add</Button>
+          {editing ? (
+            <Stack direction="row" spacing={1} justifyContent="flex-end">
+              <Button onClick={onCancel}>{t('common.cancel')}</Button>
+              <Button type="submit" variant="contained">{t('common.save')}</Button>
+            </Stack>
+          ) : (
+            <Button type="submit" variant="contained">{t('common.add')}</Button>
+          )}
         </Stack>
       </Box>
     </Paper>
   );
-}
\ No newline at end of file
+}
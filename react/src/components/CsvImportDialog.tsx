@@ -0,0 +1,155 @@
+/** CSV import wizard: map columns, pick date format and decimal separator, preview rows with errors, then import. */
+import { useMemo, useState } from 'react';
+// MUI imports for the dialog, mapping controls and preview table
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Stack, TextField, MenuItem,
+  FormControlLabel, Checkbox, Table, TableHead, TableRow, TableCell, TableBody, Typography, Alert
+} from '@mui/material';
+import { Currency } from '../types';
+import {
+  parseCsv, guessMapping, mapCsvRows, CSV_FIELDS, DATE_FORMATS, CsvField, CsvMapping, DateFormat, ExpenseSign
+} from '../services/csv';
+import { addCosts } from '../services/idb';
+import { formatAmount } from '../services/currencies';
+import { formatDay, toDayKey } from '../services/ranges';
+import CurrencySelect from './CurrencySelect';
+import { t, tn } from '../services/i18n';
+
+// Props: raw file text (null = closed), file name, close/done callbacks
+interface Props {
+  text: string | null;
+  fileName?: string;
+  onClose: ()=>void;
+  onImported?: (added: number)=>void;
+}
+
+// Rows shown in the preview
+const PREVIEW_ROWS = 50;
+
+// Field labels for the mapping selects
+const fieldLabel = (f: CsvField) => t(`common.${f}`);
+
+export default function CsvImportDialog({ text, fileName, onClose, onImported }: Props) {
+  // Parsed cells (delimiter auto-detected)
+  const rows = useMemo(() => (text ? parseCsv(text) : []), [text]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const header = hasHeader ? rows[0]?.cells ?? [] : (rows[0]?.cells ?? []).map((_, i) => t('csv.column', { n: i + 1 }));
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  // Mapping options (columns guessed from the header row)
+  const [columns, setColumns] = useState<Record<CsvField, number> | null>(null);
+  const [dateFormat, setDateFormat] = useState<DateFormat>('YYYY-MM-DD');
+  const [decimalSeparator, setDecimalSeparator] = useState<'.' | ','>('.');
+  const [defaultCurrency, setDefaultCurrency] = useState<Currency>('USD');
+  const [defaultCategory, setDefaultCategory] = useState(() => t('csv.importedCategory'));
+  const [expenseSign, setExpenseSign] = useState<ExpenseSign>('positive');
+  const [err, setErr] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const effectiveColumns = columns ?? guessMapping(hasHeader ? rows[0]?.cells ?? [] : []);
+  const mapping: CsvMapping = { columns: effectiveColumns, dateFormat, decimalSeparator, defaultCurrency, defaultCategory, expenseSign };
+  // Mapped rows (all of them; the preview shows the first PREVIEW_ROWS)
+  const mapped = mapCsvRows(dataRows, mapping);
+  const valid = mapped.filter((r) => r.cost);
+  const credits = mapped.filter((r) => r.credit).length;
+  const invalid = mapped.length - valid.length - credits;
+
+  // Write only the valid rows
+  async function commit() {
+    setErr(''); setBusy(true);
+    try {
+      const added = await addCosts(valid.map((r) => r.cost!));
+      onImported?.(added);
+      close();
+    } catch (e: any) {
+      setErr(t('settings.importFailed', { error: e?.message ?? e }));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // Reset the per-file state when closing
+  function close() {
+    setColumns(null); setErr('');
+    onClose();
+  }
+
+  return (
+    <Dialog open={text != null} onClose={close} fullWidth maxWidth="lg">
+      <DialogTitle>{fileName ? t('csv.titleFile', { file: fileName }) : t('csv.title')}</DialogTitle>
+      <DialogContent dividers>
+        {/* Column mapping */}
+        <Typography variant="subtitle2" sx={{ mb: 1 }}>{t('csv.columns')}</Typography>
+        <Stack direction={{ xs:'column', md:'row' }} spacing={2} sx={{ mb: 2 }}>
+          {CSV_FIELDS.map((f) => (
+            <TextField key={f} select size="small" label={fieldLabel(f)} value={effectiveColumns[f]} sx={{ minWidth: 150 }}
+              onChange={(e)=>setColumns({ ...effectiveColumns, [f]: Number(e.target.value) })}>
+              <MenuItem value={-1}><em>{t('csv.notMapped')}</em></MenuItem>
+              {header.map((h, i) => <MenuItem key={i} value={i}>{h || t('csv.column', { n: i + 1 })}</MenuItem>)}
+            </TextField>
+          ))}
+        </Stack>
+
+        {/* Parsing options */}
+        <Typography variant="subtitle2" sx={{ mb: 1 }}>{t('csv.format')}</Typography>
+        <Stack direction={{ xs:'column', md:'row' }} spacing={2} alignItems={{ md: 'center' }} sx={{ mb: 2 }}>
+          <FormControlLabel control={<Checkbox checked={hasHeader} onChange={(e)=>{ setHasHeader(e.target.checked); setColumns(null); }} />} label={t('csv.hasHeader')} />
+          <TextField select size="small" label={t('csv.dateFormat')} value={dateFormat} onChange={(e)=>setDateFormat(e.target.value as DateFormat)} sx={{ minWidth: 150 }}>
+            {DATE_FORMATS.map((f) => <MenuItem key={f} value={f}>{f}</MenuItem>)}
+          </TextField>
+          <TextField select size="small" label={t('csv.decimalSeparator')} value={decimalSeparator} onChange={(e)=>setDecimalSeparator(e.target.value as '.' | ',')} sx={{ minWidth: 150 }}>
+            <MenuItem value=".">{t('csv.dot')}</MenuItem>
+            <MenuItem value=",">{t('csv.comma')}</MenuItem>
+          </TextField>
+          <TextField select size="small" label={t('csv.expenses')} value={expenseSign} onChange={(e)=>setExpenseSign(e.target.value as ExpenseSign)} sx={{ minWidth: 150 }}>
+            <MenuItem value="positive">{t('csv.expensesPositive')}</MenuItem>
+            <MenuItem value="negative">{t('csv.expensesNegative')}</MenuItem>
+          </TextField>
+          <CurrencySelect size="small" label={t('csv.defaultCurrency')} value={defaultCurrency} onChange={setDefaultCurrency} sx={{ minWidth: 150 }} />
+          <TextField size="small" label={t('csv.defaultCategory')} value={defaultCategory} onChange={(e)=>setDefaultCategory(e.target.value)} />
+        </Stack>
+
+        {/* Preview */}
+        <Alert severity={invalid ? 'warning' : 'info'} sx={{ mb: 1 }}>
+          {invalid ? t('csv.readyInvalid', { n: valid.length, total: mapped.length, invalid }) : t('csv.ready', { n: valid.length, total: mapped.length })}
+          {credits > 0 && ` ${tn('csv.credits', credits)}`}
+        </Alert>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('csv.line')}</TableCell>
+              <TableCell>{t('common.date')}</TableCell>
+              <TableCell>{t('common.category')}</TableCell>
+              <TableCell>{t('common.description')}</TableCell>
+              <TableCell align="right">{t('common.sum')}</TableCell>
+              <TableCell>{t('common.currency')}</TableCell>
+              <TableCell>{t('import.errors')}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {mapped.slice(0, PREVIEW_ROWS).map((r) => (
+              <TableRow key={r.line} sx={r.credit ? { bgcolor: 'warning.light', '& td': { color: 'warning.contrastText' } }
+                : r.errors.length ? { bgcolor: 'error.light', '& td': { color: 'error.contrastText' } } : undefined}>
+                <TableCell>{r.line}</TableCell>
+                <TableCell>{r.cost ? formatDay(toDayKey(new Date(r.cost.dateISO!))) : r.raw.date}</TableCell>
+                <TableCell>{r.cost?.category ?? r.raw.category}</TableCell>
+                <TableCell>{r.cost?.description ?? r.raw.description}</TableCell>
+                <TableCell align="right">{r.cost ? formatAmount(r.cost.sum, r.cost.currency) : r.raw.sum}</TableCell>
+                <TableCell>{r.cost?.currency ?? r.raw.currency}</TableCell>
+                <TableCell>{r.errors.join('; ')}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {mapped.length > PREVIEW_ROWS && (
+          <Typography variant="caption" color="text.secondary">{t('csv.showing', { shown: PREVIEW_ROWS, n: mapped.length })}</Typography>
+        )}
+        {err && <Alert severity="error" sx={{ mt: 2 }}>{err}</Alert>}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={close}>{t('common.cancel')}</Button>
+        <Button variant="contained" disabled={!valid.length || busy} onClick={commit}>{tn('csv.importRows', valid.length)}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,41 @@
+/** Currency picker fed by the currency registry (rates source + user-added currencies). */
+import { useEffect, useState } from 'react';
+// MUI imports for the select field
+import { TextField, MenuItem, SxProps, Theme } from '@mui/material';
+import { Currency, CurrencyInfo } from '../types';
+import { listCurrencies, getCurrencyInfo } from '../services/currencies';
+import { getCurrentRates } from '../services/currency';
+import { t } from '../services/i18n';
+
+// Props: controlled value plus optional field styling
+interface Props {
+  value: Currency;
+  onChange: (c: Currency)=>void;
+  label?: string;
+  size?: 'small' | 'medium';
+  sx?: SxProps<Theme>;
+}
+
+export default function CurrencySelect({ value, onChange, label = t('common.currency'), size, sx }: Props) {
+  // Registry entries; refreshed when rates load or the user adds/removes a currency
+  const [options, setOptions] = useState<CurrencyInfo[]>(() => listCurrencies(getCurrentRates()));
+  useEffect(() => {
+    const refresh = () => setOptions(listCurrencies(getCurrentRates()));
+    window.addEventListener('fx:rates-ready', refresh);
+    window.addEventListener('fx:currencies-changed', refresh);
+    return () => {
+      window.removeEventListener('fx:rates-ready', refresh);
+      window.removeEventListener('fx:currencies-changed', refresh);
+    };
+  }, []);
+  // Keep the current value selectable even if the registry does not list it (yet)
+  const all = options.some((o) => o.code === value) ? options : [getCurrencyInfo(value), ...options];
+  return (
+    <TextField select size={size} sx={sx} label={label} value={value} onChange={(e)=>onChange(e.target.value as Currency)}
+      SelectProps={{ renderValue: (v) => String(v) }}>
+      {all.map((c) => (
+        <MenuItem key={c.code} value={c.code}>{c.code} — {c.symbol} {c.name}</MenuItem>
+      ))}
+    </TextField>
+  );
+}
@@ -0,0 +1,120 @@
+/** Month-end forecast: cumulative spend with a projection band, and the projected total per category. */
+import { useEffect, useState } from 'react';
+// MUI and Recharts imports for the cumulative chart and the per-category table
+import { Paper, Stack, Typography, Table, TableHead, TableRow, TableCell, TableBody, Alert, useTheme } from '@mui/material';
+import {
+  ComposedChart, Area, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid, ReferenceLine
+} from 'recharts';
+import { Currency, RateMode } from '../types';
+import { getMonthForecast, MonthForecast, HISTORY_MONTHS } from '../services/forecast';
+import { getBudgetLimits } from '../services/budgets';
+import { formatAmount } from '../services/currencies';
+import { formatDay, formatMonth, monthRange } from '../services/ranges';
+import { t, tn } from '../services/i18n';
+import { chartStyle } from '../theme';
+
+// Props: month to forecast (normally the current one), report currency and rates mode
+interface Props { year: number; month: number; currency: Currency; rateMode?: RateMode; }
+
+export default function ForecastView({ year, month, currency, rateMode = 'historical' }: Props) {
+  const [forecast, setForecast] = useState<MonthForecast | null>(null);
+  const [err, setErr] = useState('');
+  // Recompute after cost edits and recurring template changes
+  useEffect(() => {
+    const load = () => {
+      setErr('');
+      getMonthForecast(year, month, currency, rateMode).then(setForecast).catch((e) => setErr(e?.message ?? String(e)));
+    };
+    load();
+    window.addEventListener('costs:changed', load);
+    window.addEventListener('recurring:changed', load);
+    return () => {
+      window.removeEventListener('costs:changed', load);
+      window.removeEventListener('recurring:changed', load);
+    };
+  }, [year, month, currency, rateMode]);
+  // Overall monthly budget as a reference line (null = none)
+  const [budget, setBudget] = useState<number | null>(null);
+  useEffect(() => {
+    const load = () => { getBudgetLimits(currency, rateMode, monthRange(year, month).from).then((l) => setBudget(l.overall)); };
+    load();
+    window.addEventListener('budgets:changed', load);
+    return () => window.removeEventListener('budgets:changed', load);
+  }, [year, month, currency, rateMode]);
+
+  const fmt = (v: number) => formatAmount(v, currency);
+  const title = formatMonth(`${year}-${String(month).padStart(2, '0')}`);
+  const chart = chartStyle(useTheme());
+
+  return (
+    <Stack spacing={2}>
+      {err && <Alert severity="error">{err}</Alert>}
+      {/* Cumulative spend: actual line, projected line and band */}
+      <Paper sx={{ p: 2, height: 420 }}>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+          <Typography variant="h6">{t('forecast.title', { month: title, currency })}</Typography>
+          {forecast && (
+            <Typography variant="body2" color="text.secondary">
+              {t('forecast.summary', { spent: fmt(forecast.spent), projected: fmt(forecast.projected), low: fmt(forecast.low), high: fmt(forecast.high) })}
+            </Typography>
+          )}
+        </Stack>
+        <ResponsiveContainer width="100%" height={340}>
+          <ComposedChart data={forecast?.points ?? []}>
+            <CartesianGrid strokeDasharray="3 3" stroke={chart.grid} />
+            <XAxis {...chart.axis} dataKey="day" tickFormatter={(d: string)=>String(Number(d.slice(8)))} />
+            <YAxis {...chart.axis} domain={[0, (max: number) => Math.max(max, budget ?? 0)]} />
+            <Tooltip {...chart.tooltip}
+              labelFormatter={(d)=>formatDay(String(d))}
+              formatter={(v: number | [number, number]) => (Array.isArray(v) ? `${fmt(v[0])}–${fmt(v[1])}` : fmt(v))} />
+            <Legend />
+            <Area dataKey="band" name={t('forecast.range')} stroke="none" fill={chart.primary} fillOpacity={0.2} connectNulls={false} />
+            <Line type="monotone" dataKey="actual" name={t('forecast.spent')} stroke={chart.primary} strokeWidth={2} dot={false} connectNulls={false} />
+            <Line type="monotone" dataKey="projected" name={t('forecast.projected')} stroke={chart.primary} strokeDasharray="6 4" dot={false} connectNulls={false} />
+            {budget != null && (
+              <ReferenceLine y={budget} stroke={chart.error} strokeDasharray="6 4" label={{ value: t('common.budget', { amount: fmt(budget) }), position: 'insideTopLeft', fill: chart.error }} />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </Paper>
+
+      {/* Per-category projection */}
+      {forecast && (
+        <Paper sx={{ p: 2 }}>
+          <Typography variant="h6" sx={{ mb: 1 }}>{t('forecast.byCategory')}</Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            {t('forecast.note', {
+              history: forecast.historyMonths ? tn('forecast.history', forecast.historyMonths) : t('forecast.noHistory'),
+              max: HISTORY_MONTHS,
+            })}
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('common.category')}</TableCell>
+                <TableCell align="right">{t('forecast.spent')}</TableCell>
+                <TableCell align="right">{t('forecast.due')}</TableCell>
+                <TableCell align="right">{t('forecast.projected')}</TableCell>
+                <TableCell align="right">{t('forecast.range')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {forecast.categories.map((c) => (
+                <TableRow key={c.category}>
+                  <TableCell>{c.category}</TableCell>
+                  <TableCell align="right">{fmt(c.spent)}</TableCell>
+                  <TableCell align="right">{fmt(c.scheduled)}</TableCell>
+                  <TableCell align="right">{fmt(c.projected)}</TableCell>
+                  <TableCell align="right">{fmt(c.low)}–{fmt(c.high)}</TableCell>
+                </TableRow>
+              ))}
+              {!forecast.categories.length && (
+                <TableRow><TableCell colSpan={5}><Typography variant="body2" color="text.secondary">{t('forecast.none')}</Typography></TableCell></TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+    </Stack>
+  );
+}
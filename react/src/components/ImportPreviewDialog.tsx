@@ -0,0 +1,120 @@
+/** JSON import preview: choose merge / skip / replace-all, review what will change, then commit. */
+import { useEffect, useState } from 'react';
+// MUI imports for the dialog, strategy choice and summary
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, RadioGroup, FormControlLabel, Radio,
+  Stack, Chip, Alert, Typography, Table, TableHead, TableRow, TableCell, TableBody
+} from '@mui/material';
+import { planImport, commitImport, ImportPlan, ImportStrategy, ImportResult } from '../services/importer';
+import { t } from '../services/i18n';
+
+// Props: parsed JSON (null = closed), file name, close/done callbacks
+interface Props {
+  json: unknown | null;
+  fileName?: string;
+  onClose: ()=>void;
+  onImported?: (result: ImportResult)=>void;
+}
+
+// Rejected rows listed in the preview
+const MAX_REJECTED = 50;
+
+export default function ImportPreviewDialog({ json, fileName, onClose, onImported }: Props) {
+  const [strategy, setStrategy] = useState<ImportStrategy>('merge');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [err, setErr] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  // Dry run whenever the file or the strategy changes
+  useEffect(() => {
+    if (json == null) { setPlan(null); return; }
+    let cancelled = false;
+    setErr('');
+    planImport(json, strategy)
+      .then((p) => { if (!cancelled) setPlan(p); })
+      .catch((e) => { if (!cancelled) { setPlan(null); setErr(e?.message ?? String(e)); } });
+    return () => { cancelled = true; };
+  }, [json, strategy]);
+
+  // Commit the previewed plan
+  async function commit() {
+    if (!plan) return;
+    setBusy(true); setErr('');
+    try {
+      const result = await commitImport(plan);
+      onImported?.(result);
+      close();
+    } catch (e: any) {
+      setErr(t('settings.importFailed', { error: e?.message ?? e }));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function close() {
+    setStrategy('merge');
+    onClose();
+  }
+
+  const changes = plan ? plan.toAdd.length + plan.toUpdate.length + (plan.strategy === 'replace-all' ? plan.existing : 0) : 0;
+
+  return (
+    <Dialog open={json != null} onClose={close} fullWidth maxWidth="md">
+      <DialogTitle>{fileName ? t('import.titleFile', { file: fileName }) : t('import.title')}</DialogTitle>
+      <DialogContent dividers>
+        {/* Strategy */}
+        <Typography variant="subtitle2">{t('import.whenExists')}</Typography>
+        <RadioGroup row value={strategy} onChange={(e)=>setStrategy(e.target.value as ImportStrategy)} sx={{ mb: 2 }}>
+          <FormControlLabel value="merge" control={<Radio />} label={t('import.mergeHint')} />
+          <FormControlLabel value="skip" control={<Radio />} label={t('import.strategy.skip')} />
+          <FormControlLabel value="replace-all" control={<Radio />} label={t('import.strategy.replace-all')} />
+        </RadioGroup>
+
+        {/* Summary */}
+        {plan && (<>
+          <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" sx={{ mb: 2 }}>
+            <Chip color="success" label={t('import.toAdd', { n: plan.toAdd.length })} />
+            <Chip color="info" label={t('import.toUpdate', { n: plan.toUpdate.length })} />
+            <Chip label={t('import.duplicates', { n: plan.duplicates })} />
+            <Chip color={plan.rejected.length ? 'error' : 'default'} label={t('import.rejected', { n: plan.rejected.length })} />
+            {plan.ratesHistory.length > 0 && <Chip variant="outlined" label={t('import.snapshots', { n: plan.ratesHistory.length })} />}
+            {plan.rates && <Chip variant="outlined" label={t('import.appliesRates')} />}
+            {plan.preferences && <Chip variant="outlined" label={t('import.appliesPrefs')} />}
+          </Stack>
+          {plan.strategy === 'replace-all' && (
+            <Alert severity="warning" sx={{ mb: 2 }}>{t('import.replaceWarning', { n: plan.existing })}</Alert>
+          )}
+          {plan.rejected.length > 0 && (<>
+            <Typography variant="subtitle2">{t('import.rejectedRows')}</Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow><TableCell>{t('import.row')}</TableCell><TableCell>{t('import.errors')}</TableCell><TableCell>{t('import.data')}</TableCell></TableRow>
+              </TableHead>
+              <TableBody>
+                {plan.rejected.slice(0, MAX_REJECTED).map((r) => (
+                  <TableRow key={r.index}>
+                    <TableCell>{r.index + 1}</TableCell>
+                    <TableCell>{r.errors.join('; ')}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', fontSize: 12, maxWidth: 360, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {JSON.stringify(r.raw)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {plan.rejected.length > MAX_REJECTED && (
+              <Typography variant="caption" color="text.secondary">{t('import.showing', { shown: MAX_REJECTED, n: plan.rejected.length })}</Typography>
+            )}
+          </>)}
+        </>)}
+        {err && <Alert severity="error" sx={{ mt: 2 }}>{err}</Alert>}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={close}>{t('common.cancel')}</Button>
+        <Button variant="contained" color={strategy === 'replace-all' ? 'error' : 'primary'} disabled={!plan || busy || (!changes && !plan.rates && !plan.ratesHistory.length && !plan.preferences)} onClick={commit}>
+          {t('import.import')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
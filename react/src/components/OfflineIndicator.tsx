@@ -0,0 +1,50 @@
+/** AppBar chip shown while offline or while the session runs on the last good rates saved in IndexedDB. */
+import { useEffect, useState } from 'react';
+// MUI imports for the chip and its tooltip
+import { Chip, Tooltip } from '@mui/material';
+import CloudOffIcon from '@mui/icons-material/CloudOff';
+import { getCurrentRates, getRatesStatus, initCurrencyRates, RatesStatus } from '../services/currency';
+import { toDayKey, formatDay } from '../services/ranges';
+import { t } from '../services/i18n';
+
+// Local day of an ISO timestamp, as days are shown
+function dayOf(iso: string): string {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? iso : formatDay(toDayKey(d));
+}
+
+export default function OfflineIndicator() {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [status, setStatus] = useState<RatesStatus>(getRatesStatus);
+  const [hasRates, setHasRates] = useState(() => !!getCurrentRates());
+
+  // Track connectivity and the rates source; back online after a fallback -> fetch fresh rates
+  useEffect(() => {
+    const refresh = () => { setStatus(getRatesStatus()); setHasRates(!!getCurrentRates()); };
+    const goOnline = () => {
+      setOnline(true);
+      if (getRatesStatus().fallback) initCurrencyRates().catch(() => { /* still unreachable: keep the fallback */ });
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('fx:rates-ready', refresh);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('fx:rates-ready', refresh);
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  if (online && !status.fallback) return null;
+
+  const label = status.fallback && status.savedAt ? t('offline.savedRates', { date: dayOf(status.savedAt) })
+    : t(hasRates ? 'offline.sessionRates' : 'offline.noRates');
+  const hint = t(hasRates ? 'offline.hint' : 'offline.hintNoRates');
+
+  return (
+    <Tooltip title={hint}>
+      <Chip icon={<CloudOffIcon />} label={label} size="small" color={hasRates ? 'warning' : 'error'} sx={{ mr: 2 }} />
+    </Tooltip>
+  );
+}
@@ -0,0 +1,73 @@
+/** Passphrase prompt for encrypted backups: choose one (twice) when exporting, enter it when importing. */
+import { useEffect, useState } from 'react';
+// MUI imports for the dialog and fields
+import { Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, Stack, Alert, Typography } from '@mui/material';
+import { MIN_PASSPHRASE } from '../services/encryption';
+import { t } from '../services/i18n';
+
+// Props: mode (null = closed), file name, submit (its error is shown and the dialog stays open) and close callbacks
+interface Props {
+  mode: 'encrypt' | 'decrypt' | null;
+  fileName?: string;
+  onSubmit: (passphrase: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function PassphraseDialog({ mode, fileName, onSubmit, onClose }: Props) {
+  const [pass, setPass] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [err, setErr] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  // Empty fields every time the dialog opens
+  useEffect(() => { setPass(''); setConfirm(''); setErr(''); }, [mode]);
+
+  const encrypting = mode === 'encrypt';
+  const invalid = encrypting ? pass.length < MIN_PASSPHRASE || pass !== confirm : !pass;
+
+  // Run the submit callback; key derivation takes a moment, so show progress
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (invalid || busy) return;
+    setErr(''); setBusy(true);
+    try {
+      await onSubmit(pass);
+      onClose();
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Dialog open={mode != null} onClose={busy ? undefined : onClose} fullWidth maxWidth="xs">
+      <form onSubmit={submit}>
+        <DialogTitle>{t(encrypting ? 'passphrase.encryptTitle' : 'passphrase.decryptTitle')}</DialogTitle>
+        <DialogContent dividers>
+          <Stack spacing={2}>
+            <Typography variant="body2" color="text.secondary">
+              {encrypting
+                ? t('passphrase.encryptNote', { n: MIN_PASSPHRASE })
+                : fileName ? t('passphrase.decryptNote', { file: fileName }) : t('passphrase.decryptNoteNoName')}
+            </Typography>
+            <TextField type="password" label={t('passphrase.passphrase')} value={pass} autoFocus autoComplete={encrypting ? 'new-password' : 'current-password'}
+              onChange={(e)=>setPass(e.target.value)} />
+            {encrypting && (
+              <TextField type="password" label={t('passphrase.repeat')} value={confirm} autoComplete="new-password"
+                error={!!confirm && confirm !== pass} helperText={confirm && confirm !== pass ? t('passphrase.differ') : ' '}
+                onChange={(e)=>setConfirm(e.target.value)} />
+            )}
+            {err && <Alert severity="error">{err}</Alert>}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} disabled={busy}>{t('common.cancel')}</Button>
+          <Button type="submit" variant="contained" disabled={invalid || busy}>
+            {t(busy ? (encrypting ? 'passphrase.encrypting' : 'passphrase.decrypting') : (encrypting ? 'passphrase.encrypt' : 'passphrase.decrypt'))}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -1,33 +1,85 @@
-/** Pie chart for monthly totals by category. */
-import { useEffect, useMemo, useState } from 'react';
+/** Pie chart for totals by category over the selected range, with the monthly budgets overlaid on whole months. */
+import { useEffect, useState } from 'react';
 // MUI and Recharts imports for pie chart
-import { Paper, Typography } from '@mui/material';
+import { Paper, Typography, Stack, LinearProgress, useTheme } from '@mui/material';
 import { PieChart, Pie, Tooltip, Legend, ResponsiveContainer, Cell } from 'recharts';
-import { Currency } from '../types';
-import { getMonthCategoryTotals } from '../services/idb';
-import { toFixed2 } from '../services/currency';
+import { Currency, DateRange, RateMode } from '../types';
+import { getRangeCategoryTotals } from '../services/idb';
+import { rangeLabel, singleMonth } from '../services/ranges';
+import { formatAmount } from '../services/currencies';
+import { getBudgetLimits, BudgetLimits, OVER_AT, WARN_AT } from '../services/budgets';
+import { getCategoryColors, colorFor } from '../services/categories';
+import { t } from '../services/i18n';
+import { chartStyle } from '../theme';
 
-// Props: selected year/month/currency for chart
-interface Props { year: number; month: number; currency: Currency; }
+// Props: selected range/currency and rates mode for chart
+interface Props { range: DateRange; currency: Currency; rateMode?: RateMode; }
 
-export default function PieByCategory({ year, month, currency }: Props) {
+export default function PieByCategory({ range, currency, rateMode = 'historical' }: Props) {
   // Chart data: array of {name, value}
   const [data, setData] = useState<{name:string; value:number}[]>([]);
-  // Fetch category totals when year/month/currency changes
-  useEffect(() => { getMonthCategoryTotals(year, month, currency).then(setData); }, [year, month, currency]);
-  // Generate color palette for pie slices
-  const colors = useMemo(()=>Array.from({length:12},(_,i)=>`hsl(${i*30},70%,55%)`),[]);
+  // Fetch category totals when range/currency changes, and after any cost edit/delete
+  useEffect(() => {
+    const load = () => { getRangeCategoryTotals(range, currency, rateMode).then(setData); };
+    load();
+    window.addEventListener('costs:changed', load);
+    return () => window.removeEventListener('costs:changed', load);
+  }, [range, currency, rateMode]);
+  // Budgets in the chart currency (overlay: slice labels, over-budget outline, overall progress);
+  // budgets are monthly, so the overlay is only shown when the range is exactly one month
+  const [limits, setLimits] = useState<BudgetLimits>({ overall: null, byCategory: new Map() });
+  const wholeMonth = singleMonth(range) != null;
+  useEffect(() => {
+    const load = () => {
+      if (wholeMonth) getBudgetLimits(currency, rateMode, range.from).then(setLimits);
+      else setLimits({ overall: null, byCategory: new Map() });
+    };
+    load();
+    window.addEventListener('budgets:changed', load);
+    return () => window.removeEventListener('budgets:changed', load);
+  }, [currency, rateMode, wholeMonth, range.from]);
+  const spent = data.reduce((s, d) => s + d.value, 0);
+  const overallRatio = limits.overall ? spent / limits.overall : null;
+  // Slice label: "Food: 120.00 / 200.00" when the category has a budget
+  const label = ({ name, value }: { name: string; value: number }) => {
+    const b = limits.byCategory.get(name);
+    return `${name}: ${formatAmount(value, currency)}` + (b != null ? ` / ${formatAmount(b, currency)}` : '');
+  };
+  // Stable per-category slice colours (from the categories store)
+  const [colors, setColors] = useState<Map<string, string>>(new Map());
+  useEffect(() => {
+    const load = () => { getCategoryColors().then(setColors); };
+    load();
+    window.addEventListener('categories:changed', load);
+    return () => window.removeEventListener('categories:changed', load);
+  }, []);
+  // Slice colours adjusted for contrast with the (light or dark) background
+  const chart = chartStyle(useTheme());
   return (
     <Paper sx={{ p:2, height: 380 }}>
-      {/* Chart title */}
-      <Typography variant="h6" sx={{ mb: 1 }}>Pie by Category: {year}/{month} — {currency}</Typography>
+      {/* Chart title and overall budget progress */}
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="h6">{t('pie.title', { range: rangeLabel(range), currency })}</Typography>
+        {overallRatio != null && (
+          <Stack direction="row" spacing={1} alignItems="center" sx={{ minWidth: 240 }}>
+            <LinearProgress variant="determinate" value={Math.min(100, overallRatio * 100)} sx={{ flexGrow: 1, height: 8, borderRadius: 4 }}
+              color={overallRatio >= OVER_AT ? 'error' : overallRatio >= WARN_AT ? 'warning' : 'success'} />
+            <Typography variant="body2">{formatAmount(spent, currency)} / {formatAmount(limits.overall!, currency)}</Typography>
+          </Stack>
+        )}
+      </Stack>
       {/* Responsive pie chart */}
       <ResponsiveContainer width="100%" height={320}>
         <PieChart>
-          <Pie data={data} dataKey="value" nameKey="name" outerRadius={110} label={({name, value})=> `${name}: ${toFixed2(value)}`}>
-            {data.map((_,i)=><Cell key={i} fill={colors[i%colors.length]} />)}
+          <Pie data={data} dataKey="value" nameKey="name" outerRadius={110} label={label}>
+            {data.map((d,i)=>{
+              // Outline slices that went over their category budget
+              const b = limits.byCategory.get(d.name);
+              const over = b != null && d.value >= b * OVER_AT;
+              return <Cell key={d.name} fill={chart.color(colorFor(d.name, colors))} stroke={over ? chart.error : chart.background} strokeWidth={over ? 3 : 1} />;
+            })}
           </Pie>
-          <Tooltip formatter={(v:number)=>toFixed2(v)} />
+          <Tooltip {...chart.tooltip} formatter={(v:number)=>formatAmount(v, currency)} />
           <Legend />
         </PieChart>
       </ResponsiveContainer>
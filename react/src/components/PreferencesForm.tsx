@@ -0,0 +1,88 @@
+/** Preferences editor (Settings): default currencies and category, week start, number/date format, start tab. */
+import { useEffect, useState } from 'react';
+// MUI imports for the fields
+import { Stack, TextField, MenuItem, Button, Typography } from '@mui/material';
+import { CurrencyInfo } from '../types';
+import { getPreferences, savePreferences, Preferences } from '../services/preferences';
+import { listCurrencies, formatAmount, NumberFormat } from '../services/currencies';
+import { formatDay, DateFormat } from '../services/ranges';
+import { getCurrentRates } from '../services/currency';
+import { VIEWS } from '../services/route';
+import CategoryPicker from './CategoryPicker';
+import { t, MessageKey } from '../services/i18n';
+
+// Menu labels
+const WEEK_LABEL: Record<Preferences['weekStart'], MessageKey> = { 0: 'prefs.sunday', 1: 'prefs.monday', 6: 'prefs.saturday' };
+const NUMBER_FORMATS: NumberFormat[] = ['plain', 'comma', 'dot', 'space', 'locale'];
+const DATE_FORMATS: DateFormat[] = ['iso', 'dmy', 'mdy', 'locale'];
+
+type Props = { onSaved?: () => void; onError?: (message: string) => void; };
+
+export default function PreferencesForm({ onSaved, onError }: Props) {
+  // Edited copy; stored with the Save button
+  const [draft, setDraft] = useState<Preferences>(getPreferences());
+  const [currencies, setCurrencies] = useState<CurrencyInfo[]>(() => listCurrencies(getCurrentRates()));
+  useEffect(() => {
+    const refresh = () => setCurrencies(listCurrencies(getCurrentRates()));
+    const reload = () => setDraft(getPreferences()); // e.g. applied by an import
+    window.addEventListener('fx:rates-ready', refresh);
+    window.addEventListener('fx:currencies-changed', refresh);
+    window.addEventListener('preferences:changed', reload);
+    return () => {
+      window.removeEventListener('fx:rates-ready', refresh);
+      window.removeEventListener('fx:currencies-changed', refresh);
+      window.removeEventListener('preferences:changed', reload);
+    };
+  }, []);
+  const set = (changes: Partial<Preferences>) => setDraft({ ...draft, ...changes });
+
+  async function save() {
+    try {
+      await savePreferences(draft);
+      onSaved?.();
+    } catch (e: any) {
+      onError?.(t('prefs.saveFailed', { error: e?.message ?? e }));
+    }
+  }
+
+  // A currency preference: '' in the field stands for "the wallet's currency" (null)
+  const currencyField = (label: string, key: 'reportCurrency' | 'entryCurrency') => (
+    <TextField select size="small" label={label} value={draft[key] ?? ''} onChange={(e)=>set({ [key]: e.target.value || null })} sx={{ minWidth: 200 }}>
+      <MenuItem value="">{t('prefs.walletCurrency')}</MenuItem>
+      {currencies.map((c) => <MenuItem key={c.code} value={c.code}>{c.code} — {c.symbol} {c.name}</MenuItem>)}
+    </TextField>
+  );
+  return (
+    <Stack spacing={2}>
+      <Stack direction={{ xs:'column', sm:'row' }} spacing={2} useFlexGap flexWrap="wrap">
+        {currencyField(t('prefs.reportCurrency'), 'reportCurrency')}
+        {currencyField(t('prefs.entryCurrency'), 'entryCurrency')}
+        <CategoryPicker size="small" label={t('prefs.entryCategory')} value={draft.entryCategory} onChange={(v)=>set({ entryCategory: v })} />
+        <TextField select size="small" label={t('prefs.startTab')} value={draft.startTab} onChange={(e)=>set({ startTab: e.target.value as Preferences['startTab'] })} sx={{ minWidth: 160 }}>
+          {VIEWS.map((v) => <MenuItem key={v} value={v}>{t(`tab.${v}`)}</MenuItem>)}
+        </TextField>
+      </Stack>
+      <Stack direction={{ xs:'column', sm:'row' }} spacing={2} useFlexGap flexWrap="wrap">
+        <TextField select size="small" label={t('prefs.weekStart')} value={draft.weekStart} onChange={(e)=>set({ weekStart: Number(e.target.value) as Preferences['weekStart'] })} sx={{ minWidth: 160 }}>
+          {([1, 0, 6] as const).map((d) => <MenuItem key={d} value={d}>{t(WEEK_LABEL[d])}</MenuItem>)}
+        </TextField>
+        <TextField select size="small" label={t('prefs.numbers')} value={draft.numberFormat} onChange={(e)=>set({ numberFormat: e.target.value as NumberFormat })} sx={{ minWidth: 160 }}>
+          {NUMBER_FORMATS.map((f) => (
+            <MenuItem key={f} value={f}>
+              {formatAmount(1234567.5, 'USD', f)}{f === 'locale' ? ' ' + t('prefs.byLanguage') : ''}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField select size="small" label={t('prefs.dates')} value={draft.dateFormat} onChange={(e)=>set({ dateFormat: e.target.value as DateFormat })} sx={{ minWidth: 160 }}>
+          {DATE_FORMATS.map((f) => (
+            <MenuItem key={f} value={f}>
+              {formatDay('2025-03-31', f)}{f === 'locale' ? ' ' + t('prefs.byLanguage') : ''}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Button variant="contained" onClick={save}>{t('prefs.save')}</Button>
+      </Stack>
+      <Typography variant="caption" color="text.secondary">{t('prefs.note')}</Typography>
+    </Stack>
+  );
+}
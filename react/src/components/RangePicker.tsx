@@ -0,0 +1,48 @@
+/** Date-range picker for the app shell: a preset (this month, this quarter, last 30 days, fiscal year...) or custom from/to. */
+import { useEffect, useState } from 'react';
+// MUI imports for the preset select and date fields
+import { FormControl, InputLabel, Select, MenuItem, TextField, Stack } from '@mui/material';
+import { DateRange } from '../types';
+import { RANGE_PRESETS, RangePreset, presetRange, checkRange } from '../services/ranges';
+import { t } from '../services/i18n';
+
+// Props: selected preset and range; onChange fires only with valid ranges
+interface Props {
+  preset: RangePreset;
+  range: DateRange;
+  onChange: (preset: RangePreset, range: DateRange)=>void;
+}
+
+export default function RangePicker({ preset, range, onChange }: Props) {
+  // Draft from/to while typing a custom range (applied once valid)
+  const [draft, setDraft] = useState<DateRange>(range);
+  useEffect(() => { setDraft(range); }, [range]);
+  const error = checkRange(draft);
+
+  // Editing either date switches to a custom range
+  function edit(next: DateRange) {
+    setDraft(next);
+    if (!checkRange(next)) onChange('custom', next);
+  }
+
+  return (
+    <Stack direction="row" spacing={1} alignItems="center">
+      {/* Preset selector */}
+      <FormControl size="small" sx={{ minWidth: 170 }}>
+        <InputLabel>{t('app.period')}</InputLabel>
+        <Select label={t('app.period')} value={preset} onChange={(e)=>{
+          const p = e.target.value as RangePreset;
+          onChange(p, p === 'custom' ? range : presetRange(p));
+        }}>
+          {RANGE_PRESETS.map((p) => <MenuItem key={p} value={p}>{t(`preset.${p}`)}</MenuItem>)}
+        </Select>
+      </FormControl>
+      {/* From/To (always shown, so presets show what they cover) */}
+      <TextField size="small" type="date" label={t('app.from')} value={draft.from} InputLabelProps={{ shrink: true }}
+        error={!!error} onChange={(e)=>edit({ ...draft, from: e.target.value })} />
+      <TextField size="small" type="date" label={t('app.to')} value={draft.to} InputLabelProps={{ shrink: true }}
+        error={!!error} helperText={error && draft.from && draft.to ? error : undefined}
+        onChange={(e)=>edit({ ...draft, to: e.target.value })} />
+    </Stack>
+  );
+}
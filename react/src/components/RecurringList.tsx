@@ -0,0 +1,135 @@
+/** Recurring costs: create/edit templates, pause them, and skip individual upcoming occurrences. */
+import { useEffect, useState } from 'react';
+// MUI imports for the template form and list
+import {
+  Paper, Stack, TextField, MenuItem, Button, Typography, Table, TableHead, TableRow, TableCell,
+  TableBody, Switch, Chip, IconButton, Tooltip, Alert
+} from '@mui/material';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { Currency, Frequency, RecurringTemplate } from '../types';
+import {
+  listRecurring, addRecurring, updateRecurring, deleteRecurring, setRecurringPaused,
+  toggleSkipOccurrence, upcomingOccurrences, materializeRecurring, todayKey, RecurringInput
+} from '../services/recurring';
+import { formatAmount } from '../services/currencies';
+import CurrencySelect from './CurrencySelect';
+import CategoryPicker from './CategoryPicker';
+import { resolveCategoryName } from '../services/categories';
+import { formatDay } from '../services/ranges';
+import { t } from '../services/i18n';
+
+// Frequencies offered in the form
+const FREQUENCIES: Frequency[] = ['weekly', 'monthly', 'yearly'];
+
+// Empty form state
+const EMPTY: RecurringInput = { sum: 0, currency: 'USD', category: '', description: '', frequency: 'monthly', startDate: '', endDate: '' };
+
+export default function RecurringList() {
+  // Templates and form state (editingId = null -> new template)
+  const [items, setItems] = useState<RecurringTemplate[]>([]);
+  const [form, setForm] = useState<RecurringInput>({ ...EMPTY, startDate: todayKey() });
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [err, setErr] = useState('');
+
+  // Load templates on mount and whenever they change
+  useEffect(() => {
+    const load = () => { listRecurring().then(setItems); };
+    load();
+    window.addEventListener('recurring:changed', load);
+    return () => window.removeEventListener('recurring:changed', load);
+  }, []);
+
+  // Save the form, then generate anything already due (e.g. a start date in the past)
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setErr('');
+    try {
+      const input = { ...form, category: await resolveCategoryName(form.category) };
+      if (editingId != null) await updateRecurring(editingId, input);
+      else await addRecurring(input);
+      await materializeRecurring();
+      setForm({ ...EMPTY, startDate: todayKey() });
+      setEditingId(null);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    }
+  }
+
+  // Load a template into the form
+  function startEdit(tpl: RecurringTemplate) {
+    setEditingId(tpl.id!);
+    setForm({ sum: tpl.sum, currency: tpl.currency, category: tpl.category, description: tpl.description, frequency: tpl.frequency, startDate: tpl.startDate, endDate: tpl.endDate ?? '' });
+  }
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="h6" sx={{ mb: 1 }}>{t('recurring.title')}</Typography>
+
+      {/* Template form */}
+      <Stack component="form" onSubmit={submit} direction={{ xs:'column', md:'row' }} spacing={2} sx={{ mb: 2 }}>
+        <TextField type="number" label={t('common.sum')} value={form.sum} inputProps={{ step: '0.01' }} onChange={(e)=>setForm({ ...form, sum: Number(e.target.value) })} required />
+        <CurrencySelect value={form.currency} onChange={(c: Currency)=>setForm({ ...form, currency: c })} sx={{ minWidth: 110 }} />
+        <CategoryPicker value={form.category} onChange={(v)=>setForm({ ...form, category: v })} required />
+        <TextField label={t('common.description')} value={form.description} onChange={(e)=>setForm({ ...form, description: e.target.value })} />
+        <TextField select label={t('recurring.every')} value={form.frequency} onChange={(e)=>setForm({ ...form, frequency: e.target.value as Frequency })} sx={{ minWidth: 110 }}>
+          {FREQUENCIES.map((f) => <MenuItem key={f} value={f}>{t(`recurring.${f}`)}</MenuItem>)}
+        </TextField>
+        <TextField type="date" label={t('recurring.start')} value={form.startDate} onChange={(e)=>setForm({ ...form, startDate: e.target.value })} InputLabelProps={{ shrink: true }} required />
+        <TextField type="date" label={t('recurring.end')} value={form.endDate} onChange={(e)=>setForm({ ...form, endDate: e.target.value })} InputLabelProps={{ shrink: true }} />
+        <Stack direction="row" spacing={1}>
+          {editingId != null && <Button onClick={()=>{ setEditingId(null); setForm({ ...EMPTY, startDate: todayKey() }); }}>{t('common.cancel')}</Button>}
+          <Button type="submit" variant="contained">{t(editingId != null ? 'common.save' : 'common.add')}</Button>
+        </Stack>
+      </Stack>
+      {err && <Alert severity="error" sx={{ mb: 2 }}>{err}</Alert>}
+
+      {/* Templates with upcoming occurrences (click a date to skip it) */}
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>{t('common.category')}</TableCell>
+            <TableCell>{t('common.description')}</TableCell>
+            <TableCell align="right">{t('common.sum')}</TableCell>
+            <TableCell>{t('recurring.every')}</TableCell>
+            <TableCell>{t('recurring.upcoming')}</TableCell>
+            <TableCell>{t('recurring.active')}</TableCell>
+            <TableCell align="right">{t('report.actions')}</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {items.map((tpl) => (
+            <TableRow key={tpl.id}>
+              <TableCell>{tpl.category}</TableCell>
+              <TableCell>{tpl.description}</TableCell>
+              <TableCell align="right">{formatAmount(tpl.sum, tpl.currency)} {tpl.currency}</TableCell>
+              <TableCell>{t(`recurring.${tpl.frequency}`)}</TableCell>
+              <TableCell>
+                <Stack direction="row" spacing={0.5} useFlexGap flexWrap="wrap">
+                  {upcomingOccurrences(tpl, 4).map((d) => {
+                    const skipped = tpl.skipped.includes(d);
+                    return (
+                      <Tooltip key={d} title={t(skipped ? 'recurring.restore' : 'recurring.skip')}>
+                        <Chip size="small" label={formatDay(d)} disabled={tpl.paused} variant={skipped ? 'outlined' : 'filled'}
+                          sx={skipped ? { textDecoration: 'line-through' } : undefined}
+                          onClick={()=>toggleSkipOccurrence(tpl.id!, d)} />
+                      </Tooltip>
+                    );
+                  })}
+                  {!upcomingOccurrences(tpl, 1).length && <Typography variant="body2" color="text.secondary">{t('recurring.ended')}</Typography>}
+                </Stack>
+              </TableCell>
+              <TableCell>
+                <Switch size="small" checked={!tpl.paused} onChange={(e)=>setRecurringPaused(tpl.id!, !e.target.checked)} />
+              </TableCell>
+              <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                <Tooltip title={t('common.edit')}><IconButton size="small" onClick={()=>startEdit(tpl)}><EditIcon fontSize="small" /></IconButton></Tooltip>
+                <Tooltip title={t('recurring.delete')}><IconButton size="small" onClick={()=>deleteRecurring(tpl.id!)}><DeleteIcon fontSize="small" /></IconButton></Tooltip>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+}
@@ -1,4 +1,4 @@
-/** Monthly report table with rows and a bottom Total in the selected currency. */
+/** Report table for a date range: dated rows and a bottom Total in the selected currency; CSV, print and PDF output. */
 import React, { useEffect, useMemo, useState } from "react";
 // MUI imports for table and layout
 import {
@@ -11,33 +11,95 @@ import {
   Typography,
   Button,
   Stack,
+  IconButton,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Chip,
+  Alert,
+  Box,
 } from "@mui/material";
-import { getReport } from "../services/idb";
-import type { Currency } from "../types"; // Currency type for props
+import EditIcon from "@mui/icons-material/Edit";
+import DeleteIcon from "@mui/icons-material/Delete";
+import { getRangeReport, getCost, deleteCost, StoredCost } from "../services/idb";
+import CostForm from "./CostForm";
+import { formatAmount } from "../services/currencies";
+import { reportToCsv } from "../services/csv";
+import { downloadFile } from "../services/download";
+import { buildPrintReport, openPrintableReport, reportToPdf } from "../services/printReport";
+import type { Bucket, Currency, DateRange, RangeReport, RateMode } from "../types"; // Currency type for props
+import { rangeLabel, partsToDayKey, formatDay } from "../services/ranges";
+import { t } from "../services/i18n";
 
 type Props = {
-  year: number;
-  month: number;
+  range: DateRange; // inclusive from/to days
+  bucket?: Bucket; // day/week/month subtotals in the JSON view
   currency: Currency; // Currency type for report
+  rateMode?: RateMode; // historical (per-date) or today's rates
 };
 
-export default function ReportTable({ year, month, currency }: Props) {
+export default function ReportTable({ range, bucket = "month", currency, rateMode = "historical" }: Props) {
   // State for report data and JSON view toggle
-  const [data, setData] = useState<any>(null);
+  const [data, setData] = useState<RangeReport | null>(null);
   const [showJson, setShowJson] = useState(false);
+  // Row actions: record being edited, id pending delete confirmation
+  const [editing, setEditing] = useState<StoredCost | null>(null);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  // Print/PDF output: which one is being built, and the last error
+  const [exporting, setExporting] = useState<"print" | "pdf" | null>(null);
+  const [exportErr, setExportErr] = useState("");
 
-  // Fetch report when year/month/currency changes
+  // Fetch report when range/bucket/currency/rates mode changes, and after any cost edit/delete
   useEffect(() => {
-    (async () => {
+    const load = async () => {
       try {
-        const rep = await getReport(year, month, currency); // currency is Currency type
+        const rep = await getRangeReport(range, currency, rateMode, bucket); // currency is Currency type
         setData(rep);
         console.log("[REPORT]", rep);
       } catch (err) {
         console.error("Failed to load report:", err);
       }
-    })();
-  }, [year, month, currency]);
+    };
+    load();
+    window.addEventListener("costs:changed", load);
+    return () => window.removeEventListener("costs:changed", load);
+  }, [range, bucket, currency, rateMode]);
+
+  // Open the editor with the stored (unconverted) record
+  async function startEdit(id: number) {
+    const rec = await getCost(id);
+    if (rec) setEditing(rec);
+  }
+
+  // Delete after confirmation; the report reloads via "costs:changed"
+  async function confirmDelete() {
+    if (deletingId == null) return;
+    try {
+      await deleteCost(deletingId);
+    } catch (err) {
+      console.error("Failed to delete cost:", err);
+    } finally {
+      setDeletingId(null);
+    }
+  }
+
+  // Build the printable report for the current range, then print it or download it as PDF
+  async function exportReport(kind: "print" | "pdf") {
+    setExportErr("");
+    setExporting(kind);
+    try {
+      const rep = await buildPrintReport(range, bucket, currency, rateMode);
+      if (kind === "print") openPrintableReport(rep);
+      else downloadFile(await reportToPdf(rep), `cost-report-${range.from}_${range.to}-${currency}.pdf`, "application/pdf");
+    } catch (e: any) {
+      setExportErr(e?.message ?? String(e));
+    } finally {
+      setExporting(null);
+    }
+  }
 
   // Memoized JSON string for display
   const jsonText = useMemo(
@@ -57,65 +119,140 @@ export default function ReportTable({ year, month, currency }: Props) {
             sx={{ mb: 1 }}
         >
           <Typography variant="h6">
-            Report: {year}/{month} — {currency}
+            {t("report.title", { range: rangeLabel(range), currency })}{" "}
+            <Typography component="span" variant="body2" color="text.secondary">
+              {t(rateMode === "historical" ? "report.historical" : "report.today")}
+            </Typography>
           </Typography>
-          <Button variant="outlined" onClick={() => setShowJson((v) => !v)}>
-            {showJson ? "Hide JSON" : "Show JSON"}
-          </Button>
+          <Stack direction="row" spacing={1}>
+            <Button
+                variant="outlined"
+                onClick={() => downloadFile(reportToCsv(data), `cost-report-${range.from}_${range.to}-${currency}.csv`, "text/csv")}
+            >
+              {t("report.exportCsv")}
+            </Button>
+            <Button variant="outlined" disabled={exporting != null} onClick={() => exportReport("print")}>
+              {t("report.print")}
+            </Button>
+            <Button variant="outlined" disabled={exporting != null} onClick={() => exportReport("pdf")}>
+              {t(exporting === "pdf" ? "report.buildingPdf" : "report.downloadPdf")}
+            </Button>
+            <Button variant="outlined" onClick={() => setShowJson((v) => !v)}>
+              {t(showJson ? "report.hideJson" : "report.showJson")}
+            </Button>
+          </Stack>
         </Stack>
 
-        {/* JSON view (toggle) */}
+        {exportErr && <Alert severity="error" sx={{ mb: 2 }}>{exportErr}</Alert>}
+
+        {/* JSON view (toggle), in the theme's colours (light or dark) */}
         {showJson && (
-            <pre
-                style={{
-                  background: "#0b1021",
-                  color: "#e6f3ff",
-                  padding: 12,
-                  borderRadius: 8,
+            <Box
+                component="pre"
+                dir="ltr"
+                sx={{
+                  bgcolor: "action.hover",
+                  color: "text.primary",
+                  border: 1,
+                  borderColor: "divider",
+                  p: 1.5,
+                  borderRadius: 1,
                   overflowX: "auto",
-                  marginBottom: 16,
+                  mt: 0,
+                  mb: 2,
                 }}
             >
           {jsonText}
-        </pre>
+        </Box>
         )}
 
         {/* Table of costs */}
         <Table>
           <TableHead>
             <TableRow>
-              <TableCell>Day</TableCell>
-              <TableCell>Category</TableCell>
-              <TableCell>Description</TableCell>
-              <TableCell align="right">Sum</TableCell>
-              <TableCell>Currency</TableCell>
+              <TableCell>{t("common.date")}</TableCell>
+              <TableCell>{t("common.category")}</TableCell>
+              <TableCell>{t("common.description")}</TableCell>
+              <TableCell align="right">{t("common.sum")}</TableCell>
+              <TableCell>{t("common.currency")}</TableCell>
+              <TableCell align="right">{t("report.actions")}</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
             {/* Cost rows */}
-            {data.costs.map((r: any, idx: number) => (
-                <TableRow key={idx}>
-                  <TableCell>{r.Date.day}</TableCell>
+            {data.costs.map((r, idx) => (
+                <TableRow key={r.id ?? idx}>
+                  <TableCell sx={{ whiteSpace: "nowrap" }}>{formatDay(partsToDayKey(r.Date.year, r.Date.month, r.Date.day))}</TableCell>
                   <TableCell>{r.category}</TableCell>
-                  <TableCell>{r.description}</TableCell>
-                  <TableCell align="right">{r.sum.toFixed(2)}</TableCell>
-                  <TableCell>{r.currency}</TableCell>
+                  <TableCell>
+                    {r.description}
+                    {r.tags.map((tag) => <Chip key={tag} size="small" label={tag} sx={{ ml: 0.5 }} />)}
+                  </TableCell>
+                  <TableCell align="right">{formatAmount(r.sum, r.currency)}</TableCell>
+                  <TableCell>
+                    {r.currency}
+                    {r.unconverted && <Chip size="small" color="warning" label={t("report.unconverted")} sx={{ ml: 0.5 }} />}
+                  </TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: "nowrap" }}>
+                    <Tooltip title={t("common.edit")}>
+                      <span>
+                        <IconButton size="small" disabled={r.id == null} onClick={() => startEdit(r.id!)}>
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title={t("common.delete")}>
+                      <span>
+                        <IconButton size="small" disabled={r.id == null} onClick={() => setDeletingId(r.id!)}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </TableCell>
                 </TableRow>
             ))}
             {/* Total row */}
             <TableRow>
               <TableCell colSpan={3} align="right">
-                <b>Total</b>
+                <b>{t("common.total")}</b>
               </TableCell>
               <TableCell align="right">
-                <b>{data.total.total.toFixed(2)}</b>
+                <b>{formatAmount(data.total.total, data.total.currency)}</b>
               </TableCell>
               <TableCell>
                 <b>{data.total.currency}</b>
               </TableCell>
+              <TableCell />
             </TableRow>
           </TableBody>
         </Table>
+
+        {/* Edit dialog (reuses the CostForm fields) */}
+        <Dialog open={!!editing} onClose={() => setEditing(null)} fullWidth maxWidth="xs">
+          <DialogTitle>{t("report.editTitle")}</DialogTitle>
+          <DialogContent>
+            {editing && (
+                <CostForm
+                    key={editing.id}
+                    initial={editing}
+                    onSaved={() => setEditing(null)}
+                    onCancel={() => setEditing(null)}
+                />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* Delete confirmation */}
+        <Dialog open={deletingId != null} onClose={() => setDeletingId(null)}>
+          <DialogTitle>{t("report.deleteTitle")}</DialogTitle>
+          <DialogContent>
+            <DialogContentText>{t("report.deleteText")}</DialogContentText>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setDeletingId(null)}>{t("common.cancel")}</Button>
+            <Button color="error" variant="contained" onClick={confirmDelete}>{t("common.delete")}</Button>
+          </DialogActions>
+        </Dialog>
       </Paper>
   );
 }
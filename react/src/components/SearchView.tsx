@@ -0,0 +1,181 @@
+/** Search across all costs (text, category, tags, currency, amount, dates) with a sortable result table and saved views. */
+import { useEffect, useMemo, useState } from 'react';
+// MUI imports for the filter form, saved views and result table
+import {
+  Paper, Stack, TextField, Button, Typography, Autocomplete, Table, TableHead, TableRow, TableCell,
+  TableBody, TableSortLabel, MenuItem, IconButton, Tooltip, Alert, Chip
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { CostFilter, Currency, RateMode, SavedView } from '../types';
+import {
+  searchCosts, sortRows, runningTotals, listSavedViews, saveView, deleteView, isEmptyFilter,
+  EMPTY_FILTER, SearchRow, SortKey, SortDir
+} from '../services/search';
+import { listCategories } from '../services/categories';
+import { listCurrencies, formatAmount } from '../services/currencies';
+import { formatDay } from '../services/ranges';
+import { getCurrentRates } from '../services/currency';
+import TagInput from './TagInput';
+import { t, tn, MessageKey } from '../services/i18n';
+
+// Props: report currency for converted amounts and the rates mode
+interface Props { currency: Currency; rateMode?: RateMode; }
+
+// Rows rendered at most (totals always cover every match)
+const MAX_ROWS = 500;
+
+// Sortable columns
+const COLUMNS: { key: SortKey; label: MessageKey; numeric?: boolean }[] = [
+  { key: 'date', label: 'common.date' },
+  { key: 'category', label: 'common.category' },
+  { key: 'description', label: 'common.description' },
+  { key: 'sum', label: 'search.amount', numeric: true },
+  { key: 'converted', label: 'search.inCurrency', numeric: true },
+];
+
+// Utility: number field value -> number or null (empty)
+const num = (v: string) => (v === '' ? null : Number(v));
+
+export default function SearchView({ currency, rateMode = 'historical' }: Props) {
+  // Filter being edited and the filter last applied (null = no search yet)
+  const [filter, setFilter] = useState<CostFilter>(EMPTY_FILTER);
+  const [applied, setApplied] = useState<CostFilter | null>(null);
+  const [rows, setRows] = useState<SearchRow[]>([]);
+  const [sort, setSort] = useState<{ key: SortKey; dir: SortDir }>({ key: 'date', dir: 'asc' });
+  const [err, setErr] = useState('');
+  // Options for the category/currency filters
+  const [categoryOptions, setCategoryOptions] = useState<string[]>([]);
+  const currencyOptions = useMemo(() => listCurrencies(getCurrentRates()).map((c) => c.code), []);
+  // Saved views and the "save as" name
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [viewName, setViewName] = useState('');
+
+  // Load categories and saved views; keep them fresh
+  useEffect(() => {
+    const loadCats = () => { listCategories().then((cs) => setCategoryOptions(cs.map((c) => c.name))); };
+    const loadViews = () => { listSavedViews().then(setViews); };
+    loadCats(); loadViews();
+    window.addEventListener('categories:changed', loadCats);
+    window.addEventListener('search:views-changed', loadViews);
+    return () => {
+      window.removeEventListener('categories:changed', loadCats);
+      window.removeEventListener('search:views-changed', loadViews);
+    };
+  }, []);
+
+  // Run the applied search; again when the currency/rates change or costs are edited
+  useEffect(() => {
+    if (!applied) return;
+    const load = () => {
+      setErr('');
+      searchCosts(applied, currency, rateMode).then(setRows).catch((e) => setErr(e?.message ?? String(e)));
+    };
+    load();
+    window.addEventListener('costs:changed', load);
+    return () => window.removeEventListener('costs:changed', load);
+  }, [applied, currency, rateMode]);
+
+  // Sorted rows with the running total in display order
+  const sorted = useMemo(() => sortRows(rows, sort.key, sort.dir), [rows, sort]);
+  const running = useMemo(() => runningTotals(sorted, currency), [sorted, currency]);
+  const total = running.length ? running[running.length - 1] : 0;
+
+  function toggleSort(key: SortKey) {
+    setSort((s) => ({ key, dir: s.key === key && s.dir === 'asc' ? 'desc' : 'asc' }));
+  }
+
+  // Load a saved view and run it
+  function openView(name: string) {
+    const v = views.find((x) => x.name === name);
+    if (!v) return;
+    const f = { ...EMPTY_FILTER, ...v.filter };
+    setFilter(f); setApplied(f); setViewName(v.name);
+  }
+
+  async function onSaveView() {
+    setErr('');
+    try { await saveView(viewName, filter); }
+    catch (e: any) { setErr(e?.message ?? String(e)); }
+  }
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="h6" sx={{ mb: 1 }}>{t('search.title', { currency })}</Typography>
+
+      {/* Filters */}
+      <Stack component="form" spacing={2} sx={{ mb: 2 }} onSubmit={(e: React.FormEvent)=>{ e.preventDefault(); setApplied(filter); }}>
+        <Stack direction={{ xs:'column', md:'row' }} spacing={2}>
+          <TextField label={t('search.text')} value={filter.text} onChange={(e)=>setFilter({ ...filter, text: e.target.value })} sx={{ flexGrow: 1 }} />
+          <Autocomplete multiple options={categoryOptions} value={filter.categories} sx={{ minWidth: 220 }}
+            onChange={(_, v)=>setFilter({ ...filter, categories: v })}
+            renderInput={(params) => <TextField {...params} label={t('search.categories')} />} />
+          <TagInput label={t('search.tags')} freeSolo={false} value={filter.tags} onChange={(tags)=>setFilter({ ...filter, tags })} />
+          <Autocomplete multiple options={currencyOptions} value={filter.currencies} sx={{ minWidth: 180 }}
+            onChange={(_, v)=>setFilter({ ...filter, currencies: v })}
+            renderInput={(params) => <TextField {...params} label={t('search.currencies')} />} />
+        </Stack>
+        <Stack direction={{ xs:'column', md:'row' }} spacing={2} alignItems={{ md: 'center' }}>
+          <TextField type="number" label={t('search.min', { currency })} value={filter.minAmount ?? ''} inputProps={{ step: '0.01' }}
+            onChange={(e)=>setFilter({ ...filter, minAmount: num(e.target.value) })} />
+          <TextField type="number" label={t('search.max', { currency })} value={filter.maxAmount ?? ''} inputProps={{ step: '0.01' }}
+            onChange={(e)=>setFilter({ ...filter, maxAmount: num(e.target.value) })} />
+          <TextField type="date" label={t('app.from')} value={filter.from} InputLabelProps={{ shrink: true }} onChange={(e)=>setFilter({ ...filter, from: e.target.value })} />
+          <TextField type="date" label={t('app.to')} value={filter.to} InputLabelProps={{ shrink: true }} onChange={(e)=>setFilter({ ...filter, to: e.target.value })} />
+          <Button type="submit" variant="contained">{t('search.search')}</Button>
+          <Button onClick={()=>{ setFilter(EMPTY_FILTER); setApplied(null); setRows([]); setViewName(''); }}>{t('search.clear')}</Button>
+        </Stack>
+      </Stack>
+
+      {/* Saved views */}
+      <Stack direction={{ xs:'column', md:'row' }} spacing={2} alignItems={{ md: 'center' }} sx={{ mb: 2 }}>
+        <TextField select size="small" label={t('search.savedViews')} value={views.some((v) => v.name === viewName) ? viewName : ''}
+          onChange={(e)=>openView(e.target.value)} sx={{ minWidth: 220 }} disabled={!views.length}>
+          {views.map((v) => <MenuItem key={v.name} value={v.name}>{v.name}</MenuItem>)}
+        </TextField>
+        <TextField size="small" label={t('search.viewName')} value={viewName} onChange={(e)=>setViewName(e.target.value)} />
+        <Button variant="outlined" onClick={onSaveView} disabled={!viewName.trim() || isEmptyFilter(filter)}>{t('search.saveView')}</Button>
+        {views.some((v) => v.name === viewName) && (
+          <Tooltip title={t('search.deleteView')}><IconButton size="small" onClick={()=>deleteView(viewName)}><DeleteIcon fontSize="small" /></IconButton></Tooltip>
+        )}
+      </Stack>
+      {err && <Alert severity="error" sx={{ mb: 2 }}>{err}</Alert>}
+
+      {/* Results */}
+      {applied && (<>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          {tn('search.matches', rows.length, { total: `${formatAmount(total, currency)} ${currency}` })}
+          {rows.length > MAX_ROWS && ` ${t('search.showingFirst', { n: MAX_ROWS })}`}
+        </Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              {COLUMNS.map((c) => (
+                <TableCell key={c.key} align={c.numeric ? 'right' : 'left'} sortDirection={sort.key === c.key ? sort.dir : false}>
+                  <TableSortLabel active={sort.key === c.key} direction={sort.key === c.key ? sort.dir : 'asc'} onClick={()=>toggleSort(c.key)}>
+                    {t(c.label, { currency })}
+                  </TableSortLabel>
+                </TableCell>
+              ))}
+              <TableCell align="right">{t('search.runningTotal')}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {sorted.slice(0, MAX_ROWS).map((r, i) => (
+              <TableRow key={r.id ?? i}>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatDay(r.date)}</TableCell>
+                <TableCell>{r.category}</TableCell>
+                <TableCell>
+                  {r.description}
+                  {r.tags.map((tag) => <Chip key={tag} size="small" label={tag} sx={{ ml: 0.5 }} />)}
+                </TableCell>
+                <TableCell align="right">{formatAmount(r.sum, r.currency)} {r.currency}</TableCell>
+                <TableCell align="right">{r.converted == null ? '—' : formatAmount(r.converted, currency)}</TableCell>
+                <TableCell align="right">{formatAmount(running[i], currency)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </>)}
+    </Paper>
+  );
+}
@@ -1,18 +1,33 @@
-/** Settings: choose rates source (default/custom URL or Inline JSON) and import/export data. */
+/** Settings: choose rates source (default/custom URL or Inline JSON), language, appearance, preferences, import/export data and review the change history. */
 import { useEffect, useRef, useState } from 'react';
 // MUI imports for layout and controls
 import {
   Paper, Stack, TextField, Button, Typography, Alert, Divider,
-  RadioGroup, FormControlLabel, Radio
+  RadioGroup, FormControlLabel, Radio, Chip, Switch, MenuItem, Box
 } from '@mui/material';
-import type { Rates } from '../types';
+import type { Rates, CurrencyInfo } from '../types';
 // Currency service helpers for rates management
 import {
   getRatesSource, setRatesSource,
   getRatesUrl, setRatesUrl,
   setInlineRates, getInlineRates,
-  refreshRatesFromUrl, normalizeRates, DEFAULT_RATES_URL
+  refreshRatesFromUrl, normalizeRates, DEFAULT_RATES_URL, getCurrentRates
 } from '../services/currency';
+// Currency registry helpers
+import { listCurrencies, getCustomCurrencies, addCustomCurrency, removeCustomCurrency } from '../services/currencies';
+import { downloadFile, fileStamp } from '../services/download';
+import { costsToCsv } from '../services/csv';
+import CsvImportDialog from './CsvImportDialog';
+import AuditLog from './AuditLog';
+import PreferencesForm from './PreferencesForm';
+import ImportPreviewDialog from './ImportPreviewDialog';
+import PassphraseDialog from './PassphraseDialog';
+import { encryptBackup, decryptBackup, isEncryptedBackup } from '../services/encryption';
+import { exportAllWallets, importAllWallets, isAllWalletsExport } from '../services/wallets';
+import { UNDO_DEPTH } from '../services/idb';
+import { getSyncUrl, setSyncUrl, getSyncStatus, syncNow, SyncStatus } from '../services/sync';
+import { t, getLanguage, setLanguage, getLocale, LANGUAGES, Language } from '../services/i18n';
+import { getThemeMode, setThemeMode, getAccent, setAccent, THEME_MODES, ACCENTS, ThemeMode, Accent } from '../services/appearance';
 
 type Props = { onRatesSaved?: () => void; onImported?: () => void; };
 
@@ -23,9 +38,26 @@ export default function Settings({ onRatesSaved, onImported }: Props) {
   const [inlineJson, setInlineJson] = useState('');
   const [msg, setMsg] = useState('');
   const [err, setErr] = useState('');
+  // Currency registry: current list and the "add currency" form
+  const [currencies, setCurrencies] = useState<CurrencyInfo[]>([]);
+  const [customCodes, setCustomCodes] = useState<string[]>([]);
+  const [newCur, setNewCur] = useState({ code: '', symbol: '', name: '', decimals: '2', rate: '' });
+  // Sync server URL and the status of the last run
+  const [syncUrl, setSyncUrlField] = useState(getSyncUrl());
+  const [sync, setSync] = useState<SyncStatus>(getSyncStatus());
   // Refs for file inputs
   const fileRef = useRef<HTMLInputElement>(null);
   const importRef = useRef<HTMLInputElement>(null);
+  const csvRef = useRef<HTMLInputElement>(null);
+  // CSV import wizard: file text (null = closed) and name
+  const [csvText, setCsvText] = useState<string | null>(null);
+  const [csvName, setCsvName] = useState('');
+  // JSON import preview: parsed file (null = closed) and name
+  const [importJson, setImportJson] = useState<unknown | null>(null);
+  const [importName, setImportName] = useState('');
+  // Encrypted backups: encrypt JSON exports, and the pending passphrase prompt (null = closed)
+  const [encryptExports, setEncryptExports] = useState(false);
+  const [passPrompt, setPassPrompt] = useState<{ mode: 'encrypt' | 'decrypt'; fileName: string; run: (passphrase: string) => Promise<void> } | null>(null);
 
   // On mount: load current source, URL, and inline JSON
   useEffect(() => {
@@ -36,6 +68,46 @@ export default function Settings({ onRatesSaved, onImported }: Props) {
     if (inline) setInlineJson(JSON.stringify(inline, null, 2));
   }, []);
 
+  // Keep the currency list in sync with the rates source and user-added currencies
+  useEffect(() => {
+    const refresh = () => {
+      setCurrencies(listCurrencies(getCurrentRates()));
+      setCustomCodes(getCustomCurrencies().map((c) => c.code));
+    };
+    refresh();
+    window.addEventListener('fx:rates-ready', refresh);
+    window.addEventListener('fx:currencies-changed', refresh);
+    return () => {
+      window.removeEventListener('fx:rates-ready', refresh);
+      window.removeEventListener('fx:currencies-changed', refresh);
+    };
+  }, []);
+
+  // Follow sync runs (auto-sync included)
+  useEffect(() => {
+    const refresh = () => setSync(getSyncStatus());
+    window.addEventListener('sync:changed', refresh);
+    return () => window.removeEventListener('sync:changed', refresh);
+  }, []);
+
+  // ---- Currencies: add a user-defined currency ----
+  function saveCurrency() {
+    setMsg(''); setErr('');
+    try {
+      addCustomCurrency({
+        code: newCur.code,
+        symbol: newCur.symbol,
+        name: newCur.name,
+        decimals: Number(newCur.decimals),
+        rate: newCur.rate.trim() ? Number(newCur.rate) : undefined,
+      });
+      setNewCur({ code: '', symbol: '', name: '', decimals: '2', rate: '' });
+      setMsg(t('settings.currencySaved'));
+    } catch (e: any) {
+      setErr(t('settings.invalidCurrency', { error: e?.message ?? e }));
+    }
+  }
+
   // ---- Rates: URL mode ----
   async function saveUrl() {
     setMsg(''); setErr('');
@@ -44,10 +116,25 @@ export default function Settings({ onRatesSaved, onImported }: Props) {
       setRatesUrl(finalUrl);
       setRatesSource('url');
       await refreshRatesFromUrl(); // test-fetch + persist if idb functions exist
-      setMsg('URL saved & rates fetched.');
+      setMsg(t('settings.urlSaved'));
       onRatesSaved?.();
     } catch (e: any) {
-      setErr('Failed to fetch: ' + (e?.message ?? e));
+      setErr(t('settings.fetchFailed', { error: e?.message ?? e }));
+    }
+  }
+
+  // ---- Sync: server URL (empty = off) ----
+  async function saveSyncUrl() {
+    setMsg(''); setErr('');
+    try {
+      setSyncUrl(syncUrl);
+      setSyncUrlField(getSyncUrl());
+      if (!getSyncUrl()) { setMsg(t('settings.syncTurnedOff')); return; }
+      const s = await syncNow();
+      if (s.state === 'error') setErr(t('settings.syncFailed', { error: s.error ?? '' }));
+      else setMsg(t('settings.syncSaved'));
+    } catch (e: any) {
+      setErr(t('settings.invalidSync', { error: e?.message ?? e }));
     }
   }
 
@@ -58,10 +145,10 @@ export default function Settings({ onRatesSaved, onImported }: Props) {
       const parsed = JSON.parse(inlineJson);
       const norm: Rates = normalizeRates(parsed);
       setInlineRates(norm); // switches source + applies immediately
-      setMsg('Inline JSON saved.');
+      setMsg(t('settings.inlineSaved'));
       onRatesSaved?.();
     } catch (e: any) {
-      setErr('Invalid JSON: ' + (e?.message ?? e));
+      setErr(t('settings.invalidJson', { error: e?.message ?? e }));
     }
   }
 
@@ -74,118 +161,138 @@ export default function Settings({ onRatesSaved, onImported }: Props) {
       setInlineJson(text);
       setSource('inline-json');
       setRatesSource('inline-json');
-      setMsg('Loaded JSON from file. Click "Save Inline JSON" to apply.');
+      setMsg(t('settings.fileLoaded'));
       (e.target as any).value = '';
     } catch (e: any) {
-      setErr('Failed reading file: ' + (e?.message ?? e));
+      setErr(t('settings.readFailed', { error: e?.message ?? e }));
     }
   }
 
   // ---- Backup & Restore ----
+  // Download a JSON export; with encryption on, ask for a passphrase and download the encrypted envelope instead
+  function downloadExport(payload: unknown, baseName: string, done: string) {
+    if (!encryptExports) {
+      downloadFile(JSON.stringify(payload, null, 2), `${baseName}.json`, 'application/json');
+      setMsg(done);
+      return;
+    }
+    const fileName = `${baseName}.encrypted.json`;
+    setPassPrompt({ mode: 'encrypt', fileName, run: async (passphrase) => {
+      downloadFile(JSON.stringify(await encryptBackup(payload, passphrase), null, 2), fileName, 'application/json');
+      setMsg(t('settings.exportEncrypted', { done: done.replace(/\.$/, '') }));
+    } });
+  }
+
   async function exportData() {
     setMsg(''); setErr('');
     try {
-      const mod: any = await import('../services/idb');
-      let payload: any;
-      if (typeof mod.exportAll === 'function') {
-        payload = await mod.exportAll();
-      } else {
-        // Fallback: read directly from DB
-        const db = await mod.openCostsDB('costsDB', 1);
-        const costs: any[] = await new Promise((resolve, reject) => {
-          const tx = db.transaction('costs', 'readonly');
-          const store = tx.objectStore('costs');
-          const req = store.getAll();
-          req.onsuccess = () => resolve(req.result as any[]);
-          req.onerror = () => reject(req.error);
-        });
-        const curMod: any = await import('../services/currency');
-        const rates = typeof curMod.getCurrentRates === 'function' ? curMod.getCurrentRates() : null;
-        payload = { costs, rates };
-      }
-      // Download as JSON file
-      const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      const stamp = new Date().toISOString().slice(0,19).replace(/[:T]/g, '-');
-      a.href = url;
-      a.download = `cost-manager-export-${stamp}.json`;
-      document.body.appendChild(a);
-      a.click();
-      a.remove();
-      URL.revokeObjectURL(url);
-      setMsg('Export complete.');
+      const { exportAll } = await import('../services/idb');
+      downloadExport(await exportAll(), `cost-manager-export-${fileStamp()}`, t('settings.exportDone'));
+    } catch (e: any) {
+      setErr(t('settings.exportFailed', { error: e?.message ?? e }));
+    }
+  }
+
+  // Export every wallet in one file: { wallets: [{ name, currency, costs }], rates, ratesHistory }
+  async function exportAllData() {
+    setMsg(''); setErr('');
+    try {
+      downloadExport(await exportAllWallets(), `cost-manager-all-wallets-${fileStamp()}`, t('settings.exportAllDone'));
     } catch (e: any) {
-      setErr('Export failed: ' + (e?.message ?? e));
+      setErr(t('settings.exportFailed', { error: e?.message ?? e }));
     }
   }
 
-  // Import data from file
+  // Export every cost record as CSV (original amounts and currencies)
+  async function exportCsv() {
+    setMsg(''); setErr('');
+    try {
+      const { exportAll } = await import('../services/idb');
+      const { costs } = await exportAll();
+      downloadFile(costsToCsv(costs), `cost-manager-export-${fileStamp()}.csv`, 'text/csv');
+      setMsg(t('settings.csvExportDone'));
+    } catch (e: any) {
+      setErr(t('settings.exportFailed', { error: e?.message ?? e }));
+    }
+  }
+
+  // Open the CSV import wizard with the chosen file
+  async function onCsvFile(e: React.ChangeEvent<HTMLInputElement>) {
+    setMsg(''); setErr('');
+    const f = e.target.files?.[0]; if (!f) return;
+    try {
+      setCsvName(f.name);
+      setCsvText(await f.text());
+    } catch (e: any) {
+      setErr(t('settings.readFailed', { error: e?.message ?? e }));
+    } finally {
+      (e.target as any).value = '';
+    }
+  }
+
+  // Import data from file: parse (an encrypted backup asks for its passphrase first), then import
   async function onImportFile(e: React.ChangeEvent<HTMLInputElement>) {
     setMsg(''); setErr('');
     const f = e.target.files?.[0]; if (!f) return;
     try {
-      const text = await f.text();
-      const json = JSON.parse(text);
-      const mod: any = await import('../services/idb');
-      if (typeof mod.importFromJson === 'function') {
-        const added = await mod.importFromJson(json);
-        setMsg(`Import complete. Added ${added} records.`);
-      } else {
-        // Fallback import logic
-        const db = await mod.openCostsDB('costsDB', 1);
-        const costs = Array.isArray(json?.costs) ? json.costs : [];
-        await new Promise<void>((resolve, reject) => {
-          const tx = db.transaction('costs', 'readwrite');
-          const store = tx.objectStore('costs');
-          for (const item of costs) {
-            const copy = { ...item };
-            delete (copy as any).id; // let autoIncrement assign new id
-            store.add(copy);
-          }
-          tx.oncomplete = () => resolve();
-          tx.onerror = () => reject(tx.error);
-        });
-        if (json?.rates) {
-          try {
-            const norm = normalizeRates(json.rates);
-            setInlineRates(norm); // apply + switch source to inline
-          } catch { /* ignore rates if invalid */ }
-        }
-        setMsg(`Import complete. Added ${costs.length} records.`);
+      const json = JSON.parse(await f.text());
+      if (isEncryptedBackup(json)) {
+        // A wrong passphrase keeps the prompt open with the error (import errors show below as usual)
+        setPassPrompt({ mode: 'decrypt', fileName: f.name, run: async (passphrase) => {
+          await importParsed(await decryptBackup(json, passphrase), f.name);
+        } });
+        return;
       }
-      onImported?.();
+      await importParsed(json, f.name);
     } catch (e: any) {
-      setErr('Import failed: ' + (e?.message ?? e));
+      setErr(t('settings.importFailed', { error: e?.message ?? e }));
     } finally {
       (e.target as any).value = '';
     }
   }
 
+  // Preview the plan of a parsed export before anything is written
+  // (an all-wallets export is merged into the wallets of the same name right away)
+  async function importParsed(json: unknown, fileName: string) {
+    try {
+      if (isAllWalletsExport(json)) {
+        const results = await importAllWallets(json);
+        const wallets = results.map((r) => t('settings.importWallet', { wallet: r.wallet, added: r.added, updated: r.updated }) + (r.rejected ? t('settings.importRejected', { n: r.rejected }) : '')).join('; ');
+        setMsg(t('settings.importWallets', { wallets }));
+        onImported?.();
+        return;
+      }
+      setImportName(fileName);
+      setImportJson(json);
+    } catch (e: any) {
+      setErr(t('settings.importFailed', { error: e?.message ?? e }));
+    }
+  }
+
   return (
     <Paper sx={{ p:2 }}>
       {/* Settings header */}
-      <Typography variant="h6" sx={{ mb: 1 }}>Settings</Typography>
+      <Typography variant="h6" sx={{ mb: 1 }}>{t('settings.title')}</Typography>
 
       {/* Rates source selection */}
-      <Typography variant="subtitle2" sx={{ mb: 1 }}>Rates source</Typography>
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>{t('settings.ratesSource')}</Typography>
       <RadioGroup row value={source} onChange={(e)=>setSource(e.target.value as any)}>
-        <FormControlLabel value="url" control={<Radio />} label="Fetch from URL (default)" onClick={()=>setRatesSource('url')} />
-        <FormControlLabel value="inline-json" control={<Radio />} label="Inline JSON (manual)" onClick={()=>setRatesSource('inline-json')} />
+        <FormControlLabel value="url" control={<Radio />} label={t('settings.sourceUrl')} onClick={()=>setRatesSource('url')} />
+        <FormControlLabel value="inline-json" control={<Radio />} label={t('settings.sourceInline')} onClick={()=>setRatesSource('inline-json')} />
       </RadioGroup>
 
       {/* URL mode controls */}
       {source === 'url' && (
         <Stack direction={{ xs:'column', sm:'row' }} spacing={2} alignItems="stretch" sx={{ mt: 1 }}>
           <TextField
-            fullWidth label="Rates JSON URL"
+            fullWidth label={t('settings.ratesUrl')}
             value={url}
             onChange={(e)=>setUrl(e.target.value)}
             placeholder={DEFAULT_RATES_URL}
           />
           <Stack direction="column" spacing={1} sx={{ minWidth: 220 }}>
-            <Button variant="contained" onClick={saveUrl}>Save URL & Fetch</Button>
-            <Button variant="outlined" onClick={async ()=>{ setMsg(''); setErr(''); try { await refreshRatesFromUrl(); setMsg('Rates refreshed.'); } catch(e:any){ setErr('Refresh failed: '+(e?.message??e)); } }}>Refresh rates</Button>
+            <Button variant="contained" onClick={saveUrl}>{t('settings.saveUrl')}</Button>
+            <Button variant="outlined" onClick={async ()=>{ setMsg(''); setErr(''); try { await refreshRatesFromUrl(); setMsg(t('settings.refreshed')); } catch(e:any){ setErr(t('settings.refreshFailed', { error: e?.message??e })); } }}>{t('settings.refreshRates')}</Button>
           </Stack>
         </Stack>
       )}
@@ -195,28 +302,137 @@ export default function Settings({ onRatesSaved, onImported }: Props) {
         <Stack spacing={2} sx={{ mt: 1 }}>
           <TextField
             fullWidth multiline minRows={6}
-            label="Inline Rates JSON"
+            label={t('settings.inlineRates')}
             value={inlineJson}
             onChange={(e)=>setInlineJson(e.target.value)}
-            placeholder='{"USD":1,"GBP":1.8,"EURO":0.7,"ILS":3.4}'
+            placeholder='{"USD":1,"GBP":1.8,"EUR":0.7,"ILS":3.4,"JPY":150}'
           />
           <Stack direction="row" spacing={1}>
-            <Button variant="contained" onClick={saveInline}>Save Inline JSON</Button>
-            <Button variant="outlined" onClick={()=>fileRef.current?.click()}>Load from file…</Button>
+            <Button variant="contained" onClick={saveInline}>{t('settings.saveInline')}</Button>
+            <Button variant="outlined" onClick={()=>fileRef.current?.click()}>{t('settings.loadFile')}</Button>
             <input ref={fileRef} type="file" accept="application/json" style={{ display: 'none' }} onChange={onFileChange} />
           </Stack>
         </Stack>
       )}
 
+      {/* Optional sync server (all wallets, by name) */}
+      <Stack direction={{ xs:'column', sm:'row' }} spacing={2} alignItems="stretch" sx={{ mt: 2 }}>
+        <TextField
+          fullWidth label={t('settings.syncUrl')}
+          value={syncUrl}
+          onChange={(e)=>setSyncUrlField(e.target.value)}
+          placeholder="http://localhost:8787"
+        />
+        <Stack direction="column" spacing={1} sx={{ minWidth: 220 }}>
+          <Button variant="contained" onClick={saveSyncUrl}>{t('settings.saveSync')}</Button>
+          <Button variant="outlined" disabled={sync.state === 'off' || sync.state === 'syncing'} onClick={()=>syncNow()}>{t('settings.syncNow')}</Button>
+        </Stack>
+      </Stack>
+      <Typography variant="caption" color={sync.state === 'error' ? 'error' : 'text.secondary'}>
+        {sync.state === 'off' && t('settings.syncOff')}
+        {sync.state === 'syncing' && t('settings.syncing')}
+        {sync.state === 'error' && t('settings.syncFailed', { error: sync.error ?? '' })}
+        {sync.state === 'idle' && (sync.lastSync
+          ? t('settings.lastSynced', { time: new Date(sync.lastSync).toLocaleString(getLocale()), pushed: sync.pushed ?? 0, pulled: sync.pulled ?? 0 })
+          : t('settings.syncIdle'))}
+      </Typography>
+
+      <Divider sx={{ my: 3 }} />
+
+      {/* UI language (kept in this browser, applied at once) */}
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>{t('settings.language')}</Typography>
+      <TextField select size="small" label={t('settings.language')} value={getLanguage()} onChange={(e)=>setLanguage(e.target.value as Language)} sx={{ minWidth: 200 }}>
+        {LANGUAGES.map((l) => <MenuItem key={l.value} value={l.value} lang={l.value}>{l.label}</MenuItem>)}
+      </TextField>
+
+      <Divider sx={{ my: 3 }} />
+
+      {/* Light/dark/system mode and accent colour (kept in this browser, applied at once) */}
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>{t('settings.appearance')}</Typography>
+      <Stack direction={{ xs:'column', sm:'row' }} spacing={2} sx={{ mb: 1 }}>
+        <TextField select size="small" label={t('settings.themeMode')} value={getThemeMode()} onChange={(e)=>setThemeMode(e.target.value as ThemeMode)} sx={{ minWidth: 200 }}>
+          {THEME_MODES.map((m) => <MenuItem key={m} value={m}>{t(`theme.${m}`)}</MenuItem>)}
+        </TextField>
+        <TextField select size="small" label={t('settings.accent')} value={getAccent()} onChange={(e)=>setAccent(e.target.value as Accent)} sx={{ minWidth: 200 }}>
+          {ACCENTS.map((a) => (
+            <MenuItem key={a.value} value={a.value}>
+              <Box component="span" sx={{ display: 'inline-block', width: 14, height: 14, borderRadius: '50%', bgcolor: a.color, mr: 1, verticalAlign: 'middle' }} />
+              {t(`accent.${a.value}`)}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Stack>
+      <Typography variant="caption" color="text.secondary">{t('settings.appearanceNote')}</Typography>
+
+      <Divider sx={{ my: 3 }} />
+
+      {/* Defaults and display formats */}
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>{t('settings.preferences')}</Typography>
+      <PreferencesForm onSaved={()=>{ setErr(''); setMsg(t('settings.prefsSaved')); }} onError={(m)=>{ setMsg(''); setErr(m); }} />
+
+      <Divider sx={{ my: 3 }} />
+
+      {/* Currency registry */}
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>{t('settings.currencies')}</Typography>
+      <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" sx={{ mb: 2 }}>
+        {currencies.map((c) => (
+          <Chip
+            key={c.code}
+            label={`${c.code} ${c.symbol} · ${c.decimals} dp`}
+            title={c.name}
+            variant={customCodes.includes(c.code) ? 'filled' : 'outlined'}
+            onDelete={customCodes.includes(c.code) ? () => removeCustomCurrency(c.code) : undefined}
+          />
+        ))}
+      </Stack>
+      <Stack direction={{ xs:'column', sm:'row' }} spacing={1}>
+        <TextField size="small" label={t('settings.currencyCode')} value={newCur.code} onChange={(e)=>setNewCur({ ...newCur, code: e.target.value.toUpperCase() })} inputProps={{ maxLength: 3 }} sx={{ width: { sm: 90 } }} />
+        <TextField size="small" label={t('settings.currencySymbol')} value={newCur.symbol} onChange={(e)=>setNewCur({ ...newCur, symbol: e.target.value })} sx={{ width: { sm: 90 } }} />
+        <TextField size="small" label={t('common.name')} value={newCur.name} onChange={(e)=>setNewCur({ ...newCur, name: e.target.value })} />
+        <TextField size="small" type="number" label={t('settings.currencyDecimals')} value={newCur.decimals} onChange={(e)=>setNewCur({ ...newCur, decimals: e.target.value })} inputProps={{ min: 0, max: 4 }} sx={{ width: { sm: 100 } }} />
+        <TextField size="small" type="number" label={t('settings.currencyRate')} value={newCur.rate} onChange={(e)=>setNewCur({ ...newCur, rate: e.target.value })} />
+        <Button variant="outlined" onClick={saveCurrency}>{t('settings.addCurrency')}</Button>
+      </Stack>
+      <Typography variant="caption" color="text.secondary">{t('settings.currenciesNote')}</Typography>
+
       <Divider sx={{ my: 3 }} />
 
       {/* Backup & Restore controls */}
-      <Typography variant="subtitle2" sx={{ mb: 1 }}>Backup & Restore</Typography>
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>{t('settings.backup')}</Typography>
       <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
-        <Button variant="outlined" onClick={exportData}>Export data (JSON)</Button>
-        <Button variant="outlined" onClick={()=>importRef.current?.click()}>Import data (JSON)</Button>
+        <Button variant="outlined" onClick={exportData}>{t('settings.exportWallet')}</Button>
+        <Button variant="outlined" onClick={exportAllData}>{t('settings.exportAll')}</Button>
+        <Button variant="outlined" onClick={()=>importRef.current?.click()}>{t('settings.importJson')}</Button>
         <input ref={importRef} type="file" accept="application/json" style={{ display:'none' }} onChange={onImportFile} />
       </Stack>
+      <FormControlLabel sx={{ mb: 1 }} label={t('settings.encrypt')}
+        control={<Switch checked={encryptExports} onChange={(e)=>setEncryptExports(e.target.checked)} />} />
+      <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
+        <Button variant="outlined" onClick={exportCsv}>{t('settings.exportCsv')}</Button>
+        <Button variant="outlined" onClick={()=>csvRef.current?.click()}>{t('settings.importCsv')}</Button>
+        <input ref={csvRef} type="file" accept=".csv,text/csv,text/plain" style={{ display:'none' }} onChange={onCsvFile} />
+      </Stack>
+      <Typography variant="caption" color="text.secondary">
+        {t('settings.backupNote')} {t('settings.encryptNote')}
+      </Typography>
+      <PassphraseDialog
+        mode={passPrompt?.mode ?? null}
+        fileName={passPrompt?.fileName}
+        onSubmit={(passphrase)=>passPrompt!.run(passphrase)}
+        onClose={()=>setPassPrompt(null)}
+      />
+      <ImportPreviewDialog
+        json={importJson}
+        fileName={importName}
+        onClose={()=>setImportJson(null)}
+        onImported={(r)=>{ setMsg(t(r.deleted ? 'settings.importDoneDeleted' : 'settings.importDone', { added: r.added, updated: r.updated, deleted: r.deleted ?? 0 })); onImported?.(); }}
+      />
+      <CsvImportDialog
+        text={csvText}
+        fileName={csvName}
+        onClose={()=>setCsvText(null)}
+        onImported={(added)=>{ setMsg(t('settings.csvImportDone', { n: added })); onImported?.(); }}
+      />
 
       {/* Status messages */}
       {msg && <Alert sx={{ mt:2 }} severity="success">{msg}</Alert>}
@@ -224,10 +440,19 @@ export default function Settings({ onRatesSaved, onImported }: Props) {
 
       <Divider sx={{ my: 3 }} />
 
+      {/* Change history of this wallet (audit log) */}
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>{t('settings.history')}</Typography>
+      <AuditLog />
+      <Typography variant="caption" color="text.secondary">
+        {t('settings.historyNote', { n: UNDO_DEPTH })}
+      </Typography>
+
+      <Divider sx={{ my: 3 }} />
+
       {/* Info about rates policy */}
       <Typography variant="body2">
-        Default URL: <code>{DEFAULT_RATES_URL}</code><br/>
-        Each new session loads rates from the default URL. Override with a custom URL, or use Inline JSON for manual rates.
+        {t('settings.defaultUrl')} <code>{DEFAULT_RATES_URL}</code><br/>
+        {t('settings.ratesPolicy')}
       </Typography>
     </Paper>
   );
@@ -0,0 +1,55 @@
+/** By-tag breakdown for the selected range (shown next to the pie): one bar per tag, optionally limited to some tags. */
+import { useEffect, useState } from 'react';
+// MUI and Recharts imports for the chart and tag filter
+import { Paper, Typography, Stack, useTheme } from '@mui/material';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Cell } from 'recharts';
+import { Currency, DateRange, RateMode } from '../types';
+import { getRangeTagTotals } from '../services/tags';
+import { formatAmount } from '../services/currencies';
+import { defaultCategoryColor } from '../services/categories';
+import { rangeLabel } from '../services/ranges';
+import TagInput from './TagInput';
+import { t } from '../services/i18n';
+import { chartStyle } from '../theme';
+
+// Props: selected range/currency and rates mode (same as the pie)
+interface Props { range: DateRange; currency: Currency; rateMode?: RateMode; }
+
+export default function TagBreakdown({ range, currency, rateMode = 'historical' }: Props) {
+  // Tag filter (empty = every tag) and chart data
+  const [only, setOnly] = useState<string[]>([]);
+  const [data, setData] = useState<{name:string; value:number}[]>([]);
+  useEffect(() => {
+    const load = () => { getRangeTagTotals(range, currency, rateMode, only).then(setData); };
+    load();
+    window.addEventListener('costs:changed', load);
+    return () => window.removeEventListener('costs:changed', load);
+  }, [range, currency, rateMode, only]);
+  const chart = chartStyle(useTheme());
+  return (
+    <Paper sx={{ p:2, height: 380, display: 'flex', flexDirection: 'column' }}>
+      {/* Title and tag filter */}
+      <Stack direction="row" justifyContent="space-between" alignItems="center" spacing={2} sx={{ mb: 1 }}>
+        <Typography variant="h6">{t('tags.title', { range: rangeLabel(range), currency })}</Typography>
+        <TagInput size="small" label={t('tags.only')} freeSolo={false} value={only} onChange={setOnly} />
+      </Stack>
+      {data.length ? (
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} layout="vertical" margin={{ left: 16 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={chart.grid} />
+            <XAxis {...chart.axis} type="number" />
+            <YAxis {...chart.axis} type="category" dataKey="name" width={110} />
+            <Tooltip {...chart.tooltip} cursor={{ fill: chart.grid }} formatter={(v:number)=>formatAmount(v, currency)} />
+            <Bar dataKey="value" name={t('common.total')}>
+              {data.map((d) => <Cell key={d.name} fill={chart.color(defaultCategoryColor(d.name))} />)}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      ) : (
+        <Typography variant="body2" color="text.secondary">{t('tags.none')}</Typography>
+      )}
+      {/* Costs with several tags count towards each of them */}
+      <Typography variant="caption" color="text.secondary">{t('tags.note')}</Typography>
+    </Paper>
+  );
+}
@@ -0,0 +1,45 @@
+/** Tag input: chips with suggestions from the tags already in use; typing a new tag and pressing Enter adds it. */
+import { useEffect, useState } from 'react';
+// MUI imports for the autocomplete field
+import { Autocomplete, TextField, Chip, SxProps, Theme } from '@mui/material';
+import { listTags } from '../services/tags';
+import { normalizeTags } from '../services/idb';
+import { t } from '../services/i18n';
+
+// Props: controlled list of tags plus optional label/styling; `freeSolo` = allow new tags (off for filters)
+interface Props {
+  value: string[];
+  onChange: (tags: string[])=>void;
+  label?: string;
+  freeSolo?: boolean;
+  size?: 'small' | 'medium';
+  sx?: SxProps<Theme>;
+}
+
+export default function TagInput({ value, onChange, label = t('common.tags'), freeSolo = true, size, sx }: Props) {
+  // Tags in use, refreshed after cost edits
+  const [options, setOptions] = useState<string[]>([]);
+  useEffect(() => {
+    const load = () => { listTags().then(setOptions); };
+    load();
+    window.addEventListener('costs:changed', load);
+    return () => window.removeEventListener('costs:changed', load);
+  }, []);
+  return (
+    <Autocomplete
+      multiple
+      freeSolo={freeSolo}
+      autoSelect={freeSolo}
+      size={size}
+      sx={{ minWidth: 200, ...sx }}
+      options={options}
+      value={value}
+      onChange={(_, v)=>onChange(normalizeTags(v))}
+      renderTags={(tags, getTagProps) => tags.map((tag, i) => {
+        const { key, ...rest } = getTagProps({ index: i });
+        return <Chip key={key} size="small" label={tag} {...rest} />;
+      })}
+      renderInput={(params) => <TextField {...params} label={label} placeholder={freeSolo && !value.length ? 'e.g. vacation-2026' : undefined} />}
+    />
+  );
+}
@@ -0,0 +1,24 @@
+/** Warning above the views when costs are left out of totals because no rate set has their currency. */
+import { useEffect, useState } from 'react';
+// MUI import for the warning
+import { Alert } from '@mui/material';
+import { Currency } from '../types';
+import { getUnconverted } from '../services/idb';
+import { t } from '../services/i18n';
+
+export default function UnconvertedNotice({ currency }: { currency: Currency }) {
+  const [codes, setCodes] = useState<Currency[]>(() => getUnconverted(currency));
+  // Noted by the conversions of every view; forgotten when rates or custom currencies cover them
+  useEffect(() => {
+    const refresh = () => setCodes(getUnconverted(currency));
+    refresh();
+    window.addEventListener('fx:unconverted', refresh);
+    return () => window.removeEventListener('fx:unconverted', refresh);
+  }, [currency]);
+  if (!codes.length) return null;
+  return (
+    <Alert severity="warning" sx={{ mb: 2 }}>
+      {t('app.unconverted', { codes: codes.join(', '), currency })}
+    </Alert>
+  );
+}
@@ -0,0 +1,115 @@
+/** Wallet switcher for the AppBar (plus the consolidated "all wallets" entry) and the wallet management dialog. */
+import { useEffect, useState } from 'react';
+// MUI imports for the select, dialog and wallet list
+import {
+  TextField, MenuItem, Divider, IconButton, Tooltip, Dialog, DialogTitle, DialogContent, DialogActions, Button,
+  Stack, Alert, Typography, SxProps, Theme
+} from '@mui/material';
+import SettingsIcon from '@mui/icons-material/Settings';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { Currency, Wallet } from '../types';
+import { listWallets, addWallet, updateWallet, deleteWallet, ALL_WALLETS, DEFAULT_WALLET } from '../services/wallets';
+import CurrencySelect from './CurrencySelect';
+import { t } from '../services/i18n';
+
+// Props: selected wallet id (or ALL_WALLETS) and the change callback
+interface Props {
+  value: string;
+  onChange: (id: string) => void;
+  sx?: SxProps<Theme>;
+}
+
+export default function WalletSwitcher({ value, onChange, sx }: Props) {
+  const [wallets, setWallets] = useState<Wallet[]>([]);
+  const [managing, setManaging] = useState(false);
+  // Load wallets; reload when they change
+  useEffect(() => {
+    const load = () => { listWallets().then(setWallets); };
+    load();
+    window.addEventListener('wallets:changed', load);
+    return () => window.removeEventListener('wallets:changed', load);
+  }, []);
+
+  return (<>
+    <TextField select size="small" label={t('wallet.label')} sx={sx} value={wallets.length ? value : ''} onChange={(e)=>onChange(e.target.value)}>
+      {wallets.map((w) => <MenuItem key={w.id} value={w.id}>{w.name}</MenuItem>)}
+      {wallets.length > 1 && <Divider />}
+      {wallets.length > 1 && <MenuItem value={ALL_WALLETS}>{t('wallet.all')}</MenuItem>}
+    </TextField>
+    <Tooltip title={t('wallet.manage')}>
+      <IconButton color="inherit" onClick={()=>setManaging(true)} sx={{ mr: 1 }}><SettingsIcon /></IconButton>
+    </Tooltip>
+    <WalletDialog open={managing} wallets={wallets} onClose={()=>setManaging(false)} />
+  </>);
+}
+
+// Props: dialog visibility, wallets to edit and close callback
+interface DialogProps { open: boolean; wallets: Wallet[]; onClose: () => void; }
+
+// Add, rename, re-currency and delete wallets
+function WalletDialog({ open, wallets, onClose }: DialogProps) {
+  // Drafts of the existing wallets (by id) and the new wallet form
+  const [drafts, setDrafts] = useState<Record<string, { name: string; currency: Currency }>>({});
+  const [fresh, setFresh] = useState<{ name: string; currency: Currency }>({ name: '', currency: 'USD' });
+  const [deleting, setDeleting] = useState<Wallet | null>(null);
+  const [err, setErr] = useState('');
+
+  // Fresh drafts every time the dialog opens or the list changes
+  useEffect(() => {
+    setDrafts(Object.fromEntries(wallets.map((w) => [w.id, { name: w.name, currency: w.currency }])));
+  }, [wallets, open]);
+
+  // Run an action, showing its error instead of throwing
+  async function run(fn: () => Promise<unknown>) {
+    setErr('');
+    try { await fn(); } catch (e: any) { setErr(e?.message ?? String(e)); }
+  }
+
+  const changed = (w: Wallet) => drafts[w.id] && (drafts[w.id].name !== w.name || drafts[w.id].currency !== w.currency);
+
+  return (<>
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{t('wallet.title')}</DialogTitle>
+      <DialogContent dividers>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>{t('wallet.intro')}</Typography>
+        <Stack spacing={1.5}>
+          {wallets.map((w) => drafts[w.id] && (
+            <Stack key={w.id} direction="row" spacing={1} alignItems="center">
+              <TextField size="small" label={t('common.name')} value={drafts[w.id].name} sx={{ flexGrow: 1 }}
+                onChange={(e)=>setDrafts({ ...drafts, [w.id]: { ...drafts[w.id], name: e.target.value } })} />
+              <CurrencySelect size="small" sx={{ minWidth: 100 }} value={drafts[w.id].currency}
+                onChange={(c)=>setDrafts({ ...drafts, [w.id]: { ...drafts[w.id], currency: c } })} />
+              <Button size="small" disabled={!changed(w)} onClick={()=>run(() => updateWallet(w.id, drafts[w.id]))}>{t('common.save')}</Button>
+              <Tooltip title={t(w.id === DEFAULT_WALLET ? 'wallet.firstCannotDelete' : 'wallet.delete')}>
+                <span>
+                  <IconButton size="small" disabled={w.id === DEFAULT_WALLET} onClick={()=>setDeleting(w)}><DeleteIcon fontSize="small" /></IconButton>
+                </span>
+              </Tooltip>
+            </Stack>
+          ))}
+          <Divider />
+          <Stack direction="row" spacing={1} alignItems="center">
+            <TextField size="small" label={t('wallet.new')} value={fresh.name} sx={{ flexGrow: 1 }} onChange={(e)=>setFresh({ ...fresh, name: e.target.value })} />
+            <CurrencySelect size="small" sx={{ minWidth: 100 }} value={fresh.currency} onChange={(c)=>setFresh({ ...fresh, currency: c })} />
+            <Button variant="contained" size="small" disabled={!fresh.name.trim()}
+              onClick={()=>run(async () => { await addWallet(fresh); setFresh({ name: '', currency: fresh.currency }); })}>{t('common.add')}</Button>
+          </Stack>
+        </Stack>
+        {err && <Alert severity="error" sx={{ mt: 2 }}>{err}</Alert>}
+      </DialogContent>
+      <DialogActions><Button onClick={onClose}>{t('common.close')}</Button></DialogActions>
+    </Dialog>
+
+    {/* Delete confirmation */}
+    <Dialog open={!!deleting} onClose={()=>setDeleting(null)}>
+      <DialogTitle>{t('wallet.deleteTitle', { name: deleting?.name ?? '' })}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2">{t('wallet.deleteText')}</Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={()=>setDeleting(null)}>{t('common.cancel')}</Button>
+        <Button color="error" variant="contained" onClick={()=>{ const w = deleting!; setDeleting(null); run(() => deleteWallet(w.id)); }}>{t('common.delete')}</Button>
+      </DialogActions>
+    </Dialog>
+  </>);
+}
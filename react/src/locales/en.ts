@@ -0,0 +1,512 @@
+/** English messages (the reference catalog: every key is defined here; other languages fall back to it). */
+const en = {
+  // Shared
+  'common.add': 'Add',
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'common.edit': 'Edit',
+  'common.close': 'Close',
+  'common.total': 'Total',
+  'common.date': 'Date',
+  'common.category': 'Category',
+  'common.description': 'Description',
+  'common.sum': 'Sum',
+  'common.currency': 'Currency',
+  'common.tags': 'Tags',
+  'common.name': 'Name',
+  'common.budget': 'Budget {amount}',
+  'common.off': 'Off',
+
+  // App shell
+  'app.title': 'Cost Manager',
+  'app.period': 'Period',
+  'app.from': 'From',
+  'app.to': 'To',
+  'app.groupBy': 'Group by',
+  'app.day': 'Day',
+  'app.week': 'Week',
+  'app.month': 'Month',
+  'app.historicalRates': 'Historical rates',
+  'app.historicalRatesHint': "On: convert each cost at the rates saved closest to its date. Off: use today's rates.",
+  'app.undo': 'Undo',
+  'app.redo': 'Redo',
+  'app.nothingToUndo': 'Nothing to undo.',
+  'app.nothingToRedo': 'Nothing to redo.',
+  'app.undoFailed': 'Undo failed: {error}',
+  'app.redoFailed': 'Redo failed: {error}',
+  'app.dbReady': 'Database ready.',
+  'app.dbError': 'DB error: {error}',
+  'app.switchedTo': 'Switched to "{name}".',
+  'app.recurringAdded_one': '{ready} Added {n} recurring cost.',
+  'app.recurringAdded_other': '{ready} Added {n} recurring costs.',
+  'app.costAdded': 'Cost added.',
+  'app.overallBudget': 'Overall budget',
+  'app.categoryBudget': '"{category}" budget',
+  'app.budgetExceeded': 'Cost added. {name} exceeded ({pct}%).',
+  'app.budgetAt': 'Cost added. {name} at {pct}%.',
+  'app.ratesSaved': 'Rates saved.',
+  'app.importComplete': 'Import complete.',
+  'app.unconverted': 'No rates for {codes} → {currency}: those costs are left out of the totals. Add the rate in Settings → Currencies, or load a rates file that has it.',
+  'report.unconverted': 'Not converted: no rate',
+
+  // Tabs (views)
+  'tab.add': 'Add Cost',
+  'tab.report': 'Report',
+  'tab.search': 'Search',
+  'tab.pie': 'Pie by Category',
+  'tab.bar': 'Bar by Period',
+  'tab.compare': 'Compare',
+  'tab.forecast': 'Forecast',
+  'tab.budgets': 'Budgets',
+  'tab.recurring': 'Recurring',
+  'tab.categories': 'Categories',
+  'tab.settings': 'Settings',
+
+  // Range presets
+  'preset.this-month': 'This month',
+  'preset.last-month': 'Last month',
+  'preset.this-quarter': 'This quarter',
+  'preset.last-30-days': 'Last 30 days',
+  'preset.this-year': 'This year',
+  'preset.fiscal-year': 'Fiscal year (from April)',
+  'preset.custom': 'Custom',
+
+  // Wallets
+  'wallet.label': 'Wallet',
+  'wallet.defaultName': 'Personal',
+  'wallet.importedName': 'Imported {n}',
+  'wallet.all': 'All wallets (report)',
+  'wallet.manage': 'Manage wallets',
+  'wallet.title': 'Wallets',
+  'wallet.intro': "Each wallet keeps its own costs, budgets, recurring costs and categories. The currency is the wallet's default for new costs and reports.",
+  'wallet.firstCannotDelete': 'The first wallet cannot be deleted',
+  'wallet.delete': 'Delete wallet',
+  'wallet.new': 'New wallet',
+  'wallet.deleteTitle': 'Delete wallet "{name}"?',
+  'wallet.deleteText': 'All its costs, budgets, recurring costs and categories are deleted permanently. Export it first if you may need it.',
+
+  // Offline chip
+  'offline.savedRates': 'Offline — using rates from {date}',
+  'offline.sessionRates': 'Offline — using the rates loaded this session',
+  'offline.noRates': 'Offline — no saved rates',
+  'offline.hint': 'Costs are saved locally as usual. Fresh rates are fetched when the connection is back.',
+  'offline.hintNoRates': 'Costs are saved locally as usual, but amounts cannot be converted until rates are fetched once.',
+
+  // Report
+  'report.title': 'Report: {range} — {currency}',
+  'report.historical': '(historical rates)',
+  'report.today': "(today's rates)",
+  'report.exportCsv': 'Export CSV',
+  'report.print': 'Print',
+  'report.buildingPdf': 'Building PDF…',
+  'report.downloadPdf': 'Download PDF',
+  'report.showJson': 'Show JSON',
+  'report.hideJson': 'Hide JSON',
+  'report.actions': 'Actions',
+  'report.editTitle': 'Edit cost',
+  'report.deleteTitle': 'Delete cost?',
+  'report.deleteText': 'This removes the record permanently.',
+
+  // Charts
+  'pie.title': 'Pie by Category: {range} — {currency}',
+  'bar.title.day': 'Bar by Day: {range} — {currency}',
+  'bar.title.week': 'Bar by Week: {range} — {currency}',
+  'bar.title.month': 'Bar by Month: {range} — {currency}',
+  'bar.tip.day': 'Day {key}',
+  'bar.tip.week': 'Week from {key}',
+  'bar.tip.month': '{key}',
+  'bar.rolling': 'Rolling average',
+  'bar.months': '{n} months',
+  'bar.average': '{n}-month average',
+  'tags.title': 'By Tag: {range} — {currency}',
+  'tags.only': 'Only tags',
+  'tags.none': 'No tagged costs in this period.',
+  'tags.note': 'A cost with several tags is counted under each tag.',
+  'compare.years': 'Year over year — {currency}',
+  'compare.yearsField': 'Years',
+  'compare.months': 'Month over month — {currency}',
+  'compare.fromMonth': 'From month',
+  'compare.toMonth': 'To month',
+  'compare.change': 'Change',
+  'compare.changePct': 'Change %',
+  'compare.new': 'new',
+  'compare.biggestIncrease': 'Biggest increase',
+  'compare.biggestDecrease': 'Biggest decrease',
+  'compare.none': 'No costs in either month.',
+  'forecast.title': 'Forecast: {month} — {currency}',
+  'forecast.summary': 'Spent {spent} · expected {projected} ({low}–{high})',
+  'forecast.range': 'Likely range',
+  'forecast.spent': 'Spent',
+  'forecast.projected': 'Projected',
+  'forecast.due': 'Still due',
+  'forecast.byCategory': 'Month-end by category',
+  'forecast.note': 'Spent so far, recurring and other costs still due this month, and day-to-day spending at a pace blending this month with {history} (up to {max}).',
+  'forecast.history_one': 'the last month with costs',
+  'forecast.history_other': 'the last {n} months with costs',
+  'forecast.noHistory': 'no history yet',
+  'forecast.none': 'Nothing to forecast yet.',
+
+  // Settings
+  'settings.title': 'Settings',
+  'settings.ratesSource': 'Rates source',
+  'settings.sourceUrl': 'Fetch from URL (default)',
+  'settings.sourceInline': 'Inline JSON (manual)',
+  'settings.ratesUrl': 'Rates JSON URL',
+  'settings.saveUrl': 'Save URL & Fetch',
+  'settings.refreshRates': 'Refresh rates',
+  'settings.inlineRates': 'Inline Rates JSON',
+  'settings.saveInline': 'Save Inline JSON',
+  'settings.loadFile': 'Load from file…',
+  'settings.syncUrl': 'Sync server URL (optional)',
+  'settings.saveSync': 'Save server & sync',
+  'settings.syncNow': 'Sync now',
+  'settings.syncOff': 'Sync is off: costs stay in this browser. Leave the URL empty to keep it that way.',
+  'settings.syncing': 'Syncing…',
+  'settings.syncFailed': 'Sync failed: {error}',
+  'settings.lastSynced': 'Last synced {time}: sent {pushed}, received {pulled} changes.',
+  'settings.syncIdle': 'Costs of every wallet sync with the server ledger of the same name, shortly after each change and every few minutes.',
+  'settings.language': 'Language',
+  'settings.appearance': 'Appearance',
+  'settings.themeMode': 'Theme',
+  'settings.accent': 'Accent colour',
+  'settings.appearanceNote': 'Kept in this browser. System follows the light or dark setting of the device.',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.system': 'System',
+  'accent.blue': 'Blue',
+  'accent.purple': 'Purple',
+  'accent.teal': 'Teal',
+  'accent.green': 'Green',
+  'accent.orange': 'Orange',
+  'accent.pink': 'Pink',
+  'settings.preferences': 'Preferences',
+  'settings.currencies': 'Currencies',
+  'settings.currencyCode': 'Code',
+  'settings.currencySymbol': 'Symbol',
+  'settings.currencyDecimals': 'Decimals',
+  'settings.currencyRate': 'Rate per 1 USD (optional)',
+  'settings.addCurrency': 'Add currency',
+  'settings.currenciesNote': 'Currencies come from the rates source; add your own here. The optional rate is used only when the rates source lacks that currency.',
+  'settings.backup': 'Backup & Restore',
+  'settings.exportWallet': 'Export this wallet (JSON)',
+  'settings.exportAll': 'Export all wallets (JSON)',
+  'settings.importJson': 'Import data (JSON)',
+  'settings.encrypt': 'Encrypt JSON exports with a passphrase',
+  'settings.exportCsv': 'Export data (CSV)',
+  'settings.importCsv': 'Import CSV…',
+  'settings.backupNote': 'Wallet exports and imports (JSON and CSV) use the wallet selected in the app bar. An all-wallets file is merged into the wallets with the same names, which are created when missing.',
+  'settings.encryptNote': 'Encrypted JSON files (AES-GCM, key derived from the passphrase) ask for their passphrase on import; a lost passphrase cannot be recovered.',
+  'settings.history': 'History',
+  'settings.historyNote': 'Added, edited and deleted costs, imports and inline rate changes of the wallet selected in the app bar. Undo reverts the last {n} changes, one at a time.',
+  'settings.defaultUrl': 'Default URL:',
+  'settings.ratesPolicy': 'Each new session loads rates from the default URL. Override with a custom URL, or use Inline JSON for manual rates.',
+  'settings.currencySaved': 'Currency saved.',
+  'settings.invalidCurrency': 'Invalid currency: {error}',
+  'settings.urlSaved': 'URL saved & rates fetched.',
+  'settings.fetchFailed': 'Failed to fetch: {error}',
+  'settings.refreshed': 'Rates refreshed.',
+  'settings.refreshFailed': 'Refresh failed: {error}',
+  'settings.syncTurnedOff': 'Sync turned off.',
+  'settings.syncSaved': 'Sync server saved.',
+  'settings.invalidSync': 'Invalid sync server: {error}',
+  'settings.inlineSaved': 'Inline JSON saved.',
+  'settings.invalidJson': 'Invalid JSON: {error}',
+  'settings.fileLoaded': 'Loaded JSON from file. Click "Save Inline JSON" to apply.',
+  'settings.readFailed': 'Failed reading file: {error}',
+  'settings.exportDone': 'Export complete.',
+  'settings.exportAllDone': 'Export of all wallets complete.',
+  'settings.exportEncrypted': '{done} (encrypted).',
+  'settings.csvExportDone': 'CSV export complete.',
+  'settings.exportFailed': 'Export failed: {error}',
+  'settings.importFailed': 'Import failed: {error}',
+  'settings.importWallets': 'Import complete. {wallets}.',
+  'settings.importWallet': '{wallet}: added {added}, updated {updated}',
+  'settings.importRejected': ', rejected {n}',
+  'settings.importDone': 'Import complete. Added {added}, updated {updated} records.',
+  'settings.importDoneDeleted': 'Import complete. Added {added}, updated {updated}, deleted {deleted} records.',
+  'settings.csvImportDone': 'CSV import complete. Added {n} records.',
+  'settings.prefsSaved': 'Preferences saved.',
+
+  // Preferences
+  'prefs.reportCurrency': 'Report currency',
+  'prefs.entryCurrency': 'New cost currency',
+  'prefs.entryCategory': 'New cost category',
+  'prefs.walletCurrency': "Wallet's currency",
+  'prefs.startTab': 'Start tab',
+  'prefs.weekStart': 'Week starts on',
+  'prefs.sunday': 'Sunday',
+  'prefs.monday': 'Monday',
+  'prefs.saturday': 'Saturday',
+  'prefs.numbers': 'Numbers',
+  'prefs.dates': 'Dates',
+  'prefs.byLanguage': '(language)',
+  'prefs.save': 'Save preferences',
+  'prefs.saveFailed': 'Saving preferences failed: {error}',
+  'prefs.note': 'Shared by all wallets and included in JSON exports. The report currency applies when a wallet is opened; weekly totals and the formats apply to every view.',
+
+  // Audit log
+  'audit.op.add': 'Add',
+  'audit.op.update': 'Edit',
+  'audit.op.delete': 'Delete',
+  'audit.op.import': 'Import',
+  'audit.op.rates': 'Rates',
+  'audit.op.undo': 'Undo',
+  'audit.op.redo': 'Redo',
+  'audit.records_one': '{n} record',
+  'audit.records_other': '{n} records',
+  'audit.categories_one': '{n} category',
+  'audit.categories_other': '{n} categories',
+  'audit.budgets_one': '{n} budget',
+  'audit.budgets_other': '{n} budgets',
+  'audit.templates_one': '{n} recurring cost',
+  'audit.templates_other': '{n} recurring costs',
+  'audit.inlineRates': 'inline rates',
+  'audit.urlRates': 'rates from URL',
+  'audit.empty': 'No changes recorded yet.',
+  'audit.time': 'Time',
+  'audit.operation': 'Operation',
+  'audit.change': 'Change',
+  'audit.before': 'Before',
+  'audit.after': 'After',
+  'audit.details': 'Details',
+  'audit.loadMore': 'Load more',
+  'audit.add': 'Added {category} {amount}',
+  'audit.update': 'Edited {category} {amount}',
+  'audit.delete': 'Deleted {category} {amount}',
+  'audit.csv_one': 'Added {n} cost (CSV import)',
+  'audit.csv_other': 'Added {n} costs (CSV import)',
+  'audit.import': 'Imported ({strategy}): added {added}, updated {updated}',
+  'audit.importDeleted': 'Imported ({strategy}): added {added}, updated {updated}, deleted {deleted}',
+  'audit.rates': 'Changed inline rates',
+  'audit.recurring_one': 'Added {n} recurring cost',
+  'audit.recurring_other': 'Added {n} recurring costs',
+  'audit.renamed_one': 'Renamed category "{from}" to "{to}" ({n} cost)',
+  'audit.renamed_other': 'Renamed category "{from}" to "{to}" ({n} costs)',
+  'audit.merged_one': 'Merged {from} into "{to}" ({n} cost)',
+  'audit.merged_other': 'Merged {from} into "{to}" ({n} costs)',
+  'audit.legacy': '{summary}',
+  'audit.undo': 'Undid: {summary}',
+  'audit.redo': 'Redid: {summary}',
+
+  // Passphrase dialog
+  'passphrase.encryptTitle': 'Encrypt export',
+  'passphrase.decryptTitle': 'Encrypted backup',
+  'passphrase.encryptNote': 'The file can only be imported with this passphrase. It cannot be recovered if you forget it (at least {n} characters).',
+  'passphrase.decryptNote': '"{file}" is encrypted. Enter the passphrase it was exported with.',
+  'passphrase.decryptNoteNoName': 'This file is encrypted. Enter the passphrase it was exported with.',
+  'passphrase.passphrase': 'Passphrase',
+  'passphrase.repeat': 'Repeat passphrase',
+  'passphrase.differ': 'The passphrases differ.',
+  'passphrase.encrypting': 'Encrypting…',
+  'passphrase.decrypting': 'Decrypting…',
+  'passphrase.encrypt': 'Encrypt & download',
+  'passphrase.decrypt': 'Decrypt',
+
+  // JSON import
+  'import.title': 'Import',
+  'import.titleFile': 'Import: {file}',
+  'import.whenExists': 'When a record already exists',
+  'import.strategy.merge': 'Merge',
+  'import.strategy.skip': 'Skip existing',
+  'import.strategy.replace-all': 'Replace all data',
+  'import.mergeHint': 'Merge (update records exported from this wallet, skip duplicates)',
+  'import.toAdd': '{n} to add',
+  'import.toUpdate': '{n} to update',
+  'import.duplicates': '{n} duplicates skipped',
+  'import.rejected': '{n} rejected',
+  'import.snapshots': '{n} rate snapshots',
+  'import.appliesRates': 'applies rates',
+  'import.appliesPrefs': 'applies preferences',
+  'import.replaceWarning': 'All {n} existing records will be deleted first.',
+  'import.rejectedRows': 'Rejected rows',
+  'import.row': 'Row',
+  'import.errors': 'Errors',
+  'import.data': 'Data',
+  'import.showing': 'Showing {shown} of {n} rejected rows.',
+  'import.import': 'Import',
+
+  // CSV import
+  'csv.title': 'Import CSV',
+  'csv.titleFile': 'Import CSV: {file}',
+  'csv.column': 'Column {n}',
+  'csv.importedCategory': 'Imported',
+  'csv.columns': 'Columns',
+  'csv.notMapped': '(not mapped)',
+  'csv.format': 'Format',
+  'csv.hasHeader': 'First row is a header',
+  'csv.dateFormat': 'Date format',
+  'csv.decimalSeparator': 'Decimal separator',
+  'csv.dot': 'Dot (1,234.56)',
+  'csv.comma': 'Comma (1.234,56)',
+  'csv.defaultCurrency': 'Default currency',
+  'csv.defaultCategory': 'Default category',
+  'csv.expenses': 'Expenses are',
+  'csv.expensesPositive': 'Positive (refunds negative)',
+  'csv.expensesNegative': 'Negative (statement debits)',
+  'csv.ready': '{n} of {total} rows ready to import.',
+  'csv.readyInvalid': '{n} of {total} rows ready to import; {invalid} rows have errors and will be skipped.',
+  'csv.credits_one': '{n} refund or credit will be skipped.',
+  'csv.credits_other': '{n} refunds or credits will be skipped.',
+  'csv.line': 'Line',
+  'csv.showing': 'Showing the first {shown} of {n} rows.',
+  'csv.importRows_one': 'Import {n} row',
+  'csv.importRows_other': 'Import {n} rows',
+
+  // Search
+  'search.title': 'Search — {currency}',
+  'search.text': 'Description contains',
+  'search.categories': 'Categories',
+  'search.tags': 'Tags (all of)',
+  'search.currencies': 'Currencies',
+  'search.min': 'Min ({currency})',
+  'search.max': 'Max ({currency})',
+  'search.search': 'Search',
+  'search.clear': 'Clear',
+  'search.savedViews': 'Saved views',
+  'search.viewName': 'View name',
+  'search.saveView': 'Save view',
+  'search.deleteView': 'Delete this saved view',
+  'search.matches_one': '{n} match — total {total}',
+  'search.matches_other': '{n} matches — total {total}',
+  'search.showingFirst': '(showing the first {n})',
+  'search.amount': 'Amount',
+  'search.inCurrency': 'In {currency}',
+  'search.runningTotal': 'Running total',
+
+  // Budgets
+  'budgets.title': 'Budgets: {month} — {currency}',
+  'budgets.category': 'Category (empty = overall)',
+  'budgets.monthly': 'Monthly budget',
+  'budgets.set': 'Set budget',
+  'budgets.budget': 'Budget',
+  'budgets.left': 'Left',
+  'budgets.used': 'Used',
+  'budgets.overall': 'Overall',
+  'budgets.edit': 'Edit budget',
+  'budgets.remove': 'Remove budget',
+
+  // Recurring costs
+  'recurring.title': 'Recurring costs',
+  'recurring.every': 'Every',
+  'recurring.weekly': 'Week',
+  'recurring.monthly': 'Month',
+  'recurring.yearly': 'Year',
+  'recurring.start': 'Start',
+  'recurring.end': 'End (optional)',
+  'recurring.upcoming': 'Upcoming',
+  'recurring.active': 'Active',
+  'recurring.restore': 'Skipped — click to restore',
+  'recurring.skip': 'Click to skip this occurrence',
+  'recurring.ended': 'ended',
+  'recurring.delete': 'Delete template (generated costs stay)',
+
+  // Categories
+  'categories.renamed_one': 'Renamed; {n} cost record updated.',
+  'categories.renamed_other': 'Renamed; {n} cost records updated.',
+  'categories.merged_one': 'Merged; {n} cost record updated.',
+  'categories.merged_other': 'Merged; {n} cost records updated.',
+  'categories.selected': '{n} selected',
+  'categories.mergeInto': 'Merge into',
+  'categories.mergeSelected': 'Merge selected',
+  'categories.colour': 'Colour',
+  'categories.icon': 'Icon',
+  'categories.colourOf': 'Colour of {name}',
+  'categories.rename': 'Rename (rewrites existing costs)',
+  'categories.delete': 'Delete (only if unused)',
+  'categories.deleted': 'Category deleted.',
+
+  // All-wallets report
+  'allWallets.title': 'All wallets: {range} — {currency}',
+  'allWallets.costs': 'Costs',
+  'allWallets.byCategory': 'By category',
+  'allWallets.rows_one': '{n} cost',
+  'allWallets.rows_other': '{n} costs',
+  'allWallets.note': 'Switch to a wallet to edit its costs.',
+
+  // Printed report (HTML and PDF)
+  'print.title': 'Cost report',
+  'print.documentTitle': 'Cost report {from} – {to} ({currency})',
+  'print.period': 'Period: {range} ({from} – {to})',
+  'print.currency': 'Currency: {currency} · {rates}',
+  'print.historicalRates': 'historical rates (closest to each cost date)',
+  'print.todayRates': "today's rates",
+  'print.generated': 'Generated: {time}',
+  'print.total_one': 'Total: {amount} {currency} · 1 cost',
+  'print.total_other': 'Total: {amount} {currency} · {n} costs',
+  'print.byCategory': 'By category',
+  'print.categoryTotal': 'Total ({currency})',
+  'print.share': 'Share',
+  'print.costs': 'Costs',
+  'print.amount': 'Amount',
+  'print.converted': 'In {currency}',
+  'print.rates': 'Exchange rates used',
+  'print.noConversion': 'No conversion needed.',
+  'print.onlyCurrency': 'only {currency} amounts',
+  'print.ratesOf': 'Rates of {date}',
+  'print.sessionRates': 'Current session rates',
+
+  // Errors
+  'errors.bothDates': 'Enter both dates.',
+  'errors.fromAfterTo': '"From" must not be after "To".',
+  'errors.viewName': 'Name the view first.',
+  'rowError.missingSum': 'missing sum',
+  'rowError.invalidSum': 'invalid sum {value}',
+  'rowError.credit': 'refund or credit {value}: skipped',
+  'rowError.invalidCurrency': 'invalid currency {value}',
+  'rowError.missingCategory': 'missing category',
+  'rowError.missingDate': 'missing date',
+  'rowError.invalidDateFormat': 'invalid date {value} for {format}',
+  'rowError.notObject': 'not an object',
+  'rowError.invalidDate': 'invalid date {value}',
+  'rowError.invalidTags': 'invalid tags {value}',
+  'errors.noCosts': 'File has no "costs" array.',
+  'errors.needsPassphrase': 'This backup is encrypted: a passphrase is needed to import it.',
+  'errors.costNotFound': 'Cost #{id} not found.',
+  'errors.ratesObject': 'Rates must be a JSON object.',
+  'errors.invalidCode': 'Invalid currency code {code}',
+  'errors.invalidRate': 'Invalid rate for {code}',
+  'errors.noCurrencies': 'Rates JSON has no currencies.',
+  'errors.invalidJson': 'Invalid JSON: {error}',
+  'errors.noInline': 'Inline JSON not set.',
+  'errors.ratesNotLoaded': 'Rates are not loaded yet.',
+  'errors.missingRate': 'Missing rate for conversion.',
+  'errors.damagedField': 'Damaged encrypted backup: invalid {field}.',
+  'errors.shortPassphrase': 'The passphrase needs at least {n} characters.',
+  'errors.newerFormat': 'This backup was made by a newer version of the app (encryption format {version}).',
+  'errors.unknownFormat': 'Unknown encryption format {version}.',
+  'errors.damagedCipher': 'Damaged encrypted backup: unsupported key derivation or cipher.',
+  'errors.damagedIterations': 'Damaged encrypted backup: invalid iteration count.',
+  'errors.wrongPassphrase': 'Wrong passphrase, or the file was modified after it was exported.',
+  'errors.damagedJson': 'Damaged encrypted backup: the decrypted content is not JSON.',
+  'errors.walletName': 'Wallet name is required.',
+  'errors.walletExists': 'A wallet named "{name}" already exists.',
+  'errors.unknownCurrency': 'Unknown currency {code}.',
+  'errors.walletNotFound': 'Wallet not found.',
+  'errors.firstWallet': 'The first wallet cannot be deleted.',
+  'errors.walletOpen': 'The wallet is still open in another tab; close it there and try again.',
+  'errors.noWallets': 'File has no "wallets" array.',
+  'errors.syncUrl': 'The sync server URL must start with http:// or https://',
+  'errors.syncUnreachable': 'Sync server unreachable.',
+  'errors.syncServer': 'Sync server: {error}',
+  'errors.positiveSum': 'Sum must be a positive number.',
+  'errors.startDate': 'Start date is required.',
+  'errors.endBeforeStart': 'End date is before the start date.',
+  'errors.recurringNotFound': 'Recurring cost #{id} not found.',
+  'errors.positiveBudget': 'Budget must be a positive number.',
+  'errors.codeLetters': 'Currency code must be three letters (ISO 4217).',
+  'errors.decimals': 'Decimal places must be 0–4.',
+  'errors.positiveRate': 'Rate must be a positive number.',
+  'errors.categoryName': 'Category name is required.',
+  'errors.categoryNotFound': 'Category not found.',
+  'errors.categoryExists': '"{name}" already exists — use Merge instead.',
+  'errors.targetNotFound': 'Target category not found.',
+  'errors.categoryInUse': '"{name}" is used by costs, budgets or recurring costs — merge it into another category instead.',
+  'errors.received': 'received: {text}',
+  'errors.popupBlocked': 'The report window was blocked; allow pop-ups for this site and try again.',
+  'errors.chartsFailed': 'Could not render the charts.',
+  'errors.fontFailed': 'Could not load the PDF font.',
+};
+
+export type MessageKey = keyof typeof en;
+export default en;
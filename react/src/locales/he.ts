@@ -0,0 +1,513 @@
+/** Hebrew messages (right-to-left). */
+import type { MessageKey } from './en';
+
+const he: Record<MessageKey, string> = {
+  // Shared
+  'common.add': 'הוספה',
+  'common.save': 'שמירה',
+  'common.cancel': 'ביטול',
+  'common.delete': 'מחיקה',
+  'common.edit': 'עריכה',
+  'common.close': 'סגירה',
+  'common.total': 'סה״כ',
+  'common.date': 'תאריך',
+  'common.category': 'קטגוריה',
+  'common.description': 'תיאור',
+  'common.sum': 'סכום',
+  'common.currency': 'מטבע',
+  'common.tags': 'תגיות',
+  'common.name': 'שם',
+  'common.budget': 'תקציב {amount}',
+  'common.off': 'כבוי',
+
+  // App shell
+  'app.title': 'ניהול הוצאות',
+  'app.period': 'תקופה',
+  'app.from': 'מתאריך',
+  'app.to': 'עד תאריך',
+  'app.groupBy': 'קיבוץ לפי',
+  'app.day': 'יום',
+  'app.week': 'שבוע',
+  'app.month': 'חודש',
+  'app.historicalRates': 'שערים היסטוריים',
+  'app.historicalRatesHint': 'מופעל: כל הוצאה מומרת לפי השערים שנשמרו הכי קרוב לתאריך שלה. כבוי: לפי השערים של היום.',
+  'app.undo': 'ביטול פעולה',
+  'app.redo': 'ביצוע חוזר',
+  'app.nothingToUndo': 'אין מה לבטל.',
+  'app.nothingToRedo': 'אין מה לבצע מחדש.',
+  'app.undoFailed': 'הביטול נכשל: {error}',
+  'app.redoFailed': 'הביצוע החוזר נכשל: {error}',
+  'app.dbReady': 'מסד הנתונים מוכן.',
+  'app.dbError': 'שגיאת מסד נתונים: {error}',
+  'app.switchedTo': 'עברת לארנק "{name}".',
+  'app.recurringAdded_one': '{ready} נוספה הוצאה קבועה אחת.',
+  'app.recurringAdded_other': '{ready} נוספו {n} הוצאות קבועות.',
+  'app.costAdded': 'ההוצאה נוספה.',
+  'app.overallBudget': 'התקציב הכולל',
+  'app.categoryBudget': 'התקציב של "{category}"',
+  'app.budgetExceeded': 'ההוצאה נוספה. חריגה ב{name} ({pct}%).',
+  'app.budgetAt': 'ההוצאה נוספה. {name} נוצל ב-{pct}%.',
+  'app.ratesSaved': 'השערים נשמרו.',
+  'app.unconverted': 'אין שערים עבור {codes} ← {currency}: הוצאות אלה אינן נכללות בסכומים. הוסיפו את השער בהגדרות ← מטבעות, או טענו קובץ שערים שכולל אותו.',
+  'report.unconverted': 'לא הומר: אין שער',
+  'app.importComplete': 'הייבוא הושלם.',
+
+  // Tabs (views)
+  'tab.add': 'הוספת הוצאה',
+  'tab.report': 'דוח',
+  'tab.search': 'חיפוש',
+  'tab.pie': 'עוגה לפי קטגוריה',
+  'tab.bar': 'עמודות לפי תקופה',
+  'tab.compare': 'השוואה',
+  'tab.forecast': 'תחזית',
+  'tab.budgets': 'תקציבים',
+  'tab.recurring': 'הוצאות קבועות',
+  'tab.categories': 'קטגוריות',
+  'tab.settings': 'הגדרות',
+
+  // Range presets
+  'preset.this-month': 'החודש',
+  'preset.last-month': 'החודש הקודם',
+  'preset.this-quarter': 'הרבעון',
+  'preset.last-30-days': '30 הימים האחרונים',
+  'preset.this-year': 'השנה',
+  'preset.fiscal-year': 'שנת כספים (מאפריל)',
+  'preset.custom': 'מותאם אישית',
+
+  // Wallets
+  'wallet.label': 'ארנק',
+  'wallet.defaultName': 'אישי',
+  'wallet.importedName': 'מיובא {n}',
+  'wallet.all': 'כל הארנקים (דוח)',
+  'wallet.manage': 'ניהול ארנקים',
+  'wallet.title': 'ארנקים',
+  'wallet.intro': 'לכל ארנק הוצאות, תקציבים, הוצאות קבועות וקטגוריות משלו. המטבע הוא ברירת המחדל של הארנק להוצאות חדשות ולדוחות.',
+  'wallet.firstCannotDelete': 'אי אפשר למחוק את הארנק הראשון',
+  'wallet.delete': 'מחיקת ארנק',
+  'wallet.new': 'ארנק חדש',
+  'wallet.deleteTitle': 'למחוק את הארנק "{name}"?',
+  'wallet.deleteText': 'כל ההוצאות, התקציבים, ההוצאות הקבועות והקטגוריות שלו יימחקו לצמיתות. כדאי לייצא אותו קודם אם ייתכן שתצטרכו אותו.',
+
+  // Offline chip
+  'offline.savedRates': 'לא מחובר — בשימוש שערים מ-{date}',
+  'offline.sessionRates': 'לא מחובר — בשימוש השערים שנטענו בהפעלה הזו',
+  'offline.noRates': 'לא מחובר — אין שערים שמורים',
+  'offline.hint': 'ההוצאות נשמרות במכשיר כרגיל. שערים עדכניים ייטענו כשהחיבור יחזור.',
+  'offline.hintNoRates': 'ההוצאות נשמרות במכשיר כרגיל, אבל אי אפשר להמיר סכומים עד שהשערים ייטענו פעם אחת.',
+
+  // Report
+  'report.title': 'דוח: {range} — {currency}',
+  'report.historical': '(שערים היסטוריים)',
+  'report.today': '(שערי היום)',
+  'report.exportCsv': 'ייצוא CSV',
+  'report.print': 'הדפסה',
+  'report.buildingPdf': 'בונה PDF…',
+  'report.downloadPdf': 'הורדת PDF',
+  'report.showJson': 'הצגת JSON',
+  'report.hideJson': 'הסתרת JSON',
+  'report.actions': 'פעולות',
+  'report.editTitle': 'עריכת הוצאה',
+  'report.deleteTitle': 'למחוק את ההוצאה?',
+  'report.deleteText': 'הרשומה תימחק לצמיתות.',
+
+  // Charts
+  'pie.title': 'עוגה לפי קטגוריה: {range} — {currency}',
+  'bar.title.day': 'עמודות לפי יום: {range} — {currency}',
+  'bar.title.week': 'עמודות לפי שבוע: {range} — {currency}',
+  'bar.title.month': 'עמודות לפי חודש: {range} — {currency}',
+  'bar.tip.day': 'יום {key}',
+  'bar.tip.week': 'שבוע מ-{key}',
+  'bar.tip.month': '{key}',
+  'bar.rolling': 'ממוצע נע',
+  'bar.months': '{n} חודשים',
+  'bar.average': 'ממוצע {n} חודשים',
+  'tags.title': 'לפי תגית: {range} — {currency}',
+  'tags.only': 'רק התגיות',
+  'tags.none': 'אין הוצאות מתויגות בתקופה הזו.',
+  'tags.note': 'הוצאה עם כמה תגיות נספרת תחת כל אחת מהן.',
+  'compare.years': 'שנה מול שנה — {currency}',
+  'compare.yearsField': 'שנים',
+  'compare.months': 'חודש מול חודש — {currency}',
+  'compare.fromMonth': 'מחודש',
+  'compare.toMonth': 'לחודש',
+  'compare.change': 'שינוי',
+  'compare.changePct': 'שינוי %',
+  'compare.new': 'חדש',
+  'compare.biggestIncrease': 'העלייה הגדולה',
+  'compare.biggestDecrease': 'הירידה הגדולה',
+  'compare.none': 'אין הוצאות באף אחד מהחודשים.',
+  'forecast.title': 'תחזית: {month} — {currency}',
+  'forecast.summary': 'הוצא {spent} · צפוי {projected} ({low}–{high})',
+  'forecast.range': 'טווח סביר',
+  'forecast.spent': 'הוצא',
+  'forecast.projected': 'צפוי',
+  'forecast.due': 'עוד צפוי לחייב',
+  'forecast.byCategory': 'סוף החודש לפי קטגוריה',
+  'forecast.note': 'מה שהוצא עד כה, הוצאות קבועות ואחרות שעוד צפויות החודש, והוצאה יומיומית בקצב שמשלב את החודש הזה עם {history} (עד {max}).',
+  'forecast.history_one': 'החודש האחרון שהיו בו הוצאות',
+  'forecast.history_other': '{n} החודשים האחרונים שהיו בהם הוצאות',
+  'forecast.noHistory': 'אין עדיין היסטוריה',
+  'forecast.none': 'עדיין אין מה לחזות.',
+
+  // Settings
+  'settings.title': 'הגדרות',
+  'settings.ratesSource': 'מקור השערים',
+  'settings.sourceUrl': 'טעינה מכתובת (ברירת מחדל)',
+  'settings.sourceInline': 'JSON ידני',
+  'settings.ratesUrl': 'כתובת JSON של השערים',
+  'settings.saveUrl': 'שמירת הכתובת וטעינה',
+  'settings.refreshRates': 'רענון שערים',
+  'settings.inlineRates': 'שערים ב-JSON',
+  'settings.saveInline': 'שמירת ה-JSON',
+  'settings.loadFile': 'טעינה מקובץ…',
+  'settings.syncUrl': 'כתובת שרת סנכרון (אופציונלי)',
+  'settings.saveSync': 'שמירת השרת וסנכרון',
+  'settings.syncNow': 'סנכרון עכשיו',
+  'settings.syncOff': 'הסנכרון כבוי: ההוצאות נשארות בדפדפן הזה. השאירו את הכתובת ריקה כדי שכך יישאר.',
+  'settings.syncing': 'מסנכרן…',
+  'settings.syncFailed': 'הסנכרון נכשל: {error}',
+  'settings.lastSynced': 'סונכרן לאחרונה {time}: נשלחו {pushed} שינויים, התקבלו {pulled}.',
+  'settings.syncIdle': 'ההוצאות של כל ארנק מסונכרנות עם ספר החשבונות בשרת שנושא את אותו השם, זמן קצר אחרי כל שינוי וכל כמה דקות.',
+  'settings.language': 'שפה',
+  'settings.appearance': 'מראה',
+  'settings.themeMode': 'ערכת נושא',
+  'settings.accent': 'צבע הדגשה',
+  'settings.appearanceNote': 'נשמר בדפדפן זה. "מערכת" עוקבת אחר הגדרת הבהיר או הכהה של המכשיר.',
+  'theme.light': 'בהיר',
+  'theme.dark': 'כהה',
+  'theme.system': 'מערכת',
+  'accent.blue': 'כחול',
+  'accent.purple': 'סגול',
+  'accent.teal': 'טורקיז',
+  'accent.green': 'ירוק',
+  'accent.orange': 'כתום',
+  'accent.pink': 'ורוד',
+  'settings.preferences': 'העדפות',
+  'settings.currencies': 'מטבעות',
+  'settings.currencyCode': 'קוד',
+  'settings.currencySymbol': 'סמל',
+  'settings.currencyDecimals': 'ספרות אחרי הנקודה',
+  'settings.currencyRate': 'שער ל-1 דולר (אופציונלי)',
+  'settings.addCurrency': 'הוספת מטבע',
+  'settings.currenciesNote': 'המטבעות מגיעים ממקור השערים; כאן אפשר להוסיף מטבעות משלכם. השער האופציונלי משמש רק כשמקור השערים לא כולל את המטבע.',
+  'settings.backup': 'גיבוי ושחזור',
+  'settings.exportWallet': 'ייצוא הארנק הזה (JSON)',
+  'settings.exportAll': 'ייצוא כל הארנקים (JSON)',
+  'settings.importJson': 'ייבוא נתונים (JSON)',
+  'settings.encrypt': 'הצפנת ייצוא JSON בסיסמה',
+  'settings.exportCsv': 'ייצוא נתונים (CSV)',
+  'settings.importCsv': 'ייבוא CSV…',
+  'settings.backupNote': 'ייצוא וייבוא של ארנק (JSON ו-CSV) חלים על הארנק שנבחר בסרגל העליון. קובץ של כל הארנקים ממוזג לארנקים בעלי אותם שמות, שנוצרים אם הם חסרים.',
+  'settings.encryptNote': 'קובצי JSON מוצפנים (AES-GCM, מפתח שנגזר מהסיסמה) מבקשים את הסיסמה שלהם בייבוא; אי אפשר לשחזר סיסמה שאבדה.',
+  'settings.history': 'היסטוריה',
+  'settings.historyNote': 'הוצאות שנוספו, נערכו ונמחקו, ייבואים ושינויים בשערים הידניים של הארנק שנבחר בסרגל העליון. ביטול פעולה מחזיר את {n} השינויים האחרונים, אחד בכל פעם.',
+  'settings.defaultUrl': 'כתובת ברירת המחדל:',
+  'settings.ratesPolicy': 'בכל הפעלה השערים נטענים מכתובת ברירת המחדל. אפשר להגדיר כתובת אחרת, או להזין שערים ידנית ב-JSON.',
+  'settings.currencySaved': 'המטבע נשמר.',
+  'settings.invalidCurrency': 'מטבע לא תקין: {error}',
+  'settings.urlSaved': 'הכתובת נשמרה והשערים נטענו.',
+  'settings.fetchFailed': 'הטעינה נכשלה: {error}',
+  'settings.refreshed': 'השערים רועננו.',
+  'settings.refreshFailed': 'הרענון נכשל: {error}',
+  'settings.syncTurnedOff': 'הסנכרון כובה.',
+  'settings.syncSaved': 'שרת הסנכרון נשמר.',
+  'settings.invalidSync': 'שרת סנכרון לא תקין: {error}',
+  'settings.inlineSaved': 'ה-JSON נשמר.',
+  'settings.invalidJson': 'JSON לא תקין: {error}',
+  'settings.fileLoaded': 'ה-JSON נטען מהקובץ. לחצו על "שמירת ה-JSON" כדי להחיל אותו.',
+  'settings.readFailed': 'קריאת הקובץ נכשלה: {error}',
+  'settings.exportDone': 'הייצוא הושלם.',
+  'settings.exportAllDone': 'הייצוא של כל הארנקים הושלם.',
+  'settings.exportEncrypted': '{done} (מוצפן).',
+  'settings.csvExportDone': 'ייצוא ה-CSV הושלם.',
+  'settings.exportFailed': 'הייצוא נכשל: {error}',
+  'settings.importFailed': 'הייבוא נכשל: {error}',
+  'settings.importWallets': 'הייבוא הושלם. {wallets}.',
+  'settings.importWallet': '{wallet}: נוספו {added}, עודכנו {updated}',
+  'settings.importRejected': ', נדחו {n}',
+  'settings.importDone': 'הייבוא הושלם. נוספו {added} רשומות, עודכנו {updated}.',
+  'settings.importDoneDeleted': 'הייבוא הושלם. נוספו {added} רשומות, עודכנו {updated}, נמחקו {deleted}.',
+  'settings.csvImportDone': 'ייבוא ה-CSV הושלם. נוספו {n} רשומות.',
+  'settings.prefsSaved': 'ההעדפות נשמרו.',
+
+  // Preferences
+  'prefs.reportCurrency': 'מטבע הדוחות',
+  'prefs.entryCurrency': 'מטבע להוצאה חדשה',
+  'prefs.entryCategory': 'קטגוריה להוצאה חדשה',
+  'prefs.walletCurrency': 'המטבע של הארנק',
+  'prefs.startTab': 'לשונית פתיחה',
+  'prefs.weekStart': 'השבוע מתחיל ביום',
+  'prefs.sunday': 'ראשון',
+  'prefs.monday': 'שני',
+  'prefs.saturday': 'שבת',
+  'prefs.numbers': 'מספרים',
+  'prefs.dates': 'תאריכים',
+  'prefs.byLanguage': '(לפי השפה)',
+  'prefs.save': 'שמירת ההעדפות',
+  'prefs.saveFailed': 'שמירת ההעדפות נכשלה: {error}',
+  'prefs.note': 'משותפות לכל הארנקים ונכללות בייצוא JSON. מטבע הדוחות חל בפתיחת ארנק; הסיכומים השבועיים והתבניות חלים על כל התצוגות.',
+
+  // Audit log
+  'audit.op.add': 'הוספה',
+  'audit.op.update': 'עריכה',
+  'audit.op.delete': 'מחיקה',
+  'audit.op.import': 'ייבוא',
+  'audit.op.rates': 'שערים',
+  'audit.op.undo': 'ביטול',
+  'audit.op.redo': 'ביצוע מחדש',
+  'audit.records_one': 'רשומה אחת',
+  'audit.records_other': '{n} רשומות',
+  'audit.categories_one': 'קטגוריה אחת',
+  'audit.categories_other': '{n} קטגוריות',
+  'audit.budgets_one': 'תקציב אחד',
+  'audit.budgets_other': '{n} תקציבים',
+  'audit.templates_one': 'הוצאה קבועה אחת',
+  'audit.templates_other': '{n} הוצאות קבועות',
+  'audit.inlineRates': 'שערים ידניים',
+  'audit.urlRates': 'שערים מכתובת',
+  'audit.empty': 'עדיין לא נרשמו שינויים.',
+  'audit.time': 'זמן',
+  'audit.operation': 'פעולה',
+  'audit.change': 'שינוי',
+  'audit.before': 'לפני',
+  'audit.after': 'אחרי',
+  'audit.details': 'פרטים',
+  'audit.loadMore': 'טעינת עוד',
+  'audit.add': 'נוספה עלות {category} {amount}',
+  'audit.update': 'נערכה עלות {category} {amount}',
+  'audit.delete': 'נמחקה עלות {category} {amount}',
+  'audit.csv_one': 'נוספה עלות אחת (ייבוא CSV)',
+  'audit.csv_other': 'נוספו {n} עלויות (ייבוא CSV)',
+  'audit.import': 'ייבוא ({strategy}): נוספו {added}, עודכנו {updated}',
+  'audit.importDeleted': 'ייבוא ({strategy}): נוספו {added}, עודכנו {updated}, נמחקו {deleted}',
+  'audit.rates': 'שונו השערים הידניים',
+  'audit.recurring_one': 'נוספה עלות קבועה אחת',
+  'audit.recurring_other': 'נוספו {n} עלויות קבועות',
+  'audit.renamed_one': 'הקטגוריה "{from}" שונתה ל-"{to}" (עלות אחת)',
+  'audit.renamed_other': 'הקטגוריה "{from}" שונתה ל-"{to}" ({n} עלויות)',
+  'audit.merged_one': '{from} מוזגו לתוך "{to}" (עלות אחת)',
+  'audit.merged_other': '{from} מוזגו לתוך "{to}" ({n} עלויות)',
+  'audit.legacy': '{summary}',
+  'audit.undo': 'בוטל: {summary}',
+  'audit.redo': 'בוצע מחדש: {summary}',
+
+  // Passphrase dialog
+  'passphrase.encryptTitle': 'הצפנת הייצוא',
+  'passphrase.decryptTitle': 'גיבוי מוצפן',
+  'passphrase.encryptNote': 'ניתן לייבא את הקובץ רק עם סיסמה זו. אי אפשר לשחזר אותה אם תישכח (לפחות {n} תווים).',
+  'passphrase.decryptNote': '"{file}" מוצפן. יש להזין את הסיסמה שאיתה יוצא.',
+  'passphrase.decryptNoteNoName': 'הקובץ מוצפן. יש להזין את הסיסמה שאיתה יוצא.',
+  'passphrase.passphrase': 'סיסמה',
+  'passphrase.repeat': 'חזרה על הסיסמה',
+  'passphrase.differ': 'הסיסמאות אינן זהות.',
+  'passphrase.encrypting': 'מצפין…',
+  'passphrase.decrypting': 'מפענח…',
+  'passphrase.encrypt': 'הצפנה והורדה',
+  'passphrase.decrypt': 'פענוח',
+
+  // JSON import
+  'import.title': 'ייבוא',
+  'import.titleFile': 'ייבוא: {file}',
+  'import.whenExists': 'כשרשומה כבר קיימת',
+  'import.strategy.merge': 'מיזוג',
+  'import.strategy.skip': 'דילוג על קיימות',
+  'import.strategy.replace-all': 'החלפת כל הנתונים',
+  'import.mergeHint': 'מיזוג (עדכון רשומות שיוצאו מארנק זה, דילוג על כפילויות)',
+  'import.toAdd': '{n} להוספה',
+  'import.toUpdate': '{n} לעדכון',
+  'import.duplicates': '{n} כפילויות ידולגו',
+  'import.rejected': '{n} נדחו',
+  'import.snapshots': '{n} תמונות שערים',
+  'import.appliesRates': 'מחיל שערים',
+  'import.appliesPrefs': 'מחיל העדפות',
+  'import.replaceWarning': 'כל {n} הרשומות הקיימות יימחקו קודם.',
+  'import.rejectedRows': 'שורות שנדחו',
+  'import.row': 'שורה',
+  'import.errors': 'שגיאות',
+  'import.data': 'נתונים',
+  'import.showing': 'מוצגות {shown} מתוך {n} שורות שנדחו.',
+  'import.import': 'ייבוא',
+
+  // CSV import
+  'csv.title': 'ייבוא CSV',
+  'csv.titleFile': 'ייבוא CSV: {file}',
+  'csv.column': 'עמודה {n}',
+  'csv.importedCategory': 'מיובא',
+  'csv.columns': 'עמודות',
+  'csv.notMapped': '(לא ממופה)',
+  'csv.format': 'תבנית',
+  'csv.hasHeader': 'השורה הראשונה היא כותרת',
+  'csv.dateFormat': 'תבנית תאריך',
+  'csv.decimalSeparator': 'מפריד עשרוני',
+  'csv.dot': 'נקודה (1,234.56)',
+  'csv.comma': 'פסיק (1.234,56)',
+  'csv.defaultCurrency': 'מטבע ברירת מחדל',
+  'csv.defaultCategory': 'קטגוריית ברירת מחדל',
+  'csv.expenses': 'הוצאות הן',
+  'csv.expensesPositive': 'חיוביות (החזרים שליליים)',
+  'csv.expensesNegative': 'שליליות (חיובים בדף חשבון)',
+  'csv.ready': '{n} מתוך {total} שורות מוכנות לייבוא.',
+  'csv.readyInvalid': '{n} מתוך {total} שורות מוכנות לייבוא; ב-{invalid} שורות יש שגיאות והן ידולגו.',
+  'csv.credits_one': 'החזר או זיכוי אחד ידולג.',
+  'csv.credits_other': '{n} החזרים או זיכויים ידולגו.',
+  'csv.line': 'שורה',
+  'csv.showing': 'מוצגות {shown} השורות הראשונות מתוך {n}.',
+  'csv.importRows_one': 'ייבוא שורה אחת',
+  'csv.importRows_other': 'ייבוא {n} שורות',
+
+  // Search
+  'search.title': 'חיפוש — {currency}',
+  'search.text': 'התיאור מכיל',
+  'search.categories': 'קטגוריות',
+  'search.tags': 'תגיות (כולן)',
+  'search.currencies': 'מטבעות',
+  'search.min': 'מינימום ({currency})',
+  'search.max': 'מקסימום ({currency})',
+  'search.search': 'חיפוש',
+  'search.clear': 'ניקוי',
+  'search.savedViews': 'תצוגות שמורות',
+  'search.viewName': 'שם התצוגה',
+  'search.saveView': 'שמירת תצוגה',
+  'search.deleteView': 'מחיקת התצוגה השמורה',
+  'search.matches_one': 'תוצאה אחת — סה״כ {total}',
+  'search.matches_other': '{n} תוצאות — סה״כ {total}',
+  'search.showingFirst': '(מוצגות {n} הראשונות)',
+  'search.amount': 'סכום',
+  'search.inCurrency': 'ב-{currency}',
+  'search.runningTotal': 'סכום מצטבר',
+
+  // Budgets
+  'budgets.title': 'תקציבים: {month} — {currency}',
+  'budgets.category': 'קטגוריה (ריק = כללי)',
+  'budgets.monthly': 'תקציב חודשי',
+  'budgets.set': 'קביעת תקציב',
+  'budgets.budget': 'תקציב',
+  'budgets.left': 'נותר',
+  'budgets.used': 'נוצל',
+  'budgets.overall': 'כללי',
+  'budgets.edit': 'עריכת התקציב',
+  'budgets.remove': 'הסרת התקציב',
+
+  // Recurring costs
+  'recurring.title': 'עלויות קבועות',
+  'recurring.every': 'כל',
+  'recurring.weekly': 'שבוע',
+  'recurring.monthly': 'חודש',
+  'recurring.yearly': 'שנה',
+  'recurring.start': 'התחלה',
+  'recurring.end': 'סיום (לא חובה)',
+  'recurring.upcoming': 'הבאים',
+  'recurring.active': 'פעיל',
+  'recurring.restore': 'דולג — לחיצה לשחזור',
+  'recurring.skip': 'לחיצה לדילוג על מועד זה',
+  'recurring.ended': 'הסתיים',
+  'recurring.delete': 'מחיקת התבנית (העלויות שנוצרו נשארות)',
+
+  // Categories
+  'categories.renamed_one': 'השם שונה; עודכנה רשומת עלות אחת.',
+  'categories.renamed_other': 'השם שונה; עודכנו {n} רשומות עלות.',
+  'categories.merged_one': 'מוזג; עודכנה רשומת עלות אחת.',
+  'categories.merged_other': 'מוזג; עודכנו {n} רשומות עלות.',
+  'categories.selected': '{n} נבחרו',
+  'categories.mergeInto': 'מיזוג לתוך',
+  'categories.mergeSelected': 'מיזוג הנבחרות',
+  'categories.colour': 'צבע',
+  'categories.icon': 'סמל',
+  'categories.colourOf': 'הצבע של {name}',
+  'categories.rename': 'שינוי שם (משכתב עלויות קיימות)',
+  'categories.delete': 'מחיקה (רק אם אינה בשימוש)',
+  'categories.deleted': 'הקטגוריה נמחקה.',
+
+  // All-wallets report
+  'allWallets.title': 'כל הארנקים: {range} — {currency}',
+  'allWallets.costs': 'עלויות',
+  'allWallets.byCategory': 'לפי קטגוריה',
+  'allWallets.rows_one': 'עלות אחת',
+  'allWallets.rows_other': '{n} עלויות',
+  'allWallets.note': 'כדי לערוך עלויות יש לעבור לארנק שלהן.',
+
+  // Printed report (HTML and PDF)
+  'print.title': 'דוח הוצאות',
+  'print.documentTitle': 'דוח הוצאות {from} – {to} ({currency})',
+  'print.period': 'תקופה: {range} ({from} – {to})',
+  'print.currency': 'מטבע: {currency} · {rates}',
+  'print.historicalRates': 'שערים היסטוריים (הקרובים לתאריך כל הוצאה)',
+  'print.todayRates': 'שערי היום',
+  'print.generated': 'הופק: {time}',
+  'print.total_one': 'סה״כ: {amount} {currency} · הוצאה אחת',
+  'print.total_other': 'סה״כ: {amount} {currency} · {n} הוצאות',
+  'print.byCategory': 'לפי קטגוריה',
+  'print.categoryTotal': 'סה״כ ({currency})',
+  'print.share': 'חלק',
+  'print.costs': 'הוצאות',
+  'print.amount': 'סכום',
+  'print.converted': 'ב-{currency}',
+  'print.rates': 'שערי חליפין שנעשה בהם שימוש',
+  'print.noConversion': 'לא נדרשה המרה.',
+  'print.onlyCurrency': 'רק סכומים ב-{currency}',
+  'print.ratesOf': 'שערים מ-{date}',
+  'print.sessionRates': 'שערי ההפעלה הנוכחית',
+
+  // Errors
+  'errors.bothDates': 'יש להזין את שני התאריכים.',
+  'errors.fromAfterTo': '"מתאריך" לא יכול להיות אחרי "עד תאריך".',
+  'errors.viewName': 'יש לתת שם לתצוגה קודם.',
+  'rowError.missingSum': 'חסר סכום',
+  'rowError.invalidSum': 'סכום לא תקין {value}',
+  'rowError.credit': 'החזר או זיכוי {value}: ידולג',
+  'rowError.invalidCurrency': 'מטבע לא תקין {value}',
+  'rowError.missingCategory': 'חסרה קטגוריה',
+  'rowError.missingDate': 'חסר תאריך',
+  'rowError.invalidDateFormat': 'תאריך לא תקין {value} לתבנית {format}',
+  'rowError.notObject': 'אינו אובייקט',
+  'rowError.invalidDate': 'תאריך לא תקין {value}',
+  'rowError.invalidTags': 'תגיות לא תקינות {value}',
+  'errors.noCosts': 'בקובץ אין מערך "costs".',
+  'errors.needsPassphrase': 'הגיבוי מוצפן: כדי לייבא אותו נדרשת סיסמה.',
+  'errors.costNotFound': 'עלות מס׳ {id} לא נמצאה.',
+  'errors.ratesObject': 'השערים חייבים להיות אובייקט JSON.',
+  'errors.invalidCode': 'קוד מטבע לא תקין {code}',
+  'errors.invalidRate': 'שער לא תקין עבור {code}',
+  'errors.noCurrencies': 'ב-JSON של השערים אין מטבעות.',
+  'errors.invalidJson': 'JSON לא תקין: {error}',
+  'errors.noInline': 'לא הוגדר JSON ידני.',
+  'errors.ratesNotLoaded': 'השערים עדיין לא נטענו.',
+  'errors.missingRate': 'חסר שער להמרה.',
+  'errors.damagedField': 'הגיבוי המוצפן פגום: {field} לא תקין.',
+  'errors.shortPassphrase': 'הסיסמה צריכה לפחות {n} תווים.',
+  'errors.newerFormat': 'הגיבוי נוצר בגרסה חדשה יותר של האפליקציה (תבנית הצפנה {version}).',
+  'errors.unknownFormat': 'תבנית הצפנה לא מוכרת {version}.',
+  'errors.damagedCipher': 'הגיבוי המוצפן פגום: גזירת מפתח או צופן שאינם נתמכים.',
+  'errors.damagedIterations': 'הגיבוי המוצפן פגום: מספר איטרציות לא תקין.',
+  'errors.wrongPassphrase': 'סיסמה שגויה, או שהקובץ שונה לאחר הייצוא.',
+  'errors.damagedJson': 'הגיבוי המוצפן פגום: התוכן המפוענח אינו JSON.',
+  'errors.walletName': 'נדרש שם לארנק.',
+  'errors.walletExists': 'כבר קיים ארנק בשם "{name}".',
+  'errors.unknownCurrency': 'מטבע לא מוכר {code}.',
+  'errors.walletNotFound': 'הארנק לא נמצא.',
+  'errors.firstWallet': 'אי אפשר למחוק את הארנק הראשון.',
+  'errors.walletOpen': 'הארנק עדיין פתוח בלשונית אחרת; יש לסגור אותו שם ולנסות שוב.',
+  'errors.noWallets': 'בקובץ אין מערך "wallets".',
+  'errors.syncUrl': 'כתובת שרת הסנכרון חייבת להתחיל ב-http://‏ או https://',
+  'errors.syncUnreachable': 'שרת הסנכרון אינו זמין.',
+  'errors.syncServer': 'שרת הסנכרון: {error}',
+  'errors.positiveSum': 'הסכום חייב להיות מספר חיובי.',
+  'errors.startDate': 'נדרש תאריך התחלה.',
+  'errors.endBeforeStart': 'תאריך הסיום לפני תאריך ההתחלה.',
+  'errors.recurringNotFound': 'עלות קבועה מס׳ {id} לא נמצאה.',
+  'errors.positiveBudget': 'התקציב חייב להיות מספר חיובי.',
+  'errors.codeLetters': 'קוד המטבע חייב להיות שלוש אותיות (ISO 4217).',
+  'errors.decimals': 'מספר הספרות אחרי הנקודה חייב להיות 0–4.',
+  'errors.positiveRate': 'השער חייב להיות מספר חיובי.',
+  'errors.categoryName': 'נדרש שם לקטגוריה.',
+  'errors.categoryNotFound': 'הקטגוריה לא נמצאה.',
+  'errors.categoryExists': '"{name}" כבר קיימת — יש להשתמש במיזוג.',
+  'errors.targetNotFound': 'קטגוריית היעד לא נמצאה.',
+  'errors.categoryInUse': '"{name}" בשימוש בעלויות, בתקציבים או בהוצאות קבועות — יש למזג אותה לקטגוריה אחרת.',
+  'errors.received': 'התקבל: {text}',
+  'errors.popupBlocked': 'חלון הדוח נחסם; יש לאפשר חלונות קופצים לאתר זה ולנסות שוב.',
+  'errors.chartsFailed': 'לא ניתן היה לצייר את התרשימים.',
+  'errors.fontFailed': 'לא ניתן היה לטעון את הגופן של ה-PDF.',
+};
+
+export default he;
@@ -1,27 +1,75 @@
-/** App bootstrap: mounts React root, wraps ThemeProvider, initializes currency rates. */
-import React from 'react';
+/** App bootstrap: mounts React root, wraps ThemeProvider (direction of the UI language, light/dark mode, accent), initializes currency rates, preferences and the active wallet, registers the service worker, starts sync. */
+import React, { useEffect, useState } from 'react';
 import ReactDOM from 'react-dom/client';
 // MUI theme and baseline
-import { CssBaseline, ThemeProvider } from '@mui/material';
+import { CssBaseline, ThemeProvider, useMediaQuery } from '@mui/material';
+import { CacheProvider } from '@emotion/react';
 import App from './App';
-import theme from './theme'; // single source of truth
+import { themeFor, cacheFor, BACKGROUND } from './theme'; // single source of truth
 import { initCurrencyRates } from './services/currency';
+import { restoreActiveWallet } from './services/wallets';
+import { registerServiceWorker } from './services/pwa';
+import { startAutoSync } from './services/sync';
+import { loadPreferences } from './services/preferences';
+import { applyDocumentLanguage, getDirection } from './services/i18n';
+import { getThemeMode, getAccent, accentColor } from './services/appearance';
 
 // Get root element and create React root
 const rootEl = document.getElementById('root')!;
 const root = ReactDOM.createRoot(rootEl);
 
+// Language and direction on <html> before the first paint
+applyDocumentLanguage();
+
+// Point the data services at the wallet used last, before anything reads
+restoreActiveWallet();
+
 // Initialize currency rates on startup (fetch from URL unless inline JSON mode is selected)
 initCurrencyRates().catch(() => {
   // don't block rendering on network errors; Settings screen will let you fix it
 });
 
-// Render main app with theme and baseline
-root.render(
+// Offline support: the service worker only exists in production builds
+if (import.meta.env.PROD) registerServiceWorker();
+
+// Optional sync with a self-hosted server (no-op until a server URL is set in Settings)
+startAutoSync();
+
+// Theme and style cache of the UI direction, mode and accent; a language or appearance change re-renders the whole tree
+function Root() {
+  const [, setSettingsSeen] = useState(0);
+  useEffect(() => {
+    const onChange = () => setSettingsSeen((n) => n + 1);
+    window.addEventListener('language:changed', onChange);
+    window.addEventListener('appearance:changed', onChange);
+    return () => {
+      window.removeEventListener('language:changed', onChange);
+      window.removeEventListener('appearance:changed', onChange);
+    };
+  }, []);
+  // Read synchronously (noSsr), so the first render already has the system's mode
+  const prefersDark = useMediaQuery('(prefers-color-scheme: dark)', { noSsr: true });
+  const chosen = getThemeMode();
+  const mode = chosen === 'system' ? (prefersDark ? 'dark' : 'light') : chosen;
+  // Keep <html> in step with what index.html painted (overscroll areas, native scrollbars and form controls)
+  useEffect(() => {
+    document.documentElement.style.colorScheme = mode;
+    document.documentElement.style.background = BACKGROUND[mode];
+  }, [mode]);
+  const direction = getDirection();
+  return (
+    <CacheProvider value={cacheFor(direction)}>
+      <ThemeProvider theme={themeFor(direction, mode, accentColor(getAccent()))}>
+        <CssBaseline />
+        <App />
+      </ThemeProvider>
+    </CacheProvider>
+  );
+}
+
+// Render main app with theme and baseline, once the preferences are in (start tab, formats); defaults if they can't be read
+loadPreferences().catch(() => {}).finally(() => root.render(
   <React.StrictMode>
-    <ThemeProvider theme={theme}>
-      <CssBaseline />
-      <App />
-    </ThemeProvider>
+    <Root />
   </React.StrictMode>
-);
+));
@@ -0,0 +1,57 @@
+/**
+ * Appearance: light/dark/system mode and the accent colour. Kept in LocalStorage so the first paint (index.html) and
+ * the first render (main.tsx) already use them; 'system' follows the device's prefers-color-scheme.
+ */
+export type ThemeMode = 'light' | 'dark' | 'system';
+
+export const THEME_MODES: ThemeMode[] = ['light', 'system', 'dark'];
+
+/** Accent colours offered in Settings (primary colour of the theme); the first is the default */
+export const ACCENTS = [
+  { value: 'blue', color: '#1976d2' },
+  { value: 'purple', color: '#7b1fa2' },
+  { value: 'teal', color: '#00796b' },
+  { value: 'green', color: '#2e7d32' },
+  { value: 'orange', color: '#e65100' },
+  { value: 'pink', color: '#c2185b' },
+] as const;
+
+export type Accent = typeof ACCENTS[number]['value'];
+
+// LocalStorage keys (also read by the inline script in index.html)
+const LS_MODE_KEY = 'themeMode';
+const LS_ACCENT_KEY = 'accent';
+
+/** The chosen mode ('system' unless set) */
+export function getThemeMode(): ThemeMode {
+  const stored = localStorage.getItem(LS_MODE_KEY);
+  return THEME_MODES.includes(stored as ThemeMode) ? stored as ThemeMode : 'system';
+}
+
+/** The chosen accent ('blue' unless set) */
+export function getAccent(): Accent {
+  const stored = localStorage.getItem(LS_ACCENT_KEY);
+  return ACCENTS.find((a) => a.value === stored)?.value ?? ACCENTS[0].value;
+}
+
+/** Colour of an accent */
+export function accentColor(accent: Accent): string {
+  return ACCENTS.find((a) => a.value === accent)!.color;
+}
+
+// Notify the app shell (main.tsx re-themes on appearance:changed)
+function notifyAppearanceChanged() {
+  window.dispatchEvent(new CustomEvent('appearance:changed'));
+}
+
+/** Choose light, dark or system */
+export function setThemeMode(mode: ThemeMode) {
+  localStorage.setItem(LS_MODE_KEY, mode);
+  notifyAppearanceChanged();
+}
+
+/** Choose the accent colour */
+export function setAccent(accent: Accent) {
+  localStorage.setItem(LS_ACCENT_KEY, accent);
+  notifyAppearanceChanged();
+}
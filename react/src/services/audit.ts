@@ -0,0 +1,166 @@
+/**
+ * Audit log of the active wallet: list entries, and undo/redo the last changes. Entries are written by the
+ * cost writes in ./idb, the importer and inline rate changes (recordAudit); the log itself is never rewritten —
+ * an undo or redo is appended as an entry of its own, and only the undo/redo stacks in `meta` move.
+ */
+import {
+  getDB, txDone, notifyCostsChanged, clearAggregates, recordAudit, getAuditStacks, touchCost, recordTombstones, registerCategories,
+  AuditEntry, AuditMessage, AuditState, AuditStacks, COSTS_STORE, AGGREGATES_STORE, CATEGORIES_STORE, BUDGETS_STORE, RECURRING_STORE,
+  AUDIT_STORE, META_STORE, TOMBSTONES_STORE
+} from './idb';
+import { restoreRatesState } from './currency';
+import { formatAmount } from './currencies';
+import { t, tm, MessageKey } from './i18n';
+
+// Entries per page in the Settings viewer
+export const AUDIT_PAGE = 50;
+
+/** Newest entries first, starting below `beforeId` (paging) */
+export async function listAudit(limit: number = AUDIT_PAGE, beforeId?: number): Promise<AuditEntry[]> {
+  const db = await getDB();
+  const store = db.transaction(AUDIT_STORE, 'readonly').objectStore(AUDIT_STORE);
+  const range = beforeId != null ? IDBKeyRange.upperBound(beforeId, true) : null;
+  return new Promise((res, rej) => {
+    const rows: AuditEntry[] = [];
+    const cur = store.openCursor(range, 'prev');
+    cur.onsuccess = () => {
+      const c = cur.result;
+      if (!c || rows.length >= limit) { res(rows); return; }
+      rows.push(c.value as AuditEntry);
+      c.continue();
+    };
+    cur.onerror = () => rej(cur.error);
+  });
+}
+
+/** The entries the next undo and redo would revert / re-apply (null = nothing to do) */
+export async function getUndoRedo(): Promise<{ undo: AuditEntry | null; redo: AuditEntry | null }> {
+  const db = await getDB();
+  const stacks = await getAuditStacks(db);
+  const store = db.transaction(AUDIT_STORE, 'readonly').objectStore(AUDIT_STORE);
+  const get = (id?: number) => new Promise<AuditEntry | null>((res, rej) => {
+    if (id == null) { res(null); return; }
+    const rq = store.get(id);
+    rq.onsuccess = () => res((rq.result as AuditEntry | undefined) ?? null);
+    rq.onerror = () => rej(rq.error);
+  });
+  const [undo, redo] = await Promise.all([get(stacks.undo[stacks.undo.length - 1]), get(stacks.redo[stacks.redo.length - 1])]);
+  return { undo, redo };
+}
+
+// Utility: "YYYY-MM" months of the records in a state (their aggregates are dropped on undo/redo)
+function months(state: AuditState): string[] {
+  return state.costs.map((c) => `${c.Date.year}-${String(c.Date.month).padStart(2, '0')}`);
+}
+
+// Move the cost records from one state to another: delete what only `from` has, write back everything in `to`
+// (both are local changes for sync: deletes leave tombstones, records written back get a new version)
+function applyState(tx: IDBTransaction, from: AuditState, to: AuditState) {
+  const store = tx.objectStore(COSTS_STORE);
+  const tombstones = tx.objectStore(TOMBSTONES_STORE);
+  const keep = new Set(to.costs.map((c) => c.id));
+  const gone = from.costs.filter((c) => !keep.has(c.id));
+  for (const c of gone) store.delete(c.id!);
+  recordTombstones(tx, gone);
+  for (const c of to.costs) {
+    store.put(touchCost(c) as any);
+    if (c.uid) tombstones.delete(c.uid);
+  }
+  clearAggregates(tx, Array.from(new Set([...months(from), ...months(to)])));
+  putRecords(tx, CATEGORIES_STORE, from.categories, to.categories);
+  putRecords(tx, BUDGETS_STORE, from.budgets, to.budgets);
+  // Templates keep what happened since (occurrence counter, pauses): only their category is put back
+  const templates = tx.objectStore(RECURRING_STORE);
+  for (const r of to.recurring ?? []) {
+    const rq = templates.get(r.id!);
+    rq.onsuccess = () => { if (rq.result) templates.put({ ...rq.result, category: r.category }); };
+  }
+  registerCategories(tx, to.costs.map((c) => c.category)); // e.g. names a merge removed
+}
+
+// Categories or budgets of a rename/merge: delete what only `from` has, write back everything in `to`. A name taken
+// again since (a category registered by a later cost, a budget saved under it) stays as it is.
+function putRecords(tx: IDBTransaction, storeName: string, from: { id?: number }[] = [], to: { id?: number }[] = []) {
+  const store = tx.objectStore(storeName);
+  const keep = new Set(to.map((r) => r.id));
+  for (const r of from) if (!keep.has(r.id)) store.delete(r.id!);
+  for (const r of to) {
+    const rq = store.put(r);
+    rq.onerror = (e) => { e.preventDefault(); e.stopPropagation(); }; // unique name index: keep the transaction going
+  }
+}
+
+// Utility: the change events of the stores an entry touched
+function notifyTouched({ before, after }: AuditEntry) {
+  if (before.costs.length || after.costs.length) notifyCostsChanged();
+  if (before.categories?.length || after.categories?.length) window.dispatchEvent(new CustomEvent('categories:changed'));
+  if (before.budgets?.length || after.budgets?.length) window.dispatchEvent(new CustomEvent('budgets:changed'));
+  if (before.recurring?.length || after.recurring?.length) window.dispatchEvent(new CustomEvent('recurring:changed'));
+}
+
+// Utility: an audit message in the UI language (costs as "category amount code", import strategies by name)
+function describe({ key, params = {} }: AuditMessage): string {
+  const p = { ...params };
+  if (typeof p.sum === 'number' && typeof p.currency === 'string') p.amount = `${formatAmount(p.sum, p.currency)} ${p.currency}`;
+  if (typeof p.strategy === 'string') p.strategy = t(`import.strategy.${p.strategy}` as MessageKey);
+  return tm(key, p);
+}
+
+/** What an entry did, in the UI language (entries recorded before messages keep their English summary) */
+export function auditSummary(entry: AuditEntry): string {
+  if (!entry.message) return entry.summary ?? '';
+  const text = describe(entry.message);
+  return entry.op === 'undo' || entry.op === 'redo' ? t(`audit.${entry.op}`, { summary: text }) : text;
+}
+
+/**
+ * Undo (or redo) the entry on top of the stack in one transaction; the change is appended to the log as an
+ * "undo"/"redo" entry. Returns the undone/redone entry, or null when there was nothing to do.
+ */
+async function step(kind: 'undo' | 'redo'): Promise<AuditEntry | null> {
+  const db = await getDB();
+  const stacks = await getAuditStacks(db);
+  const id = (kind === 'undo' ? stacks.undo : stacks.redo).slice(-1)[0];
+  if (id == null) return null;
+
+  const tx = db.transaction(
+    [COSTS_STORE, AGGREGATES_STORE, CATEGORIES_STORE, BUDGETS_STORE, RECURRING_STORE, AUDIT_STORE, META_STORE, TOMBSTONES_STORE], 'readwrite'
+  );
+  const rq = tx.objectStore(AUDIT_STORE).get(id);
+  rq.onsuccess = () => {
+    const target = rq.result as AuditEntry | undefined;
+    if (target) applyState(tx, kind === 'undo' ? target.after : target.before, kind === 'undo' ? target.before : target.after);
+  };
+  // Undo: the entry moves to the redo stack; redo: back onto the undo stack
+  const move = (s: AuditStacks): AuditStacks => kind === 'undo'
+    ? { undo: s.undo.filter((x) => x !== id), redo: [...s.redo, id] }
+    : { undo: [...s.undo, id], redo: s.redo.filter((x) => x !== id) };
+  recordAudit(tx, () => {
+    const target = rq.result as AuditEntry | undefined;
+    return target ? {
+      op: kind,
+      message: target.message ?? { key: 'audit.legacy', params: { summary: target.summary ?? '' } },
+      before: kind === 'undo' ? target.after : target.before,
+      after: kind === 'undo' ? target.before : target.after,
+      target: id,
+    } : null;
+  }, move);
+  await txDone(tx);
+
+  const target = rq.result as AuditEntry | undefined;
+  if (!target) return null;
+  notifyTouched(target);
+  const rates = kind === 'undo' ? target.before.rates : target.after.rates;
+  if (rates) await restoreRatesState(rates);
+  return target;
+}
+
+/** Revert the last change of the active wallet (returns the undone entry, or null) */
+export function undo(): Promise<AuditEntry | null> {
+  return step('undo');
+}
+
+/** Re-apply the last undone change (returns the redone entry, or null) */
+export function redo(): Promise<AuditEntry | null> {
+  return step('redo');
+}
@@ -0,0 +1,160 @@
+/** Monthly budgets per category (or overall) and budget-vs-actual helpers. */
+import { getDB, txDone, getMonthCategoryTotals, amountConverter, BUDGETS_STORE } from './idb';
+import { normalizeCode } from './currencies';
+import { monthRange, toDayKey } from './ranges';
+import type { Budget, Currency, RateMode } from '../types';
+import { t } from './i18n';
+
+/** Category key used for the overall (all categories) budget */
+export const OVERALL = '';
+
+/** Warning thresholds (share of the budget spent) */
+export const WARN_AT = 0.8;
+export const OVER_AT = 1;
+
+// Notify budget views and charts that budgets changed
+function notifyBudgetsChanged() {
+  window.dispatchEvent(new CustomEvent('budgets:changed'));
+}
+
+/** -------- CRUD -------- */
+export async function listBudgets(): Promise<Budget[]> {
+  const db = await getDB();
+  const tx = db.transaction(BUDGETS_STORE, 'readonly');
+  return new Promise((res, rej) => {
+    const rq = tx.objectStore(BUDGETS_STORE).getAll();
+    rq.onsuccess = () => res((rq.result || []) as Budget[]);
+    rq.onerror = () => rej(rq.error);
+  });
+}
+
+/** Create or replace the budget of a category (one budget per category; OVERALL for the total) */
+export async function saveBudget(input: { category: string; amount: number; currency: Currency }) {
+  const amount = Number(input.amount);
+  if (!Number.isFinite(amount) || amount <= 0) throw new Error(t('errors.positiveBudget'));
+  const category = input.category.trim();
+  const db = await getDB();
+  const tx = db.transaction(BUDGETS_STORE, 'readwrite');
+  const store = tx.objectStore(BUDGETS_STORE);
+  const rq = store.index('by_category').get(category);
+  rq.onsuccess = () => {
+    const prev = rq.result as Budget | undefined;
+    store.put({ ...(prev?.id != null ? { id: prev.id } : {}), category, amount, currency: normalizeCode(input.currency) });
+  };
+  await txDone(tx);
+  notifyBudgetsChanged();
+}
+
+export async function deleteBudget(id: number) {
+  const db = await getDB();
+  const tx = db.transaction(BUDGETS_STORE, 'readwrite');
+  tx.objectStore(BUDGETS_STORE).delete(id);
+  await txDone(tx);
+  notifyBudgetsChanged();
+}
+
+/** -------- Budget vs actual -------- */
+export interface BudgetLimits {
+  /** Overall monthly budget; falls back to the sum of category budgets when no overall one is set */
+  overall: number | null;
+  byCategory: Map<string, number>;
+}
+
+/**
+ * All budgets converted into `currency` with the rates of `day` (today unless given) in the chosen mode; a budget
+ * whose currency no rate set has is left out (and shows in the unconverted warning)
+ */
+export async function getBudgetLimits(
+  currency: Currency,
+  rateMode: RateMode = 'historical',
+  day: string = toDayKey(new Date())
+): Promise<BudgetLimits> {
+  const [budgets, toTarget] = await Promise.all([listBudgets(), amountConverter(currency, rateMode)]);
+  const byCategory = new Map<string, number>();
+  let overall: number | null = null;
+  for (const b of budgets) {
+    const v = toTarget(b.amount, b.currency, day);
+    if (v == null) continue;
+    if (b.category === OVERALL) overall = v;
+    else byCategory.set(b.category, v);
+  }
+  if (overall == null && byCategory.size) {
+    overall = Array.from(byCategory.values()).reduce((s, v) => s + v, 0);
+  }
+  return { overall, byCategory };
+}
+
+export interface BudgetRow {
+  budgetId?: number;
+  category: string; // OVERALL for the total row
+  budget: number | null;
+  spent: number;
+  left: number | null;
+  ratio: number | null; // spent / budget
+}
+
+/**
+ * Budget-vs-actual rows for a month in `currency`: one per budgeted or spent category, plus the overall row first.
+ * Costs and budgets go through the same conversion as reports; what no rate set converts is left out (budget null).
+ */
+export async function getBudgetStatus(
+  year: number,
+  month: number,
+  currency: Currency,
+  rateMode: RateMode = 'historical'
+): Promise<BudgetRow[]> {
+  const [budgets, totals, toTarget] = await Promise.all([
+    listBudgets(), getMonthCategoryTotals(year, month, currency, rateMode), amountConverter(currency, rateMode),
+  ]);
+  const day = monthRange(year, month).from;
+  const spentBy = new Map(totals.map((t) => [t.name, t.value]));
+  const row = (category: string, spent: number, b?: Budget): BudgetRow => {
+    const budget = b ? toTarget(b.amount, b.currency, day) : null;
+    return {
+      budgetId: b?.id,
+      category,
+      budget,
+      spent,
+      left: budget == null ? null : budget - spent,
+      ratio: budget ? spent / budget : null,
+    };
+  };
+  const overallBudget = budgets.find((b) => b.category === OVERALL);
+  const totalSpent = totals.reduce((s, t) => s + t.value, 0);
+  const names = new Set<string>([...budgets.map((b) => b.category).filter((c) => c !== OVERALL), ...spentBy.keys()]);
+  const rows = Array.from(names)
+    .sort((a, b) => a.localeCompare(b))
+    .map((c) => row(c, spentBy.get(c) ?? 0, budgets.find((b) => b.category === c)));
+  return [row(OVERALL, totalSpent, overallBudget), ...rows];
+}
+
+export interface BudgetAlert {
+  category: string; // OVERALL for the overall budget
+  ratio: number;
+  level: 'warning' | 'over';
+}
+
+/**
+ * After adding `amount` (in `currency`) to `category`, report budgets that were pushed past
+ * WARN_AT or OVER_AT this month (compares before/after, so a budget only warns when crossing).
+ */
+export async function checkBudgetCrossing(
+  category: string,
+  amount: number,
+  currency: Currency,
+  year: number,
+  month: number,
+  rateMode: RateMode = 'historical'
+): Promise<BudgetAlert[]> {
+  const rows = await getBudgetStatus(year, month, currency, rateMode);
+  const alerts: BudgetAlert[] = [];
+  for (const r of rows) {
+    if (!r.budget || (r.category !== OVERALL && r.category !== category)) continue;
+    const after = r.spent / r.budget;
+    const before = (r.spent - amount) / r.budget;
+    if (after >= OVER_AT && before < OVER_AT) alerts.push({ category: r.category, ratio: after, level: 'over' });
+    else if (after >= WARN_AT && before < WARN_AT) alerts.push({ category: r.category, ratio: after, level: 'warning' });
+  }
+  // Most severe first
+  return alerts.sort((a, b) => b.ratio - a.ratio);
+}
@@ -0,0 +1,246 @@
+/** Category management: stable colours and icons, case-insensitive matching, rename and merge. */
+import {
+  getDB, txDone, notifyCostsChanged, clearAggregates, touchCost, recordAudit, categoryKey, defaultCategoryColor, StoredCost, AuditState,
+  COSTS_STORE, CATEGORIES_STORE, BUDGETS_STORE, RECURRING_STORE, AGGREGATES_STORE, AUDIT_STORE, META_STORE
+} from './idb';
+import type { Budget, Category, RecurringTemplate } from '../types';
+import { t } from './i18n';
+
+/** Icon names offered by the picker (rendered by components/CategoryIcon) */
+export const CATEGORY_ICONS = [
+  'label', 'restaurant', 'shopping_cart', 'home', 'directions_car', 'bolt', 'phone',
+  'local_hospital', 'school', 'flight', 'sports_esports', 'pets', 'checkroom', 'receipt',
+] as const;
+
+// Name key and default colour live in ./idb, where cost writers register their categories
+export { categoryKey, defaultCategoryColor };
+
+// Notify pickers and charts that categories changed
+function notifyCategoriesChanged() {
+  window.dispatchEvent(new CustomEvent('categories:changed'));
+}
+
+// Every distinct category spelling used by costs (unique keys of the by_category index, no record reads)
+function costCategoryNames(tx: IDBTransaction): Promise<string[]> {
+  return new Promise((res, rej) => {
+    const names: string[] = [];
+    const cur = tx.objectStore(COSTS_STORE).index('by_category').openKeyCursor(null, 'nextunique');
+    cur.onsuccess = () => {
+      const c = cur.result;
+      if (!c) { res(names); return; }
+      names.push(String(c.key));
+      c.continue();
+    };
+    cur.onerror = () => rej(cur.error);
+  });
+}
+
+// Every category name in use: by costs, budgets and recurring templates (the transaction must include their stores)
+async function usedCategoryNames(tx: IDBTransaction): Promise<string[]> {
+  const [costs, budgets, templates] = await Promise.all([
+    costCategoryNames(tx),
+    req<Budget[]>(tx.objectStore(BUDGETS_STORE).getAll()),
+    req<RecurringTemplate[]>(tx.objectStore(RECURRING_STORE).getAll()),
+  ]);
+  return [...costs, ...budgets.map((b) => b.category), ...templates.map((r) => r.category)];
+}
+
+// Wrap a request in a promise
+function req<T>(rq: IDBRequest): Promise<T> {
+  return new Promise((res, rej) => {
+    rq.onsuccess = () => res(rq.result as T);
+    rq.onerror = () => rej(rq.error);
+  });
+}
+
+/** All categories, sorted by name (every writer of costs registers the categories it uses: registerCategories in ./idb) */
+export async function listCategories(): Promise<Category[]> {
+  const db = await getDB();
+  const stored = await req<Category[]>(db.transaction(CATEGORIES_STORE, 'readonly').objectStore(CATEGORIES_STORE).getAll());
+  return stored.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Colour per category key, for charts */
+export async function getCategoryColors(): Promise<Map<string, string>> {
+  const cats = await listCategories();
+  return new Map(cats.map((c) => [c.key, c.color]));
+}
+
+/** Colour for a name from a colour map (falls back to the stable default) */
+export function colorFor(name: string, colors: Map<string, string>): string {
+  return colors.get(categoryKey(name)) ?? defaultCategoryColor(name);
+}
+
+/**
+ * Canonical spelling for a typed category: an existing category matched case-insensitively,
+ * or a new category created with the typed name.
+ */
+export async function resolveCategoryName(typed: string): Promise<string> {
+  const name = typed.trim();
+  if (!name) return name;
+  const db = await getDB();
+  const tx = db.transaction(CATEGORIES_STORE, 'readwrite');
+  const store = tx.objectStore(CATEGORIES_STORE);
+  const existing = await req<Category | undefined>(store.index('by_key').get(categoryKey(name)));
+  if (!existing) store.add({ name, key: categoryKey(name), color: defaultCategoryColor(name), icon: 'label' });
+  await txDone(tx);
+  if (!existing) notifyCategoriesChanged();
+  return existing?.name ?? name;
+}
+
+/** Update colour and icon of a category */
+export async function saveCategoryStyle(id: number, style: { color: string; icon: string }) {
+  const db = await getDB();
+  const tx = db.transaction(CATEGORIES_STORE, 'readwrite');
+  const store = tx.objectStore(CATEGORIES_STORE);
+  const cat = await req<Category | undefined>(store.get(id));
+  if (cat) store.put({ ...cat, ...style });
+  await txDone(tx);
+  notifyCategoriesChanged();
+}
+
+// Records a rename or merge changed, as they were and became (for the audit log, so undo can restore all of them)
+interface Rewritten { before: Required<Omit<AuditState, 'rates'>>; after: Required<Omit<AuditState, 'rates'>>; }
+
+/**
+ * Rewrite every record that uses one of `fromKeys` (costs, budgets, recurring templates) to `toName`.
+ * Runs inside the caller's transaction; adds the records changed to `changed`. Cached monthly aggregates are keyed
+ * by category, so they are dropped and rebuilt on the next read.
+ */
+function rewriteRecords(tx: IDBTransaction, fromKeys: Set<string>, toName: string, changed: Rewritten): Promise<Rewritten> {
+  const toKey = categoryKey(toName);
+  clearAggregates(tx);
+  // Costs and recurring templates: plain field rewrite (a cost rewrite is a local change for sync)
+  const rewrite = (storeName: string, isCosts: boolean) => new Promise<void>((res, rej) => {
+    const cur = tx.objectStore(storeName).openCursor();
+    cur.onsuccess = () => {
+      const c = cur.result;
+      if (!c) { res(); return; }
+      const rec = c.value as StoredCost | RecurringTemplate;
+      if (fromKeys.has(categoryKey(rec.category ?? '')) && rec.category !== toName) {
+        if (isCosts) {
+          const next = touchCost({ ...rec as StoredCost, category: toName });
+          c.update(next);
+          changed.before.costs.push(rec as StoredCost);
+          changed.after.costs.push(next);
+        } else {
+          const next = { ...rec as RecurringTemplate, category: toName };
+          c.update(next);
+          changed.before.recurring.push(rec as RecurringTemplate);
+          changed.after.recurring.push(next);
+        }
+      }
+      c.continue();
+    };
+    cur.onerror = () => rej(cur.error);
+  });
+  // Budgets: one per category, so keep the target's budget (or the first source's) and drop the rest
+  const budgets = new Promise<void>((res, rej) => {
+    const store = tx.objectStore(BUDGETS_STORE);
+    const all = store.getAll();
+    all.onsuccess = () => {
+      const list = (all.result || []) as Budget[];
+      let kept = list.some((b) => categoryKey(b.category) === toKey && b.category === toName);
+      for (const b of list) {
+        const key = categoryKey(b.category);
+        if (!fromKeys.has(key) && key !== toKey) continue;
+        if (b.category === toName) continue;
+        changed.before.budgets.push(b);
+        if (kept) store.delete(b.id!);
+        else {
+          const next = { ...b, category: toName };
+          store.put(next);
+          changed.after.budgets.push(next);
+          kept = true;
+        }
+      }
+      res();
+    };
+    all.onerror = () => rej(all.error);
+  });
+  return Promise.all([rewrite(COSTS_STORE, true), rewrite(RECURRING_STORE, false), budgets]).then(() => changed);
+}
+
+// Nothing changed yet
+const emptyRewrite = (): Rewritten => ({
+  before: { costs: [], categories: [], budgets: [], recurring: [] },
+  after: { costs: [], categories: [], budgets: [], recurring: [] },
+});
+
+const REWRITE_STORES = [CATEGORIES_STORE, COSTS_STORE, BUDGETS_STORE, RECURRING_STORE, AGGREGATES_STORE, AUDIT_STORE, META_STORE];
+
+/**
+ * Rename a category and rewrite every record that uses it (renaming onto an existing name is refused; merge instead).
+ * One audit entry holds the category, costs, budgets and templates changed, so undo restores all of them.
+ */
+export async function renameCategory(id: number, newName: string): Promise<number> {
+  const name = newName.trim();
+  if (!name) throw new Error(t('errors.categoryName'));
+  const db = await getDB();
+  const tx = db.transaction(REWRITE_STORES, 'readwrite');
+  const store = tx.objectStore(CATEGORIES_STORE);
+  const cat = await req<Category | undefined>(store.get(id));
+  if (!cat) { tx.abort(); throw new Error(t('errors.categoryNotFound')); }
+  const clash = await req<Category | undefined>(store.index('by_key').get(categoryKey(name)));
+  if (clash && clash.id !== id) {
+    tx.abort();
+    throw new Error(t('errors.categoryExists', { name: clash.name }));
+  }
+  const renamed = { ...cat, name, key: categoryKey(name) };
+  store.put(renamed);
+  const changed = emptyRewrite();
+  changed.before.categories.push(cat);
+  changed.after.categories.push(renamed);
+  await rewriteRecords(tx, new Set([cat.key]), name, changed);
+  recordAudit(tx, () => cat.name !== name ? {
+    op: 'update', message: { key: 'audit.renamed', params: { from: cat.name, to: name, n: changed.after.costs.length } },
+    ...changed,
+  } : null);
+  await txDone(tx);
+  notifyCategoriesChanged();
+  notifyCostsChanged();
+  return changed.after.costs.length;
+}
+
+/** Merge `sourceIds` into `targetId`: records move to the target's name and the sources are deleted (one audit entry) */
+export async function mergeCategories(sourceIds: number[], targetId: number): Promise<number> {
+  const db = await getDB();
+  const tx = db.transaction(REWRITE_STORES, 'readwrite');
+  const store = tx.objectStore(CATEGORIES_STORE);
+  const target = await req<Category | undefined>(store.get(targetId));
+  if (!target) { tx.abort(); throw new Error(t('errors.targetNotFound')); }
+  const keys = new Set<string>();
+  const changed = emptyRewrite();
+  for (const id of sourceIds) {
+    if (id === targetId) continue;
+    const src = await req<Category | undefined>(store.get(id));
+    if (!src) continue;
+    keys.add(src.key);
+    changed.before.categories.push(src);
+    store.delete(id);
+  }
+  await rewriteRecords(tx, keys, target.name, changed);
+  const names = changed.before.categories.map((c) => `"${c.name}"`).join(', ');
+  recordAudit(tx, () => keys.size ? {
+    op: 'update', message: { key: 'audit.merged', params: { from: names, to: target.name, n: changed.after.costs.length } },
+    ...changed,
+  } : null);
+  await txDone(tx);
+  notifyCategoriesChanged();
+  notifyCostsChanged();
+  return changed.after.costs.length;
+}
+
+/** Delete a category that no cost, budget or recurring template uses (those would point at a missing category) */
+export async function deleteCategory(id: number) {
+  const db = await getDB();
+  const tx = db.transaction([CATEGORIES_STORE, COSTS_STORE, BUDGETS_STORE, RECURRING_STORE], 'readwrite');
+  const store = tx.objectStore(CATEGORIES_STORE);
+  const cat = await req<Category | undefined>(store.get(id));
+  if (!cat) { await txDone(tx); return; }
+  const inUse = (await usedCategoryNames(tx)).some((name) => categoryKey(name) === cat.key);
+  if (inUse) { tx.abort(); throw new Error(t('errors.categoryInUse', { name: cat.name })); }
+  store.delete(id);
+  await txDone(tx);
+  notifyCategoriesChanged();
+}
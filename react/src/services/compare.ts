@@ -0,0 +1,57 @@
+/** Period comparison: several years overlaid month by month, and per-category deltas between two months. */
+import { getYearMonthTotals, getMonthCategoryTotals } from './idb';
+import { roundAmount } from './currencies';
+import type { Currency, RateMode } from '../types';
+
+/** One x-axis point of the overlay: month "01".."12" plus one total per year (keyed by the year) */
+export type OverlayRow = { month: string } & Record<string, number | string>;
+
+/** Category change between two months; `pct` is null when the first month had nothing */
+export interface CategoryDelta {
+  category: string;
+  before: number;
+  after: number;
+  delta: number;
+  pct: number | null;
+}
+
+/** How many of the largest increases / decreases to highlight */
+export const HIGHLIGHT_COUNT = 3;
+
+/** Month totals of several years side by side (built on getYearMonthTotals) */
+export async function getYearsOverlay(years: number[], currency: Currency, rateMode: RateMode = 'historical'): Promise<OverlayRow[]> {
+  const perYear = await Promise.all(years.map((y) => getYearMonthTotals(y, currency, rateMode)));
+  return Array.from({ length: 12 }, (_, i) => {
+    const row: OverlayRow = { month: String(i + 1).padStart(2, '0') };
+    years.forEach((y, k) => { row[String(y)] = roundAmount(perYear[k][i].total, currency); });
+    return row;
+  });
+}
+
+/** Per-category change from month `a` to month `b` (built on getMonthCategoryTotals), largest increase first */
+export async function getCategoryDeltas(
+  a: { year: number; month: number },
+  b: { year: number; month: number },
+  currency: Currency,
+  rateMode: RateMode = 'historical'
+): Promise<CategoryDelta[]> {
+  const [before, after] = await Promise.all([
+    getMonthCategoryTotals(a.year, a.month, currency, rateMode),
+    getMonthCategoryTotals(b.year, b.month, currency, rateMode),
+  ]);
+  const names = new Set([...before, ...after].map((t) => t.name));
+  const valueOf = (list: { name: string; value: number }[], name: string) => list.find((t) => t.name === name)?.value ?? 0;
+  const rows = Array.from(names, (category) => {
+    const x = roundAmount(valueOf(before, category), currency);
+    const y = roundAmount(valueOf(after, category), currency);
+    return { category, before: x, after: y, delta: roundAmount(y - x, currency), pct: x ? (y - x) / x : null };
+  });
+  return rows.sort((p, q) => q.delta - p.delta || p.category.localeCompare(q.category));
+}
+
+/** Categories to highlight: the largest increases and the largest decreases (non-zero changes only) */
+export function highlightDeltas(rows: CategoryDelta[], count: number = HIGHLIGHT_COUNT): { up: Set<string>; down: Set<string> } {
+  const up = rows.filter((r) => r.delta > 0).slice(0, count).map((r) => r.category);
+  const down = rows.filter((r) => r.delta < 0).slice(-count).map((r) => r.category);
+  return { up: new Set(up), down: new Set(down) };
+}
@@ -0,0 +1,206 @@
+/** CSV parsing/serialization and the column-mapping step of the CSV import wizard. */
+import type { Currency, RangeReport } from '../types';
+import type { CostInput, StoredCost } from './idb';
+import { normalizeCode, isValidCode } from './currencies';
+import { t } from './i18n';
+
+/** Cost fields a CSV column can be mapped to */
+export type CsvField = 'sum' | 'currency' | 'category' | 'description' | 'date' | 'tags';
+export const CSV_FIELDS: CsvField[] = ['sum', 'currency', 'category', 'description', 'date', 'tags'];
+
+/** Supported date layouts for imported rows */
+export type DateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD.MM.YYYY';
+export const DATE_FORMATS: DateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY'];
+
+/** Sign of the expenses in a file: positive amounts, or negative debits as on many bank statements */
+export type ExpenseSign = 'positive' | 'negative';
+
+export interface CsvMapping {
+  /** Column index per field (-1 = not mapped) */
+  columns: Record<CsvField, number>;
+  dateFormat: DateFormat;
+  decimalSeparator: '.' | ',';
+  /** Used when the currency column is not mapped or empty */
+  defaultCurrency: Currency;
+  /** Used when the category column is not mapped or empty */
+  defaultCategory: string;
+  /** Rows with the other sign are refunds or credits: they are skipped, never stored as expenses */
+  expenseSign: ExpenseSign;
+}
+
+/** One parsed row: its cells and the physical line it starts on (1-based; quoted cells may span lines) */
+export interface CsvRow { line: number; cells: string[]; }
+
+/** One data row after mapping: the cost to add, or the reasons it was rejected */
+export interface MappedRow {
+  line: number; // 1-based line in the file
+  raw: Record<CsvField, string>; // mapped cells as they appear in the file
+  cost?: CostInput;
+  errors: string[];
+  credit: boolean; // skipped as a refund or credit (amount of the non-expense sign)
+}
+
+/** -------- Parsing / serializing -------- */
+/** Guess the delimiter from the first line (comma, semicolon or tab) */
+export function detectDelimiter(text: string): string {
+  const first = text.split(/\r?\n/, 1)[0] ?? '';
+  const counts = [',', ';', '\t'].map((d) => [d, first.split(d).length] as const);
+  return counts.sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Parse CSV text into rows of cells with the line each starts on (RFC 4180 quoting; blank lines dropped, but still
+ * counted, so error messages point at the right line)
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1; // physical line of the current character
+  let start = 1; // line the current row started on
+  const src = text.replace(/^\uFEFF/, ''); // strip BOM (Excel)
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    const newline = ch === '\n' || ch === '\r';
+    if (newline && ch === '\r' && src[i + 1] === '\n') i++;
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += newline ? '\n' : ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell); cell = '';
+    } else if (newline) {
+      row.push(cell); cell = '';
+      rows.push({ line: start, cells: row }); row = [];
+    } else {
+      cell += ch;
+    }
+    if (newline) {
+      line++;
+      if (!quoted) start = line;
+    }
+  }
+  if (cell !== '' || row.length) { row.push(cell); rows.push({ line: start, cells: row }); }
+  return rows.filter((r) => r.cells.some((c) => c.trim() !== ''));
+}
+
+// Quote a cell when needed
+function csvCell(v: unknown): string {
+  const s = v == null ? '' : String(v);
+  return /[",\r\n]/.test(s) ? '"' + s.replace(/"/g, '""') + '"' : s;
+}
+
+/** Serialize rows to CSV (comma-delimited, CRLF line ends) */
+export function toCsv(rows: unknown[][]): string {
+  return rows.map((r) => r.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// YYYY-MM-DD for a stored {year, month, day}
+function isoDay(d: { year: number; month: number; day: number }): string {
+  return `${d.year}-${String(d.month).padStart(2, '0')}-${String(d.day).padStart(2, '0')}`;
+}
+
+/** Full dataset as CSV (original amounts and currencies) */
+export function costsToCsv(costs: StoredCost[]): string {
+  return toCsv([
+    ['id', 'date', 'sum', 'currency', 'category', 'description', 'tags'],
+    ...costs.map((c) => [c.id ?? '', isoDay(c.Date), c.sum, c.currency, c.category, c.description ?? '', (c.tags ?? []).join(';')]),
+  ]);
+}
+
+/** A monthly report as CSV (amounts converted to the report currency) */
+export function reportToCsv(report: RangeReport): string {
+  return toCsv([
+    ['date', 'category', 'description', 'sum', 'currency'],
+    ...report.costs.map((c) => [
+      isoDay(c.Date),
+      c.category, c.description, c.sum, c.currency,
+    ]),
+    ['', '', t('common.total'), report.total.total, report.total.currency],
+  ]);
+}
+
+/** -------- Mapping -------- */
+/** Guess column indexes from header names (e.g. "Amount" -> sum, "Date" -> date) */
+export function guessMapping(header: string[]): Record<CsvField, number> {
+  const patterns: Record<CsvField, RegExp> = {
+    sum: /^(sum|amount|total|debit|value|price)/i,
+    currency: /^(currency|curr|ccy)/i,
+    category: /^(category|type|group)/i,
+    description: /^(description|desc|details|memo|payee|merchant|narrative)/i,
+    date: /^(date|day|posted|transaction date)/i,
+    tags: /^(tags?|labels?)$/i,
+  };
+  const out = {} as Record<CsvField, number>;
+  for (const f of CSV_FIELDS) out[f] = header.findIndex((h) => patterns[f].test(h.trim()));
+  return out;
+}
+
+/** Parse an amount with the given decimal separator (thousands separators and currency symbols ignored) */
+export function parseAmount(raw: string, decimalSeparator: '.' | ','): number {
+  let s = raw.trim().replace(/[^\d.,\-()]/g, '');
+  const negative = /^\(.*\)$/.test(s) || s.startsWith('-');
+  s = s.replace(/[()\-]/g, '');
+  s = decimalSeparator === ',' ? s.replace(/\./g, '').replace(',', '.') : s.replace(/,/g, '');
+  if (!/^\d*\.?\d+$|^\d+\.$/.test(s)) return NaN;
+  const n = Number(s);
+  return negative ? -n : n;
+}
+
+/** Parse a date in the chosen layout to a local ISO timestamp (noon, to stay on the same day in every zone) */
+export function parseDate(raw: string, format: DateFormat): string | null {
+  const parts = raw.trim().split(/[-/.\sT]/).filter(Boolean).map(Number);
+  if (parts.length < 3 || parts.slice(0, 3).some((n) => !Number.isInteger(n))) return null;
+  let [y, m, d] = [0, 0, 0];
+  if (format === 'YYYY-MM-DD') [y, m, d] = parts;
+  else if (format === 'MM/DD/YYYY') [m, d, y] = parts;
+  else [d, m, y] = parts;
+  if (y < 100) y += 2000;
+  const date = new Date(y, m - 1, d, 12);
+  if (date.getFullYear() !== y || date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+  return date.toISOString();
+}
+
+/** Apply a mapping to data rows (header excluded) */
+export function mapCsvRows(rows: CsvRow[], mapping: CsvMapping): MappedRow[] {
+  const { columns } = mapping;
+  const get = ({ cells }: CsvRow, f: CsvField) => (columns[f] >= 0 ? (cells[columns[f]] ?? '').trim() : '');
+  return rows.map((r) => {
+    const errors: string[] = [];
+    const rawSum = get(r, 'sum');
+    // Expenses are stored as positive sums, whichever sign the file uses for them
+    const amount = parseAmount(rawSum, mapping.decimalSeparator);
+    const sum = Math.abs(amount);
+    const credit = Number.isFinite(amount) && amount !== 0 && (amount < 0) !== (mapping.expenseSign === 'negative');
+    if (!rawSum) errors.push(t('rowError.missingSum'));
+    else if (!Number.isFinite(amount) || amount === 0) errors.push(t('rowError.invalidSum', { value: `"${rawSum}"` }));
+    else if (credit) errors.push(t('rowError.credit', { value: `"${rawSum}"` }));
+
+    const currency = normalizeCode(get(r, 'currency') || mapping.defaultCurrency);
+    if (!isValidCode(currency)) errors.push(t('rowError.invalidCurrency', { value: `"${currency}"` }));
+
+    const category = get(r, 'category') || mapping.defaultCategory.trim();
+    if (!category) errors.push(t('rowError.missingCategory'));
+
+    const rawDate = get(r, 'date');
+    const dateISO = rawDate ? parseDate(rawDate, mapping.dateFormat) : null;
+    if (!rawDate) errors.push(t('rowError.missingDate'));
+    else if (!dateISO) errors.push(t('rowError.invalidDateFormat', { value: `"${rawDate}"`, format: mapping.dateFormat }));
+
+    const raw = {} as Record<CsvField, string>;
+    for (const f of CSV_FIELDS) raw[f] = get(r, f);
+    return {
+      line: r.line,
+      raw,
+      errors,
+      credit,
+      cost: errors.length ? undefined : {
+        sum, currency, category, description: get(r, 'description'), dateISO: dateISO!,
+        tags: get(r, 'tags').split(/[;,|]/), // normalized (trimmed, blanks dropped) when stored
+      },
+    };
+  });
+}
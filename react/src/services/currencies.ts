@@ -0,0 +1,151 @@
+/** Currency registry: code, symbol, display name and decimal places for every currency the app can show. */
+import type { Currency, CurrencyInfo, Rates } from '../types';
+import { t, getLocale } from './i18n';
+
+// LocalStorage key for user-added currencies
+const LS_CUSTOM_KEY = 'customCurrencies';
+
+/** Legacy / non-ISO codes mapped to their ISO 4217 code */
+const ALIASES: Record<string, Currency> = { EURO: 'EUR' };
+
+/** Shown when no rates are loaded yet (the original four) */
+const FALLBACK_CODES: Currency[] = ['USD', 'ILS', 'GBP', 'EUR'];
+
+/** Built-in metadata for common ISO 4217 currencies */
+const KNOWN: Record<Currency, Omit<CurrencyInfo, 'code'>> = {
+  USD: { symbol: '$', name: 'US Dollar', decimals: 2 },
+  ILS: { symbol: '₪', name: 'Israeli New Shekel', decimals: 2 },
+  GBP: { symbol: '£', name: 'British Pound', decimals: 2 },
+  EUR: { symbol: '€', name: 'Euro', decimals: 2 },
+  JPY: { symbol: '¥', name: 'Japanese Yen', decimals: 0 },
+  CHF: { symbol: 'CHF', name: 'Swiss Franc', decimals: 2 },
+  CAD: { symbol: 'C$', name: 'Canadian Dollar', decimals: 2 },
+  AUD: { symbol: 'A$', name: 'Australian Dollar', decimals: 2 },
+  NZD: { symbol: 'NZ$', name: 'New Zealand Dollar', decimals: 2 },
+  CNY: { symbol: '¥', name: 'Chinese Yuan', decimals: 2 },
+  HKD: { symbol: 'HK$', name: 'Hong Kong Dollar', decimals: 2 },
+  SGD: { symbol: 'S$', name: 'Singapore Dollar', decimals: 2 },
+  INR: { symbol: '₹', name: 'Indian Rupee', decimals: 2 },
+  KRW: { symbol: '₩', name: 'South Korean Won', decimals: 0 },
+  SEK: { symbol: 'kr', name: 'Swedish Krona', decimals: 2 },
+  NOK: { symbol: 'kr', name: 'Norwegian Krone', decimals: 2 },
+  DKK: { symbol: 'kr', name: 'Danish Krone', decimals: 2 },
+  PLN: { symbol: 'zł', name: 'Polish Złoty', decimals: 2 },
+  CZK: { symbol: 'Kč', name: 'Czech Koruna', decimals: 2 },
+  HUF: { symbol: 'Ft', name: 'Hungarian Forint', decimals: 2 },
+  TRY: { symbol: '₺', name: 'Turkish Lira', decimals: 2 },
+  BRL: { symbol: 'R$', name: 'Brazilian Real', decimals: 2 },
+  MXN: { symbol: 'MX$', name: 'Mexican Peso', decimals: 2 },
+  ZAR: { symbol: 'R', name: 'South African Rand', decimals: 2 },
+  AED: { symbol: 'AED', name: 'UAE Dirham', decimals: 2 },
+  THB: { symbol: '฿', name: 'Thai Baht', decimals: 2 },
+  JOD: { symbol: 'JD', name: 'Jordanian Dinar', decimals: 3 },
+  KWD: { symbol: 'KD', name: 'Kuwaiti Dinar', decimals: 3 },
+};
+
+/** Normalize a currency code: trim, upper-case, map legacy aliases (EURO -> EUR) */
+export function normalizeCode(code: unknown): Currency {
+  const c = String(code ?? '').trim().toUpperCase();
+  return ALIASES[c] ?? c;
+}
+
+/** True for a syntactically valid ISO 4217-style code (three letters) */
+export function isValidCode(code: unknown): boolean {
+  return /^[A-Z]{3}$/.test(normalizeCode(code));
+}
+
+/** True when `code` is a legacy alias that stored records should be migrated away from */
+export function isLegacyCode(code: unknown): boolean {
+  return typeof code === 'string' && code in ALIASES;
+}
+
+/** -------- User-added currencies (localStorage) -------- */
+export function getCustomCurrencies(): CurrencyInfo[] {
+  try {
+    const list = JSON.parse(localStorage.getItem(LS_CUSTOM_KEY) || '[]');
+    return Array.isArray(list) ? list.filter((c) => isValidCode(c?.code)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function addCustomCurrency(info: CurrencyInfo) {
+  const code = normalizeCode(info.code);
+  if (!isValidCode(code)) throw new Error(t('errors.codeLetters'));
+  const decimals = Number(info.decimals);
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 4) throw new Error(t('errors.decimals'));
+  if (info.rate != null && (!Number.isFinite(info.rate) || info.rate <= 0)) throw new Error(t('errors.positiveRate'));
+  const entry: CurrencyInfo = {
+    code,
+    symbol: info.symbol?.trim() || code,
+    name: info.name?.trim() || code,
+    decimals,
+    ...(info.rate != null ? { rate: Number(info.rate) } : {}),
+  };
+  const rest = getCustomCurrencies().filter((c) => c.code !== code);
+  localStorage.setItem(LS_CUSTOM_KEY, JSON.stringify([...rest, entry]));
+  window.dispatchEvent(new CustomEvent('fx:currencies-changed'));
+}
+
+export function removeCustomCurrency(code: Currency) {
+  const rest = getCustomCurrencies().filter((c) => c.code !== normalizeCode(code));
+  localStorage.setItem(LS_CUSTOM_KEY, JSON.stringify(rest));
+  window.dispatchEvent(new CustomEvent('fx:currencies-changed'));
+}
+
+/** -------- Lookups -------- */
+/** Metadata for a code: user-added entry, then built-in table, then a generic 2-decimal entry */
+export function getCurrencyInfo(code: Currency): CurrencyInfo {
+  const c = normalizeCode(code);
+  const custom = getCustomCurrencies().find((x) => x.code === c);
+  if (custom) return custom;
+  const known = KNOWN[c];
+  return known ? { code: c, ...known } : { code: c, symbol: c, name: c, decimals: 2 };
+}
+
+/** Rate (units per 1 USD) from a user-added currency, used when the rates source lacks it */
+export function getCustomRate(code: Currency): number | undefined {
+  return getCustomCurrencies().find((x) => x.code === normalizeCode(code))?.rate;
+}
+
+/** All selectable currencies: those in the rates source plus user-added ones, sorted by code */
+export function listCurrencies(rates: Rates | null): CurrencyInfo[] {
+  const codes = new Set<Currency>(rates ? Object.keys(rates).map(normalizeCode) : FALLBACK_CODES);
+  for (const c of getCustomCurrencies()) codes.add(c.code);
+  return Array.from(codes).sort().map(getCurrencyInfo);
+}
+
+/** -------- Formatting -------- */
+/** Round to the currency's decimal places */
+export function roundAmount(n: number, code: Currency): number {
+  const f = 10 ** getCurrencyInfo(code).decimals;
+  return Math.round((Number(n) || 0) * f) / f;
+}
+
+/** Digit grouping and decimal mark for shown amounts: 1234.50, 1,234.50, 1.234,50, 1 234,50 or as the UI language writes them */
+export type NumberFormat = 'plain' | 'comma' | 'dot' | 'space' | 'locale';
+const NUMBER_LOCALES: Record<Exclude<NumberFormat, 'locale'>, string> = {
+  plain: 'en-US', comma: 'en-US', dot: 'de-DE', space: 'fr-FR',
+};
+let numberFormat: NumberFormat = 'locale'; // from the user preferences (see ./preferences)
+
+/** Set how formatAmount shows amounts (files such as CSV exports keep plain numbers) */
+export function setNumberFormat(f: NumberFormat) { numberFormat = f; }
+
+/** Fixed-decimals string for a currency in the chosen number format (e.g. 1234.5 JPY -> "1235", or "1,235") */
+export function formatAmount(n: number, code: Currency, format: NumberFormat = numberFormat): string {
+  const { decimals } = getCurrencyInfo(code);
+  const value = roundAmount(n, code);
+  if (format === 'plain') return value.toFixed(decimals);
+  const locale = format === 'locale' ? getLocale() : NUMBER_LOCALES[format];
+  return new Intl.NumberFormat(locale, { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(value);
+}
+
+/** Amount with the currency symbol (e.g. "€12.50", or "12.50 ₪" in Hebrew); user-added currencies keep their own symbol */
+export function formatMoney(n: number, code: Currency): string {
+  const info = getCurrencyInfo(code);
+  if (numberFormat !== 'locale' || !KNOWN[info.code]) return info.symbol + formatAmount(n, code);
+  return new Intl.NumberFormat(getLocale(), {
+    style: 'currency', currency: info.code, currencyDisplay: 'narrowSymbol', minimumFractionDigits: info.decimals, maximumFractionDigits: info.decimals,
+  }).format(roundAmount(n, code));
+}
@@ -1,5 +1,7 @@
 /** Exchange-rate service: fetch default URL on session start; convert amounts; allow custom URL or Inline JSON. */
-import type { Rates, Currency } from '../types';
+import type { Rates, Currency, RatesState } from '../types';
+import { normalizeCode, isValidCode, getCustomRate } from './currencies';
+import { t } from './i18n';
 
 /**
  * DEFAULT: always fetch from this URL on every new session (unless the user explicitly
@@ -15,11 +17,22 @@ const LS_INLINE_KEY = 'ratesInline';     // stringified JSON for inline mode
 
 type Source = 'url' | 'inline-json';
 
+/** Where the session rates came from: live (fetched / inline), or the last good rates saved earlier (offline) */
+export interface RatesStatus { fallback: boolean; savedAt: string | null; }
+
 /** -------- In-memory current rates (used by convert) -------- */
 let currentRates: Rates | null = null;
+let ratesStatus: RatesStatus = { fallback: false, savedAt: null };
 export function getCurrentRates(): Rates | null { return currentRates; }
 export function getCachedSessionRates(): Rates | null { return currentRates; } // <- for idb.ts compatibility
-export function setCurrentRates(r: Rates | null) { currentRates = r; }
+export function getRatesStatus(): RatesStatus { return ratesStatus; }
+// `fallbackSavedAt` is set when the rates are the last good ones from IndexedDB rather than live
+export function setCurrentRates(r: Rates | null, fallbackSavedAt: string | null = null) {
+  currentRates = r;
+  ratesStatus = { fallback: fallbackSavedAt != null, savedAt: fallbackSavedAt };
+  // the currency registry (pickers) follows the currencies in the rates source
+  window.dispatchEvent(new CustomEvent('fx:currencies-changed'));
+}
 
 /** -------- Source & URL helpers -------- */
 export function getRatesSource(): Source {
@@ -38,27 +51,61 @@ export function setRatesUrl(url: string) {
 
 /** -------- Inline JSON helpers -------- */
 export function getInlineRates(): Rates | null {
-  try { return JSON.parse(localStorage.getItem(LS_INLINE_KEY) || 'null'); }
+  try {
+    const raw = JSON.parse(localStorage.getItem(LS_INLINE_KEY) || 'null');
+    return raw ? normalizeRates(raw) : null; // also upgrades legacy "EURO" keys
+  }
   catch { return null; }
 }
-export function setInlineRates(rates: Rates) {
+// `record` = false when the caller logs the change itself (imports) or is undoing one
+export function setInlineRates(rates: Rates, record = true) {
+  const before = getRatesState();
   localStorage.setItem(LS_INLINE_KEY, JSON.stringify(rates));
   setRatesSource('inline-json');
   // apply immediately in this session
   setCurrentRates(rates);
   // best-effort persist in idb as well
   void applyRatesToIdb(rates);
+  if (record) void logRatesChange(before, getRatesState());
+}
+
+/** Current rates configuration (what undo of a rates change restores) */
+export function getRatesState(): RatesState {
+  return { source: getRatesSource(), inline: getInlineRates() };
 }
 
-/** -------- Validation (no defaults injected) -------- */
+/** Put back an earlier rates configuration and load its rates (undo/redo; not logged again) */
+export async function restoreRatesState(state: RatesState): Promise<void> {
+  if (state.inline) localStorage.setItem(LS_INLINE_KEY, JSON.stringify(state.inline));
+  else localStorage.removeItem(LS_INLINE_KEY);
+  setRatesSource(state.source);
+  await initCurrencyRates();
+}
+
+/**
+ * -------- Validation (no defaults injected) --------
+ * Accepts any set of ISO 4217 codes (units per 1 USD); legacy keys such as "EURO" map to "EUR".
+ */
 export function normalizeRates(obj: any): Rates {
-  const out: any = {};
-  (['USD','ILS','GBP','EURO'] as const).forEach((k) => {
-    const v = Number(obj?.[k]);
-    if (!Number.isFinite(v) || v <= 0) throw new Error('Invalid rate for ' + k);
-    out[k] = v;
-  });
-  return out as Rates;
+  if (!obj || typeof obj !== 'object' || Array.isArray(obj)) throw new Error(t('errors.ratesObject'));
+  const out: Rates = {};
+  for (const [key, value] of Object.entries(obj)) {
+    const code = normalizeCode(key);
+    if (!isValidCode(code)) throw new Error(t('errors.invalidCode', { code: key }));
+    const v = Number(value);
+    if (!Number.isFinite(v) || v <= 0) throw new Error(t('errors.invalidRate', { code: key }));
+    // an explicit ISO key wins over its legacy alias
+    if (code !== key && code in obj) continue;
+    out[code] = v;
+  }
+  if (!Object.keys(out).length) throw new Error(t('errors.noCurrencies'));
+  return out;
+}
+
+// Rate for a code from a rate set (legacy alias keys and user-added rates as fallbacks)
+function rateOf(code: Currency, r: Rates): number | undefined {
+  const c = normalizeCode(code);
+  return r[c] ?? (c === 'EUR' ? r.EURO : undefined) ?? getCustomRate(c);
 }
 
 /** -------- Fetch with cache-busting (fresh each session) -------- */
@@ -71,7 +118,7 @@ export async function fetchRatesFrom(url: string): Promise<Rates> {
     data = await res.json();
   } catch (e: any) {
     const text = await res.text().catch(()=>'');
-    throw new Error('Invalid JSON: ' + (e?.message || '') + (text ? ' | received: ' + text.slice(0,120) : ''));
+    throw new Error(t('errors.invalidJson', { error: e?.message || '' }) + (text ? ' | ' + t('errors.received', { text: text.slice(0,120) }) : ''));
   }
   return normalizeRates(data);
 }
@@ -87,23 +134,52 @@ async function applyRatesToIdb(rates: Rates): Promise<void> {
   }
 }
 
+// Record an inline rates change in the active wallet's audit log (best effort, like applyRatesToIdb)
+async function logRatesChange(before: RatesState, after: RatesState): Promise<void> {
+  try {
+    const mod = await import('./idb');
+    await mod.logAudit({ op: 'rates', message: { key: 'audit.rates' }, before: { costs: [], rates: before }, after: { costs: [], rates: after } });
+  } catch {
+    // no audit entry when the DB is unavailable
+  }
+}
+
+// Last good rates from IndexedDB (null if none were saved yet)
+async function loadLastGoodRates(): Promise<{ rates: Rates; savedAt: string } | null> {
+  try {
+    const mod = await import('./idb');
+    return await mod.getLastGoodRates();
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Initialize rates on app start.
  * Policy:
  * - If source = 'inline-json': use the stored inline JSON (user override), do not fetch.
- * - Else (default): always fetch from URL (default is GitHub raw)
+ * - Else (default): always fetch from URL (default is GitHub raw); when that fails (offline), use the
+ *   last good rates saved in IndexedDB and mark them as a fallback (see getRatesStatus).
  */
 export async function initCurrencyRates(): Promise<void> {
   const source = getRatesSource();
   try {
     if (source === 'inline-json') {
       const inline = getInlineRates();
-      if (!inline) throw new Error('Inline JSON not set.');
+      if (!inline) throw new Error(t('errors.noInline'));
       setCurrentRates(inline);
       await applyRatesToIdb(inline);
     } else {
       const url = getRatesUrl();
-      const rates = await fetchRatesFrom(url);
+      let rates: Rates;
+      try {
+        rates = await fetchRatesFrom(url);
+      } catch (e) {
+        const last = await loadLastGoodRates();
+        if (!last) throw e;
+        setCurrentRates(normalizeRates(last.rates), last.savedAt);
+        return;
+      }
       setCurrentRates(rates);
       await applyRatesToIdb(rates);
     }
@@ -117,24 +193,25 @@ export async function refreshRatesFromUrl(): Promise<Rates> {
   const rates = await fetchRatesFrom(getRatesUrl());
   setCurrentRates(rates);
   await applyRatesToIdb(rates);
+  window.dispatchEvent(new CustomEvent('fx:rates-ready'));
   return rates;
 }
 
 /** Currency conversion used by other modules */
 export function convert(amount: number, from: Currency, to: Currency, rates?: Rates): number {
   const r = rates || currentRates;
+  if (normalizeCode(from) === normalizeCode(to)) return Number(amount) || 0;
   if (!r) {
-    if (from === to) return Number(amount) || 0;
-    throw new Error('Rates are not loaded yet.');
+    throw new Error(t('errors.ratesNotLoaded'));
   }
-  const rf = r[from as keyof Rates] as number;
-  const rt = r[to as keyof Rates] as number;
-  if (!rf || !rt) throw new Error('Missing rate for conversion.');
+  const rf = rateOf(from, r);
+  const rt = rateOf(to, r);
+  if (!rf || !rt) throw new Error(t('errors.missingRate'));
   const value = (Number(amount) || 0) / rf * rt;
   return value;
 }
 
-/** Small UI helper */
+/** Small UI helper (prefer formatAmount from ./currencies when the currency is known) */
 export function toFixed2(n: number) {
   return (Math.round(n * 100) / 100).toFixed(2);
 }
@@ -0,0 +1,19 @@
+/** Browser download helper shared by the JSON and CSV exports. */
+
+/** Timestamp for export file names, e.g. "2025-09-14-10-30-00" */
+export function fileStamp(d: Date = new Date()): string {
+  return d.toISOString().slice(0, 19).replace(/[:T]/g, '-');
+}
+
+/** Download text content as a file via a temporary object URL */
+export function downloadFile(content: string | Blob, filename: string, type = 'application/octet-stream') {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
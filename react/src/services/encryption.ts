@@ -0,0 +1,125 @@
+/**
+ * Password-encrypted backups (Web Crypto): the JSON export is encrypted with AES-GCM under a key derived
+ * from the passphrase with PBKDF2-SHA-256, and wrapped in a versioned envelope:
+ *   { format: "cost-manager-encrypted", version: 1, kdf: { name, hash, iterations, salt }, cipher: { name, iv }, data }
+ * Binary fields are base64. The envelope header is bound to the ciphertext as AES-GCM additional data, so
+ * changing any of it (or the data) fails authentication like a wrong passphrase does.
+ */
+import { t } from './i18n';
+
+export const ENCRYPTED_FORMAT = 'cost-manager-encrypted';
+export const ENVELOPE_VERSION = 1;
+// OWASP recommendation for PBKDF2-HMAC-SHA256; files may carry another count (within sane bounds)
+const PBKDF2_ITERATIONS = 600_000;
+const MAX_ITERATIONS = 10_000_000;
+/** Shortest passphrase accepted when encrypting */
+export const MIN_PASSPHRASE = 8;
+
+/** Envelope of an encrypted export */
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;
+}
+
+/** Is this parsed file an encrypted backup (of any envelope version)? */
+export function isEncryptedBackup(json: any): json is EncryptedBackup {
+  return !!json && typeof json === 'object' && json.format === ENCRYPTED_FORMAT;
+}
+
+/* ---- base64 <-> bytes ---- */
+function toBase64(bytes: Uint8Array): string {
+  let s = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) s += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(s);
+}
+
+function fromBase64(b64: unknown, what: string): Uint8Array<ArrayBuffer> {
+  try {
+    if (typeof b64 !== 'string') throw new Error();
+    const s = atob(b64);
+    const out = new Uint8Array(s.length);
+    for (let i = 0; i < s.length; i++) out[i] = s.charCodeAt(i);
+    return out;
+  } catch {
+    throw new Error(t('errors.damagedField', { field: what }));
+  }
+}
+
+// AES-256 key from the passphrase
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const base = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    base,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Everything but the data, in a fixed key order: authenticated together with the ciphertext
+function header(env: EncryptedBackup): Uint8Array<ArrayBuffer> {
+  const { format, version, kdf, cipher } = env;
+  return new TextEncoder().encode(JSON.stringify({
+    format, version,
+    kdf: { name: kdf.name, hash: kdf.hash, iterations: kdf.iterations, salt: kdf.salt },
+    cipher: { name: cipher.name, iv: cipher.iv },
+  }));
+}
+
+/** Encrypt an export (any JSON value) with a passphrase */
+export async function encryptBackup(json: unknown, passphrase: string): Promise<EncryptedBackup> {
+  if (passphrase.length < MIN_PASSPHRASE) throw new Error(t('errors.shortPassphrase', { n: MIN_PASSPHRASE }));
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const env: EncryptedBackup = {
+    format: ENCRYPTED_FORMAT,
+    version: ENVELOPE_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: '',
+  };
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const plain = new TextEncoder().encode(JSON.stringify(json));
+  const sealed = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: header(env) }, key, plain);
+  env.data = toBase64(new Uint8Array(sealed));
+  return env;
+}
+
+/**
+ * Decrypt an encrypted backup back to the parsed export. Throws a readable error for a newer or damaged
+ * envelope, and for a wrong passphrase or modified file (AES-GCM cannot tell those two apart).
+ */
+export async function decryptBackup(env: EncryptedBackup, passphrase: string): Promise<unknown> {
+  if (env.version !== ENVELOPE_VERSION) {
+    throw new Error(Number(env.version) > ENVELOPE_VERSION
+      ? t('errors.newerFormat', { version: String(env.version) })
+      : t('errors.unknownFormat', { version: JSON.stringify(env.version) }));
+  }
+  const { kdf, cipher } = env;
+  if (kdf?.name !== 'PBKDF2' || kdf.hash !== 'SHA-256' || cipher?.name !== 'AES-GCM') {
+    throw new Error(t('errors.damagedCipher'));
+  }
+  if (!Number.isInteger(kdf.iterations) || kdf.iterations < 1 || kdf.iterations > MAX_ITERATIONS) {
+    throw new Error(t('errors.damagedIterations'));
+  }
+  const salt = fromBase64(kdf.salt, 'salt');
+  const iv = fromBase64(cipher.iv, 'IV');
+  const data = fromBase64(env.data, 'data');
+
+  const key = await deriveKey(passphrase, salt, kdf.iterations);
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData: header(env) }, key, data);
+  } catch {
+    throw new Error(t('errors.wrongPassphrase'));
+  }
+  try {
+    return JSON.parse(new TextDecoder().decode(plain));
+  } catch {
+    throw new Error(t('errors.damagedJson'));
+  }
+}
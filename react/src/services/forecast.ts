@@ -0,0 +1,223 @@
+/** Month-end forecast per category (spend so far, recurring costs still due, pace of previous months) and rolling averages. */
+import { forEachCost, costConverter, getRangeBucketTotals, StoredCost } from './idb';
+import { listRecurring, occurrenceDate, todayKey } from './recurring';
+import { roundAmount } from './currencies';
+import { monthRange, partsToDayKey, fromDayKey, toDayKey } from './ranges';
+import type { Currency, DateRange, RateMode } from '../types';
+
+/** Months before the forecast month whose spending sets the expected daily pace and its spread */
+export const HISTORY_MONTHS = 6;
+/** Windows offered for the rolling average on the bar chart */
+export const ROLLING_WINDOWS = [3, 6, 12] as const;
+
+// Band half-width as a share of the daily pace when there is too little history to measure the spread
+const DEFAULT_SPREAD = 0.25;
+
+/** Projection for one category */
+export interface CategoryForecast {
+  category: string;
+  spent: number;      // costs dated up to today
+  scheduled: number;  // recurring occurrences and costs already entered for the rest of the month
+  projected: number;  // spent + scheduled + expected day-to-day spending
+  low: number;
+  high: number;
+}
+
+/** One day of the cumulative chart: actual spend up to today, projection (with band) from today on */
+export interface ForecastPoint {
+  day: string; // YYYY-MM-DD
+  actual: number | null;
+  projected: number | null;
+  band: [number, number] | null;
+}
+
+export interface MonthForecast {
+  range: DateRange;
+  elapsedDays: number;
+  historyMonths: number; // previous months with any costs that fed the pace
+  spent: number;
+  projected: number;
+  low: number;
+  high: number;
+  categories: CategoryForecast[];
+  points: ForecastPoint[];
+}
+
+// Per-category working totals while building the forecast
+interface Acc { spent: number; variable: number; scheduled: number; history: number[] }
+
+// Mean and (sample) standard deviation
+function meanSd(xs: number[]): { mean: number; sd: number | null } {
+  if (!xs.length) return { mean: 0, sd: null };
+  const mean = xs.reduce((a, b) => a + b, 0) / xs.length;
+  if (xs.length < 2) return { mean, sd: null };
+  const v = xs.reduce((a, x) => a + (x - mean) ** 2, 0) / (xs.length - 1);
+  return { mean, sd: Math.sqrt(v) };
+}
+
+/**
+ * Forecast the month-end total of a month, per category. Costs up to `today` are "spent"; recurring
+ * occurrences and costs already entered after today are "scheduled". Day-to-day (non-recurring) spending
+ * for the remaining days follows a daily pace that blends this month's pace with the previous
+ * HISTORY_MONTHS months, shifting towards this month as it progresses. The band is the pace ± the spread
+ * of the previous months' daily paces.
+ */
+export async function getMonthForecast(
+  year: number,
+  month: number,
+  currency: Currency,
+  rateMode: RateMode = 'historical',
+  today: string = todayKey()
+): Promise<MonthForecast> {
+  const range = monthRange(year, month);
+  const daysIn = Number(range.to.slice(8));
+  const elapsed = today < range.from ? 0 : today > range.to ? daysIn : Number(today.slice(8));
+  const remaining = daysIn - elapsed;
+  const toTarget = await costConverter(currency, rateMode);
+
+  const cats = new Map<string, Acc>();
+  const acc = (name: string) => {
+    let a = cats.get(name);
+    if (!a) cats.set(name, (a = { spent: 0, variable: 0, scheduled: 0, history: [] }));
+    return a;
+  };
+  // Spend per day of month (index 1..daysIn): actual up to today, scheduled after
+  const spentByDay = new Array<number>(daysIn + 1).fill(0);
+  const scheduledByDay = new Array<number>(daysIn + 1).fill(0);
+
+  // This month's costs
+  await forEachCost(range, (c) => {
+    const amount = toTarget(c);
+    if (amount == null) return; // no rate for its currency: left out (the app shell warns)
+    const a = acc(c.category);
+    if (c.Date.day <= elapsed) {
+      a.spent += amount;
+      if (c.recurringId == null) a.variable += amount;
+      spentByDay[c.Date.day] += amount;
+    } else {
+      a.scheduled += amount;
+      scheduledByDay[c.Date.day] += amount;
+    }
+  });
+
+  // Recurring occurrences still to come this month (not generated yet)
+  const after = elapsed ? partsToDayKey(year, month, elapsed) : '';
+  for (const t of await listRecurring()) {
+    if (t.paused) continue;
+    for (let n = t.handled; ; n++) {
+      const day = occurrenceDate(t, n);
+      if (day > range.to || (t.endDate && day > t.endDate)) break;
+      if (day < range.from || day <= after || t.skipped.includes(day)) continue;
+      const [y, m, d] = day.split('-').map(Number);
+      const occurrence: StoredCost = { sum: t.sum, currency: t.currency, category: t.category, Date: { year: y, month: m, day: d } };
+      const amount = toTarget(occurrence);
+      if (amount == null) continue;
+      acc(t.category).scheduled += amount;
+      scheduledByDay[d] += amount;
+    }
+  }
+
+  // Previous months: non-recurring spend per category per month
+  const first = new Date(year, month - 1 - HISTORY_MONTHS, 1);
+  const last = new Date(year, month - 1, 0);
+  const histFrom = partsToDayKey(first.getFullYear(), first.getMonth() + 1, 1);
+  const histTo = partsToDayKey(last.getFullYear(), last.getMonth() + 1, last.getDate());
+  const byMonth = new Map<string, Map<string, number>>();
+  await forEachCost({ from: histFrom, to: histTo }, (c) => {
+    const key = `${c.Date.year}-${c.Date.month}`;
+    let m = byMonth.get(key);
+    if (!m) byMonth.set(key, (m = new Map()));
+    if (c.recurringId != null) return; // the month still counts as history
+    const amount = toTarget(c);
+    if (amount != null) m.set(c.category, (m.get(c.category) || 0) + amount);
+  });
+  const histMonths = Array.from(byMonth.entries()).map(([key, totals]) => {
+    const [y, m] = key.split('-').map(Number);
+    return { days: new Date(y, m, 0).getDate(), totals };
+  });
+  for (const h of histMonths) for (const name of h.totals.keys()) acc(name);
+  for (const [name, a] of cats) a.history = histMonths.map((h) => (h.totals.get(name) || 0) / h.days);
+
+  // Per-category projection
+  const weight = elapsed / daysIn;
+  let rate = 0, lowRate = 0, highRate = 0;
+  const categories: CategoryForecast[] = [];
+  for (const [name, a] of cats) {
+    const hist = meanSd(a.history);
+    const pace = elapsed ? a.variable / elapsed : 0;
+    const r = !histMonths.length ? pace : !elapsed ? hist.mean : weight * pace + (1 - weight) * hist.mean;
+    const spread = hist.sd ?? r * DEFAULT_SPREAD;
+    const rLow = Math.max(0, r - spread), rHigh = r + spread;
+    rate += r; lowRate += rLow; highRate += rHigh;
+    const base = a.spent + a.scheduled;
+    const row = {
+      category: name,
+      spent: roundAmount(a.spent, currency),
+      scheduled: roundAmount(a.scheduled, currency),
+      projected: roundAmount(base + r * remaining, currency),
+      low: roundAmount(base + rLow * remaining, currency),
+      high: roundAmount(base + rHigh * remaining, currency),
+    };
+    if (row.projected || row.high) categories.push(row);
+  }
+  categories.sort((x, y) => y.projected - x.projected || x.category.localeCompare(y.category));
+
+  // Cumulative series: actual through today, projection from today (or the 1st) to month end
+  const points: ForecastPoint[] = [];
+  let cum = 0, sched = 0;
+  for (let d = 1; d <= daysIn; d++) {
+    if (d <= elapsed) cum += spentByDay[d];
+    else sched += scheduledByDay[d];
+    const ahead = Math.max(0, d - elapsed);
+    const project = d >= elapsed;
+    points.push({
+      day: partsToDayKey(year, month, d),
+      actual: d <= elapsed ? roundAmount(cum, currency) : null,
+      projected: project ? roundAmount(cum + sched + rate * ahead, currency) : null,
+      band: project ? [roundAmount(cum + sched + lowRate * ahead, currency), roundAmount(cum + sched + highRate * ahead, currency)] : null,
+    });
+  }
+
+  const sum = (k: 'spent' | 'projected' | 'low' | 'high') => roundAmount(categories.reduce((s, c) => s + c[k], 0), currency);
+  return {
+    range,
+    elapsedDays: elapsed,
+    historyMonths: histMonths.length,
+    spent: sum('spent'),
+    projected: sum('projected'),
+    low: sum('low'),
+    high: sum('high'),
+    categories,
+    points,
+  };
+}
+
+/** Trailing average over `window` buckets (including the current one); null until the window is full */
+export function rollingAverage(totals: number[], window: number): (number | null)[] {
+  let acc = 0;
+  return totals.map((t, i) => {
+    acc += t;
+    if (i >= window) acc -= totals[i - window];
+    return i + 1 >= window ? acc / window : null;
+  });
+}
+
+/**
+ * Rolling average of monthly totals for the months of a range, keyed YYYY-MM. The window reaches back
+ * before the range so the first months have a full window too; months without costs count as zero.
+ */
+export async function getRollingMonthAverage(
+  range: DateRange,
+  window: number,
+  currency: Currency,
+  rateMode: RateMode = 'historical'
+): Promise<Map<string, number>> {
+  const start = fromDayKey(range.from);
+  start.setDate(1);
+  start.setMonth(start.getMonth() - (window - 1));
+  const totals = await getRangeBucketTotals({ from: toDayKey(start), to: range.to }, 'month', currency, rateMode);
+  const avg = rollingAverage(totals.map((t) => t.total), window);
+  const out = new Map<string, number>();
+  totals.forEach((t, i) => { if (avg[i] != null) out.set(t.key, roundAmount(avg[i]!, currency)); });
+  return out;
+}
@@ -0,0 +1,78 @@
+/**
+ * UI language: message catalogs (English, Hebrew), the text direction and the locale that Intl formatting uses
+ * (amounts in ./currencies, days and month names in ./ranges). The choice is kept in LocalStorage.
+ */
+import en, { MessageKey } from '../locales/en';
+import he from '../locales/he';
+
+export type Language = 'en' | 'he';
+export type { MessageKey };
+
+export const LANGUAGES: { value: Language; label: string; locale: string; dir: 'ltr' | 'rtl' }[] = [
+  { value: 'en', label: 'English', locale: 'en-US', dir: 'ltr' },
+  { value: 'he', label: 'עברית', locale: 'he-IL', dir: 'rtl' },
+];
+
+// LocalStorage key for the chosen language
+const LS_LANGUAGE_KEY = 'language';
+
+const CATALOGS: Record<Language, Partial<Record<MessageKey, string>>> = { en, he };
+
+let language: Language | null = null; // read lazily (LocalStorage, else the browser's language)
+
+/** The UI language: the stored choice, else Hebrew for Hebrew browsers and English otherwise */
+export function getLanguage(): Language {
+  if (!language) {
+    const stored = localStorage.getItem(LS_LANGUAGE_KEY);
+    language = LANGUAGES.some((l) => l.value === stored) ? stored as Language
+      : typeof navigator !== 'undefined' && /^(he|iw)\b/i.test(navigator.language) ? 'he' : 'en';
+  }
+  return language;
+}
+
+const info = () => LANGUAGES.find((l) => l.value === getLanguage())!;
+
+/** BCP 47 locale of the UI language (for Intl) */
+export function getLocale(): string {
+  return info().locale;
+}
+
+/** Text direction of the UI language */
+export function getDirection(): 'ltr' | 'rtl' {
+  return info().dir;
+}
+
+/** Put the language and direction on <html> (screen readers, native inputs, the scrollbar side) */
+export function applyDocumentLanguage() {
+  document.documentElement.lang = getLanguage();
+  document.documentElement.dir = getDirection();
+}
+
+/** Switch the UI language: store it, update <html> and notify (the app shell re-renders on language:changed) */
+export function setLanguage(l: Language) {
+  language = l;
+  localStorage.setItem(LS_LANGUAGE_KEY, l);
+  applyDocumentLanguage();
+  window.dispatchEvent(new CustomEvent('language:changed'));
+}
+
+/** A message in the UI language (English when the catalog lacks it), with {name} placeholders filled in */
+export function t(key: MessageKey, params?: Record<string, string | number>): string {
+  const text = CATALOGS[getLanguage()][key] ?? en[key];
+  return params ? text.replace(/\{(\w+)\}/g, (m, name) => (name in params ? String(params[name]) : m)) : text;
+}
+
+/** Keys with plural forms: `<key>_one` / `<key>_two` / `<key>_other` (as Intl.PluralRules names them) */
+export type PluralKey = MessageKey extends infer K ? K extends `${infer Base}_other` ? Base : never : never;
+
+/** A counted message ({n} is the count), in the plural form the UI language uses for `n` */
+export function tn(key: PluralKey, n: number, params?: Record<string, string | number>): string {
+  const form = `${key}_${new Intl.PluralRules(getLocale()).select(n)}` as MessageKey;
+  const catalog = CATALOGS[getLanguage()];
+  return t(form in catalog || form in en ? form : `${key}_other` as MessageKey, { n, ...params });
+}
+
+/** A message that may have plural forms: counted by its {n} parameter when it has them */
+export function tm(key: MessageKey | PluralKey, params: Record<string, string | number> = {}): string {
+  return `${key}_other` in en && typeof params.n === 'number' ? tn(key as PluralKey, params.n, params) : t(key as MessageKey, params);
+}
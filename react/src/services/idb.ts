@@ -1,9 +1,18 @@
 //  IndexedDB wrapper for the React app: addCost, monthly report, chart helpers.
-//  DB name: "costsDB"
-//  We convert sums to the target currency at read time using session rates.
-
-import { convert, getCachedSessionRates, setInlineRates, normalizeRates } from './currency';
-import type { Report as UiReport, Currency, Rates } from '../types';
+//  DB name: "costsDB" (first wallet; other wallets get their own "costsDB-<id>", see ./wallets)
+//  Reads go through the by_date index with IDBKeyRange + cursors; chart totals come from a
+//  per-month aggregates cache that every write keeps up to date (or invalidates).
+//  Every cost write (and inline rate change) is recorded in the append-only audit store; undo/redo is in ./audit.
+//  Local cost writes also stamp the record for sync (uid, updatedAt, dirty) and deletes leave tombstones; see ./sync.
+//  We convert sums to the target currency at read time, either with the rate snapshot
+//  closest to each cost's date ("historical") or with the current session rates ("today").
+
+import { convert, getCachedSessionRates } from './currency';
+import { normalizeCode, roundAmount } from './currencies';
+import type { Report as UiReport, Budget, Category, RecurringTemplate, Currency, Rates, RatesSnapshot, RateMode, DateRange, Bucket, RangeReport, RatesState } from '../types';
+import { t, MessageKey, PluralKey } from './i18n';
+import { monthRange, yearRange, bucketKey, rangeBuckets } from './ranges';
+import { runMigrations, DB_VERSION } from './migrations';
 
 // Cost record shape for IndexedDB
 export interface StoredCost {
@@ -14,40 +23,80 @@ export interface StoredCost {
   description?: string;
   Date: { year: number; month: number; day: number };
   dateISO?: string;
+  recurringId?: number; // set on costs generated from a recurring template
+  tags?: string[]; // free labels across categories (multiEntry index by_tag)
+  uid?: string; // sync id, the same on every device (index by_uid); ids are per DB
+  updatedAt?: number; // version: ms timestamp of the last change
+  dirty?: 1; // changed locally, not pushed yet (index by_dirty)
 }
 
-// DB name and store constants
+// DB name, version (the last migration step, see ./migrations) and store constants
 const DB_NAME = 'costsDB';
+export { DB_VERSION };
 const STORE = 'costs';
-
-// Promise for DB instance (singleton)
-let dbPromise: Promise<IDBDatabase> | null = null;
-
-// Open DB and create stores if needed
-export function openCostsDB(name: string = DB_NAME, version: number = 1): Promise<IDBDatabase> {
+const META = 'meta';
+export const BUDGETS_STORE = 'budgets';
+export const RECURRING_STORE = 'recurring';
+export const CATEGORIES_STORE = 'categories';
+export const AGGREGATES_STORE = 'aggregates';
+export const AUDIT_STORE = 'audit';
+export const TOMBSTONES_STORE = 'tombstones';
+export const COSTS_STORE = STORE;
+export const META_STORE = META;
+export const MAIN_DB_NAME = DB_NAME; // first wallet; also keeps the shared rates history and wallet list
+const RATES_HISTORY_KEY = 'ratesHistory';
+const LAST_GOOD_RATES_KEY = 'lastGoodRates';
+const AUDIT_STACKS_KEY = 'auditStacks';
+
+// Open connections by DB name (one per wallet), and the DB of the active wallet
+const dbPromises = new Map<string, Promise<IDBDatabase>>();
+let activeName = DB_NAME;
+
+// Open DB (one shared connection per name); opening an older DB runs the schema migrations first
+export function openCostsDB(name: string = DB_NAME, version: number = DB_VERSION): Promise<IDBDatabase> {
+  let dbPromise = dbPromises.get(name);
   if (!dbPromise) {
     dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
       const req = indexedDB.open(name, version);
-      req.onupgradeneeded = () => {
-        const db = req.result;
-        if (!db.objectStoreNames.contains(STORE)) {
-          const s = db.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
-          s.createIndex('by_date', ['Date.year', 'Date.month', 'Date.day']);
-        }
-        if (!db.objectStoreNames.contains('meta')) {
-          db.createObjectStore('meta', { keyPath: 'key' });
-        }
+      req.onupgradeneeded = (e) => {
+        // a failed step aborts the upgrade, and open fails with req.onerror
+        runMigrations(req.result, req.transaction!, e.oldVersion, e.newVersion ?? version).catch(() => {});
       };
       req.onsuccess = () => resolve(req.result);
-      req.onerror = () => reject(req.error);
+      req.onerror = () => { dbPromises.delete(name); reject(req.error); };
     });
+    dbPromises.set(name, dbPromise);
   }
   return dbPromise;
 }
 
-// Get DB instance (open if not already)
-async function getDB(): Promise<IDBDatabase> {
-  return dbPromise ?? openCostsDB();
+/** Close a DB's shared connection (before deleting it); the next open starts a new one */
+export async function closeCostsDB(name: string): Promise<void> {
+  const p = dbPromises.get(name);
+  if (!p) return;
+  dbPromises.delete(name);
+  (await p.catch(() => null))?.close();
+}
+
+// Get the active wallet's DB instance (open if not already)
+export async function getDB(): Promise<IDBDatabase> {
+  return openCostsDB(activeName);
+}
+
+/** The first wallet's DB: also holds what every wallet shares (rates history, the wallet list) */
+export async function getMainDB(): Promise<IDBDatabase> {
+  return openCostsDB(DB_NAME);
+}
+
+/** Point getDB() at another DB (wallet switch); callers reload their views */
+export function setActiveDB(name: string) {
+  activeName = name;
+  if (unconverted.size) { unconverted.clear(); notifyUnconverted(); } // the other wallet's reads note their own
+}
+
+/** Name of the DB getDB() opens */
+export function activeDBName(): string {
+  return activeName;
 }
 
 // Utility: today's date as {year, month, day}
@@ -56,42 +105,432 @@ function today(): { year: number; month: number; day: number } {
   return { year: d.getFullYear(), month: d.getMonth() + 1, day: d.getDate() };
 }
 
-// Add a cost record to DB
-export async function addCost(input: {
+// Utility: {year, month, day} from an ISO date string (falls back to today)
+function dateFromISO(iso?: string): { year: number; month: number; day: number } {
+  if (!iso) return today();
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return today();
+  return { year: d.getFullYear(), month: d.getMonth() + 1, day: d.getDate() };
+}
+
+/** Stored dateISO for a calendar date: local noon, so the day survives any time-zone shift of the ISO string */
+export function noonISO(d: { year: number; month: number; day: number }): string {
+  return new Date(d.year, d.month - 1, d.day, 12).toISOString();
+}
+
+// Utility: resolve when a transaction completes (shared with the other store services)
+export function txDone(tx: IDBTransaction): Promise<void> {
+  return new Promise<void>((res, rej) => {
+    tx.oncomplete = () => res();
+    tx.onerror = () => rej(tx.error);
+    tx.onabort = () => rej(tx.error);
+  });
+}
+
+// Notify mounted views (report, pie, bar) that cost records changed
+export function notifyCostsChanged() {
+  window.dispatchEvent(new CustomEvent('costs:changed'));
+}
+
+/* ---- Monthly aggregates cache ---- */
+// Unconverted sums of one month: day ("DD") -> currency -> category -> sum. Conversion stays at read time,
+// so both rate modes (and any report currency) can use the same cache.
+interface MonthAggregate {
+  month: string; // "YYYY-MM"
+  count: number;
+  sums: Record<string, Record<Currency, Record<string, number>>>;
+}
+
+/** A cost added (+1) or removed (-1) by a write, for applyAggregateChanges */
+export interface AggregateChange { cost: StoredCost; sign: 1 | -1; }
+
+// Utility: "YYYY-MM" of a stored cost
+function costMonthKey(c: StoredCost): string {
+  return `${c.Date.year}-${String(c.Date.month).padStart(2, '0')}`;
+}
+
+// Add one cost (sign -1: remove it) to a month aggregate
+function addToAggregate(agg: MonthAggregate, c: StoredCost, sign: 1 | -1) {
+  const day = String(c.Date.day).padStart(2, '0');
+  const byCurrency = (agg.sums[day] ??= {});
+  const byCategory = (byCurrency[c.currency] ??= {});
+  byCategory[c.category] = (byCategory[c.category] ?? 0) + sign * Number(c.sum || 0);
+  agg.count += sign;
+}
+
+/**
+ * Apply cost changes to the cached months, inside the caller's write transaction (which must include
+ * the aggregates store). Months not cached yet are left alone: they are built from the index on first read.
+ */
+export function applyAggregateChanges(tx: IDBTransaction, changes: AggregateChange[]) {
+  const byMonth = new Map<string, AggregateChange[]>();
+  for (const ch of changes) {
+    const key = costMonthKey(ch.cost);
+    byMonth.set(key, [...(byMonth.get(key) ?? []), ch]);
+  }
+  const store = tx.objectStore(AGGREGATES_STORE);
+  for (const [month, list] of byMonth) {
+    const rq = store.get(month);
+    rq.onsuccess = () => {
+      const agg = rq.result as MonthAggregate | undefined;
+      if (!agg) return;
+      for (const ch of list) addToAggregate(agg, ch.cost, ch.sign);
+      store.put(agg);
+    };
+  }
+}
+
+/** Drop cached months (all of them by default) after bulk rewrites; they are rebuilt on the next read */
+export function clearAggregates(tx: IDBTransaction, months?: string[]) {
+  const store = tx.objectStore(AGGREGATES_STORE);
+  if (!months) store.clear();
+  else for (const m of months) store.delete(m);
+}
+
+/* ---- Sync bookkeeping (protocol in ./sync) ---- */
+/** A deleted cost, kept so the delete can be pushed and older remote edits do not bring it back */
+export interface Tombstone { uid: string; deletedAt: number; dirty?: 1; }
+
+/** New random sync id (RFC 4122 v4; crypto.randomUUID needs a secure context, getRandomValues does not) */
+export function newUid(): string {
+  const b = crypto.getRandomValues(new Uint8Array(16));
+  b[6] = (b[6] & 0x0f) | 0x40;
+  b[8] = (b[8] & 0x3f) | 0x80;
+  const h = Array.from(b, (x) => x.toString(16).padStart(2, '0')).join('');
+  return `${h.slice(0, 8)}-${h.slice(8, 12)}-${h.slice(12, 16)}-${h.slice(16, 20)}-${h.slice(20)}`;
+}
+
+// Next version time: now, but always after the version it replaces (clocks of other devices may be ahead)
+function nextVersion(prev?: number): number {
+  return Math.max(Date.now(), (prev ?? 0) + 1);
+}
+
+/** A cost as a local change writes it: a sync id if it has none, a new version and the push-pending mark */
+export function touchCost<T extends StoredCost>(c: T): T {
+  return { ...c, uid: c.uid ?? newUid(), updatedAt: nextVersion(c.updatedAt), dirty: 1 };
+}
+
+/**
+ * Leave tombstones for locally deleted costs, inside the caller's write transaction (which must include
+ * the tombstones store). Records from before sync existed have no uid and need none.
+ */
+export function recordTombstones(tx: IDBTransaction, deleted: StoredCost[]) {
+  const store = tx.objectStore(TOMBSTONES_STORE);
+  for (const c of deleted) {
+    if (!c.uid) continue;
+    const t: Tombstone = { uid: c.uid, deletedAt: nextVersion(c.updatedAt), dirty: 1 };
+    store.put(t);
+  }
+}
+
+/* ---- Categories of written records (management in ./categories) ---- */
+/** Case-insensitive key for a category name */
+export function categoryKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+// HSL (degrees, 0-1, 0-1) -> #rrggbb, so colours work with <input type="color">
+function hslToHex(h: number, sat: number, l: number): string {
+  const a = sat * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const c = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(c * 255).toString(16).padStart(2, '0');
+  };
+  return `#${f(0)}${f(8)}${f(4)}`;
+}
+
+/** Stable default colour derived from the name (same name -> same colour, every month) */
+export function defaultCategoryColor(name: string): string {
+  let h = 0;
+  for (const ch of categoryKey(name)) h = (h * 31 + ch.charCodeAt(0)) >>> 0;
+  return hslToHex(h % 360, 0.65, 0.5);
+}
+
+/**
+ * Register the categories of written cost records that the categories store lacks (default colour and icon),
+ * inside the caller's write transaction (which must include the categories store). Every writer of costs calls
+ * this, so the store always lists every category in use. `categories:changed` fires after the commit.
+ */
+export function registerCategories(tx: IDBTransaction, names: Iterable<string>) {
+  const wanted = new Map<string, string>(); // key -> first spelling
+  for (const raw of names) {
+    const name = raw.trim();
+    if (name && !wanted.has(categoryKey(name))) wanted.set(categoryKey(name), name);
+  }
+  const store = tx.objectStore(CATEGORIES_STORE);
+  let added = false;
+  for (const [key, name] of wanted) {
+    const rq = store.index('by_key').getKey(key);
+    rq.onsuccess = () => {
+      if (rq.result !== undefined) return;
+      const cat: Category = { name, key, color: defaultCategoryColor(name), icon: 'label' };
+      store.add(cat);
+      if (!added) tx.addEventListener('complete', () => window.dispatchEvent(new CustomEvent('categories:changed')));
+      added = true;
+    };
+  }
+}
+
+/* ---- Audit log (append-only; undo/redo in ./audit) ---- */
+/** Kind of a recorded change; "undo"/"redo" entries re-apply the before/after state of an earlier entry */
+export type AuditOp = 'add' | 'update' | 'delete' | 'import' | 'rates' | 'undo' | 'redo';
+
+/**
+ * What a change touched: cost records (with ids) as they were / became; an id missing on one side did not exist there.
+ * Category renames and merges also carry the categories, budgets and recurring templates they changed.
+ */
+export interface AuditState {
+  costs: StoredCost[];
+  rates?: RatesState;
+  categories?: Category[];
+  budgets?: Budget[];
+  recurring?: RecurringTemplate[];
+}
+
+/**
+ * What an entry did, as an `audit.*` message and its parameters: put into words in the UI language when shown
+ * (auditSummary in ./audit). A cost is given as its category, sum and currency.
+ */
+export interface AuditMessage { key: AuditMessageKey; params?: Record<string, string | number>; }
+
+export type AuditMessageKey = Extract<MessageKey | PluralKey, `audit.${string}`>;
+
+/** One entry of the audit store */
+export interface AuditEntry {
+  id?: number;
+  at: string; // ISO timestamp
+  op: AuditOp;
+  message?: AuditMessage; // undo/redo: the message of the target
+  summary?: string; // entries recorded before messages: English text
+  before: AuditState;
+  after: AuditState;
+  target?: number; // undo/redo: the entry that was undone or redone
+}
+
+/** Ids of the entries that can be undone / redone (last = next), kept in the meta store */
+export interface AuditStacks { undo: number[]; redo: number[]; }
+
+/** Detail of the `audit:changed` event: the new entry and the DB (wallet) it was written to */
+export interface AuditEvent { entry: AuditEntry; db: string; }
+
+// Operations that can be undone, counting back from the latest
+export const UNDO_DEPTH = 50;
+
+// A new change: it becomes the next undo, and whatever was undone before can no longer be redone
+function pushUndo(s: AuditStacks, id: number): AuditStacks {
+  return { undo: [...s.undo, id].slice(-UNDO_DEPTH), redo: [] };
+}
+
+/**
+ * Append an audit entry inside the caller's write transaction (which must include the audit and meta stores)
+ * and update the undo/redo stacks. `build` runs once every request issued before this call has succeeded, so it
+ * can read their results (e.g. new ids); returning null records nothing. `audit:changed` fires after the commit.
+ */
+export function recordAudit(
+  tx: IDBTransaction,
+  build: () => Omit<AuditEntry, 'at'> | null,
+  stacks: (s: AuditStacks, id: number) => AuditStacks = pushUndo
+) {
+  const log = tx.objectStore(AUDIT_STORE);
+  // Requests complete in order: this one succeeds after every earlier request of the transaction
+  const marker = log.count();
+  marker.onsuccess = () => {
+    const data = build();
+    if (!data) return;
+    const entry: AuditEntry = { ...data, at: new Date().toISOString() };
+    const rq = log.add(entry);
+    rq.onsuccess = () => {
+      entry.id = rq.result as number;
+      const meta = tx.objectStore(META);
+      const cur = meta.get(AUDIT_STACKS_KEY);
+      cur.onsuccess = () => {
+        const prev: AuditStacks = cur.result?.value ?? { undo: [], redo: [] };
+        meta.put({ key: AUDIT_STACKS_KEY, value: stacks(prev, entry.id!) });
+      };
+    };
+    tx.addEventListener('complete', () => window.dispatchEvent(new CustomEvent<AuditEvent>('audit:changed', { detail: { entry, db: tx.db.name } })));
+  };
+}
+
+/** Record a change made outside a cost transaction (inline rates) in the active wallet's log */
+export async function logAudit(data: Omit<AuditEntry, 'at'>): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction([AUDIT_STORE, META], 'readwrite');
+  recordAudit(tx, () => data);
+  await txDone(tx);
+}
+
+/** Read the undo/redo stacks of a DB's log */
+export async function getAuditStacks(db: IDBDatabase): Promise<AuditStacks> {
+  const rq = db.transaction(META, 'readonly').objectStore(META).get(AUDIT_STACKS_KEY);
+  return new Promise((res, rej) => {
+    rq.onsuccess = () => res(rq.result?.value ?? { undo: [], redo: [] });
+    rq.onerror = () => rej(rq.error);
+  });
+}
+
+// Utility: audit message about one cost
+function costMessage(key: 'audit.add' | 'audit.update' | 'audit.delete', c: StoredCost): AuditMessage {
+  return { key, params: { category: c.category, sum: c.sum, currency: c.currency } };
+}
+
+// Input accepted by addCost/updateCost
+export interface CostInput {
   sum: number;
   currency: Currency;
   category: string;
   description?: string;
   dateISO?: string;
-}) {
+  tags?: string[];
+}
+
+/** Tags as stored: trimmed, lower-case, no leading "#", no duplicates or blanks */
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+  const out = tags.map((t) => String(t ?? '').trim().replace(/^#+/, '').toLowerCase()).filter(Boolean);
+  return Array.from(new Set(out));
+}
+
+// Add a cost record to DB
+export async function addCost(input: CostInput) {
   const db = await getDB();
-  const tx = db.transaction(STORE, 'readwrite');
+  const tx = db.transaction([STORE, AGGREGATES_STORE, CATEGORIES_STORE, AUDIT_STORE, META], 'readwrite');
   const store = tx.objectStore(STORE);
 
   // Parse date from input or use today
-  const dateRec =
-    input.dateISO
-      ? (() => {
-          const d = new Date(input.dateISO!);
-          return { year: d.getFullYear(), month: d.getMonth() + 1, day: d.getDate() };
-        })()
-      : today();
+  const dateRec = dateFromISO(input.dateISO);
 
   // Build cost item
-  const item: StoredCost = {
+  const item: StoredCost = touchCost({
     sum: Number(input.sum || 0),
-    currency: input.currency,
+    currency: normalizeCode(input.currency),
     category: input.category,
     description: input.description ?? '',
     Date: dateRec,
-    dateISO: input.dateISO,
+    dateISO: noonISO(dateRec),
+    tags: normalizeTags(input.tags),
+  });
+
+  const rq = store.add(item as any);
+  applyAggregateChanges(tx, [{ cost: item, sign: 1 }]);
+  registerCategories(tx, [item.category]);
+  recordAudit(tx, () => ({
+    op: 'add', message: costMessage('audit.add', item),
+    before: { costs: [] }, after: { costs: [{ ...item, id: rq.result as number }] },
+  }));
+  await txDone(tx);
+  notifyCostsChanged();
+}
+
+// Add many cost records in one transaction (used by the CSV import); returns the count added
+export async function addCosts(inputs: CostInput[]): Promise<number> {
+  const db = await getDB();
+  const tx = db.transaction([STORE, AGGREGATES_STORE, CATEGORIES_STORE, AUDIT_STORE, META], 'readwrite');
+  const store = tx.objectStore(STORE);
+  const changes: AggregateChange[] = [];
+  const added: IDBRequest[] = [];
+  for (const input of inputs) {
+    const date = dateFromISO(input.dateISO);
+    const item: StoredCost = touchCost({
+      sum: Number(input.sum || 0),
+      currency: normalizeCode(input.currency),
+      category: input.category,
+      description: input.description ?? '',
+      Date: date,
+      dateISO: noonISO(date),
+      tags: normalizeTags(input.tags),
+    });
+    added.push(store.add(item as any));
+    changes.push({ cost: item, sign: 1 });
+  }
+  applyAggregateChanges(tx, changes);
+  registerCategories(tx, changes.map((ch) => ch.cost.category));
+  if (inputs.length) {
+    recordAudit(tx, () => ({
+      op: 'import', message: { key: 'audit.csv', params: { n: inputs.length } },
+      before: { costs: [] }, after: { costs: changes.map((ch, i) => ({ ...ch.cost, id: added[i].result as number })) },
+    }));
+  }
+  await txDone(tx);
+  if (inputs.length) notifyCostsChanged();
+  return inputs.length;
+}
+
+// Get a single stored cost record by id
+export async function getCost(id: number): Promise<StoredCost | undefined> {
+  const db = await getDB();
+  const tx = db.transaction(STORE, 'readonly');
+  const store = tx.objectStore(STORE);
+  return new Promise((res, rej) => {
+    const rq = store.get(id);
+    rq.onsuccess = () => res(rq.result as StoredCost | undefined);
+    rq.onerror = () => rej(rq.error);
+  });
+}
+
+// Replace the editable fields of an existing cost record
+export async function updateCost(id: number, input: CostInput) {
+  const db = await getDB();
+  const tx = db.transaction([STORE, AGGREGATES_STORE, CATEGORIES_STORE, AUDIT_STORE, META], 'readwrite');
+  const store = tx.objectStore(STORE);
+
+  let change: { prev: StoredCost; item: StoredCost } | null = null;
+  const rq = store.get(id);
+  rq.onsuccess = () => {
+    const prev = rq.result as StoredCost | undefined;
+    if (!prev) {
+      tx.abort();
+      return;
+    }
+    // Keep the stored date unless a new one was given
+    const item: StoredCost = touchCost({
+      ...prev,
+      sum: Number(input.sum || 0),
+      currency: normalizeCode(input.currency),
+      category: input.category,
+      description: input.description ?? '',
+      Date: input.dateISO ? dateFromISO(input.dateISO) : prev.Date,
+      dateISO: input.dateISO ? noonISO(dateFromISO(input.dateISO)) : prev.dateISO ?? noonISO(prev.Date),
+      tags: input.tags ? normalizeTags(input.tags) : prev.tags,
+    });
+    store.put(item as any);
+    applyAggregateChanges(tx, [{ cost: prev, sign: -1 }, { cost: item, sign: 1 }]);
+    registerCategories(tx, [item.category]);
+    change = { prev, item };
   };
+  recordAudit(tx, () => change && {
+    op: 'update', message: costMessage('audit.update', change.prev),
+    before: { costs: [change.prev] }, after: { costs: [change.item] },
+  });
 
-  store.add(item as any);
-  await new Promise<void>((res, rej) => {
-    tx.oncomplete = () => res();
-    tx.onerror = () => rej(tx.error);
+  try {
+    await txDone(tx);
+  } catch (e) {
+    throw rq.result ? e : new Error(t('errors.costNotFound', { id }));
+  }
+  notifyCostsChanged();
+}
+
+// Delete a cost record by id
+export async function deleteCost(id: number) {
+  const db = await getDB();
+  const tx = db.transaction([STORE, AGGREGATES_STORE, AUDIT_STORE, META, TOMBSTONES_STORE], 'readwrite');
+  const store = tx.objectStore(STORE);
+  const rq = store.get(id);
+  rq.onsuccess = () => {
+    const prev = rq.result as StoredCost | undefined;
+    if (!prev) return;
+    store.delete(id);
+    recordTombstones(tx, [prev]);
+    applyAggregateChanges(tx, [{ cost: prev, sign: -1 }]);
+  };
+  recordAudit(tx, () => {
+    const prev = rq.result as StoredCost | undefined;
+    return prev ? { op: 'delete', message: costMessage('audit.delete', prev), before: { costs: [prev] }, after: { costs: [] } } : null;
   });
+  await txDone(tx);
+  notifyCostsChanged();
 }
 
 // Get current session rates (from currency service)
@@ -99,44 +538,359 @@ function sessionRates(): Rates | null {
   return getCachedSessionRates();
 }
 
-// Convert value using rates (or return original if missing)
-function conv(v: number, from: Currency, to: Currency, r: Rates | null) {
-  if (!r || from === to) return v;
-  const x = convert(v, from, to, r as Rates); // r checked above
-  return Number.isFinite(x) ? x : v;
+// Convert value using rates; null when the rate set lacks either currency (never the amount at face value)
+function conv(v: number, from: Currency, to: Currency, r: Rates | null): number | null {
+  if (from === to) return v;
+  if (!r) return null;
+  try {
+    const x = convert(v, from, to, r);
+    return Number.isFinite(x) ? x : null;
+  } catch {
+    return null; // currency missing from this rate set
+  }
+}
+
+/* ---- Unconverted currencies ---- */
+// Pairs ("JPY>USD") that no rate set could convert; their costs are left out of converted totals
+const unconverted = new Set<string>();
+
+/** Currencies whose costs are left out of totals in `target`, because no rate set (session or snapshot) has them */
+export function getUnconverted(target: Currency): Currency[] {
+  return Array.from(unconverted).filter((k) => k.endsWith('>' + target)).map((k) => k.split('>')[0]).sort();
+}
+
+function notifyUnconverted() {
+  window.dispatchEvent(new CustomEvent('fx:unconverted'));
+}
+
+function noteUnconverted(from: Currency, to: Currency) {
+  const key = `${from}>${to}`;
+  if (unconverted.has(key)) return;
+  unconverted.add(key);
+  notifyUnconverted();
 }
 
-/** Transform stored record -> UI CostItem expected by src/types (Date only with day) */
-function toUiCost(c: StoredCost, target: Currency, r: Rates | null) {
+// Forget the pairs a (new) rate set converts; pairs still missing are noted again by the next read
+function recheckUnconverted(r: Rates | null) {
+  let changed = false;
+  for (const key of Array.from(unconverted)) {
+    const [from, to] = key.split('>');
+    if (conv(1, from, to, r) != null) { unconverted.delete(key); changed = true; }
+  }
+  if (changed) notifyUnconverted();
+}
+
+// Session rates or custom currencies changed (this module is loaded before any view subscribes)
+if (typeof window !== 'undefined') window.addEventListener('fx:currencies-changed', () => recheckUnconverted(sessionRates()));
+
+/* ---- Meta store (small settings kept next to the data) ---- */
+/** Read a value from the meta store (undefined when not set) */
+export async function getMeta<T>(key: string): Promise<T | undefined> {
+  const db = await getDB();
+  const rq = db.transaction(META, 'readonly').objectStore(META).get(key);
+  return new Promise((res, rej) => {
+    rq.onsuccess = () => res(rq.result?.value as T | undefined);
+    rq.onerror = () => rej(rq.error);
+  });
+}
+
+/** Write a value to the meta store */
+export async function setMeta<T>(key: string, value: T): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(META, 'readwrite');
+  tx.objectStore(META).put({ key, value });
+  await txDone(tx);
+}
+
+/* ---- Rates history (dated snapshots in the main DB's meta store, shared by all wallets) ---- */
+// Utility: local YYYY-MM-DD key for a Date
+function dayKey(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Utility: YYYY-MM-DD key for a stored cost date
+function costDayKey(c: StoredCost): string {
+  const d = c.Date ?? today();
+  return `${d.year}-${String(d.month).padStart(2, '0')}-${String(d.day).padStart(2, '0')}`;
+}
+
+// Read all stored snapshots, sorted by date
+export async function getRatesHistory(): Promise<RatesSnapshot[]> {
+  const db = await getMainDB();
+  const tx = db.transaction(META, 'readonly');
+  const rec: any = await new Promise((res, rej) => {
+    const rq = tx.objectStore(META).get(RATES_HISTORY_KEY);
+    rq.onsuccess = () => res(rq.result);
+    rq.onerror = () => rej(rq.error);
+  });
+  const list: RatesSnapshot[] = Array.isArray(rec?.value) ? rec.value : [];
+  return list.slice().sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Merge snapshots into the stored history (a later snapshot for the same day wins)
+export async function mergeRatesHistory(incoming: RatesSnapshot[]): Promise<void> {
+  const db = await getMainDB();
+  const tx = db.transaction(META, 'readwrite');
+  const store = tx.objectStore(META);
+  const rq = store.get(RATES_HISTORY_KEY);
+  rq.onsuccess = () => {
+    const byDay = new Map<string, RatesSnapshot>();
+    const current: RatesSnapshot[] = Array.isArray(rq.result?.value) ? rq.result.value : [];
+    for (const snap of [...current, ...incoming]) {
+      const prev = byDay.get(snap.date);
+      if (!prev || prev.savedAt <= snap.savedAt) byDay.set(snap.date, snap);
+    }
+    const value = Array.from(byDay.values()).sort((a, b) => a.date.localeCompare(b.date));
+    store.put({ key: RATES_HISTORY_KEY, value });
+  };
+  await txDone(tx);
+  for (const snap of incoming) recheckUnconverted(snap.rates);
+}
+
+/**
+ * Record a rate set as today's snapshot and as the last good rates (called by the currency service on
+ * every successful fetch / inline save).
+ */
+export async function saveRates(rates: Rates): Promise<void> {
+  const now = new Date();
+  await mergeRatesHistory([{ date: dayKey(now), rates, savedAt: now.toISOString() }]);
+  const db = await getMainDB();
+  const tx = db.transaction(META, 'readwrite');
+  tx.objectStore(META).put({ key: LAST_GOOD_RATES_KEY, value: { rates, savedAt: now.toISOString() } });
+  await txDone(tx);
+}
+
+/** The last rate set that loaded successfully (used when the rates URL cannot be reached) */
+export async function getLastGoodRates(): Promise<{ rates: Rates; savedAt: string } | null> {
+  const db = await getMainDB();
+  const rq = db.transaction(META, 'readonly').objectStore(META).get(LAST_GOOD_RATES_KEY);
+  return new Promise((res, rej) => {
+    rq.onsuccess = () => res(rq.result?.value ?? null);
+    rq.onerror = () => rej(rq.error);
+  });
+}
+
+// Pick the snapshot whose date is closest to `day` (ties go to the earlier one)
+function closestSnapshot(history: RatesSnapshot[], day: string): RatesSnapshot | null {
+  if (!history.length) return null;
+  // Binary search for the first snapshot on/after `day`
+  let lo = 0, hi = history.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (history[mid].date < day) lo = mid + 1; else hi = mid;
+  }
+  const after = history[lo];
+  const before = history[lo - 1];
+  if (!after) return before;
+  if (!before || after.date === day) return after;
+  const t = Date.parse(day);
+  return t - Date.parse(before.date) <= Date.parse(after.date) - t ? before : after;
+}
+
+/** Converts an amount of a day (YYYY-MM-DD); null when no rate set has the currency (noted for the warning) */
+type DayConverter = (v: number, from: Currency, to: Currency, day: string) => number | null;
+
+/**
+ * Conversion for the chosen mode: with the snapshot closest to the day ('historical') or the session rates ('today').
+ * A rate set lacking either currency (partial files, user-added currencies) is replaced by the snapshot nearest in
+ * time that has both, else the session rates; if none has them the amount is left out.
+ */
+async function dayConverter(mode: RateMode): Promise<DayConverter> {
+  const session = sessionRates();
+  const history = await getRatesHistory();
+  const today = dayKey(new Date());
+  // Memoize per day and pair: aggregates and long ranges ask for the same day many times
+  const cache = new Map<string, Rates | null>();
+  const ratesFor = (day: string, from: Currency, to: Currency): Rates | null => {
+    const preferred = mode === 'today' ? session : closestSnapshot(history, day)?.rates ?? session;
+    if (conv(1, from, to, preferred) != null) return preferred;
+    const key = `${day} ${from} ${to}`;
+    if (!cache.has(key)) {
+      const having = history.filter((s) => conv(1, from, to, s.rates) != null);
+      const nearest = closestSnapshot(having, mode === 'today' ? today : day)?.rates;
+      cache.set(key, nearest ?? (conv(1, from, to, session) != null ? session : null));
+    }
+    return cache.get(key)!;
+  };
+  return (v, from, to, day) => {
+    const x = conv(v, from, to, ratesFor(day, from, to));
+    if (x == null) noteUnconverted(from, to);
+    return x;
+  };
+}
+
+/** Transform stored record -> UI CostItem expected by src/types (Date only with day); unconverted: original amount */
+function toUiCost(c: StoredCost, target: Currency, converted: number | null) {
   return {
-    sum: conv(Number(c.sum || 0), c.currency, target, r),
-    currency: target,
+    id: c.id,
+    sum: converted ?? Number(c.sum || 0),
+    currency: converted == null ? c.currency : target,
     category: c.category,
     description: c.description ?? '',
     Date: { day: c.Date?.day ?? 1 },
+    ...(converted == null ? { unconverted: true } : {}),
   };
 }
 
-// Get detailed report for year/month/currency
-export async function getReport(year: number, month: number, currency: Currency): Promise<UiReport> {
-  const r = sessionRates();
+// Sum of the converted rows (unconverted ones are in their own currency and left out)
+function convertedTotal(costs: { sum: number; unconverted?: boolean }[]): number {
+  return costs.reduce((s, c) => s + (c.unconverted ? 0 : Number(c.sum || 0)), 0);
+}
+
+/* ---- Index-backed reads ---- */
+// by_date key range for an inclusive day range (keys are [year, month, day] numbers)
+function dateKeyRange(range: DateRange): IDBKeyRange {
+  const [fy, fm, fd] = range.from.split('-').map(Number);
+  const [ty, tm, td] = range.to.split('-').map(Number);
+  return IDBKeyRange.bound([fy, fm, fd], [ty, tm, td]);
+}
+
+// Stream the costs of a day range (in date order) through the by_date index
+function eachCostInRange(source: IDBObjectStore, range: DateRange, visit: (c: StoredCost) => void): Promise<void> {
+  return new Promise((res, rej) => {
+    const cur = source.index('by_date').openCursor(dateKeyRange(range));
+    cur.onsuccess = () => {
+      const c = cur.result;
+      if (!c) { res(); return; }
+      visit(c.value as StoredCost);
+      c.continue();
+    };
+    cur.onerror = () => rej(cur.error);
+  });
+}
+
+/**
+ * Stream every cost (store order), or only those of a day range (date order, via by_date), to `visit`.
+ * Reads the active wallet unless another wallet's DB is given.
+ */
+export async function forEachCost(range: DateRange | null, visit: (c: StoredCost) => void, from?: IDBDatabase): Promise<void> {
+  const db = from ?? await getDB();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  if (range) return eachCostInRange(store, range, visit);
+  return new Promise((res, rej) => {
+    const cur = store.openCursor();
+    cur.onsuccess = () => {
+      const c = cur.result;
+      if (!c) { res(); return; }
+      visit(c.value as StoredCost);
+      c.continue();
+    };
+    cur.onerror = () => rej(cur.error);
+  });
+}
+
+/**
+ * Converter for read-only views: a stored cost's sum in `target`, with the rates of the chosen mode; null when no
+ * rate set has its currency (leave it out of totals)
+ */
+export async function costConverter(target: Currency, rateMode: RateMode = 'historical'): Promise<(c: StoredCost) => number | null> {
+  const convertDay = await dayConverter(rateMode);
+  return (c) => convertDay(Number(c.sum || 0), c.currency, target, costDayKey(c));
+}
+
+/**
+ * Converter for amounts that are not cost records (budgets): `v` of `from` as of `day` in `target`, with the rates of
+ * the chosen mode; null when no rate set has the pair (noted for the warning, like costs), never the amount at face value
+ */
+export async function amountConverter(target: Currency, rateMode: RateMode = 'historical'): Promise<(v: number, from: Currency, day: string) => number | null> {
+  const convertDay = await dayConverter(rateMode);
+  return (v, from, day) => convertDay(v, from, target, day);
+}
+
+/** Rate sets the costs of a range are converted with, oldest first (date null = current session rates) */
+export async function getRatesUsed(range: DateRange, rateMode: RateMode = 'historical'): Promise<{ date: string | null; rates: Rates }[]> {
+  const session = sessionRates();
+  const history = rateMode === 'historical' ? await getRatesHistory() : [];
+  const used = new Map<string | null, Rates>();
+  await forEachCost(range, (c) => {
+    const snap = closestSnapshot(history, costDayKey(c));
+    if (snap) used.set(snap.date, snap.rates);
+    else if (session) used.set(null, session);
+  });
+  return Array.from(used.entries())
+    .map(([date, rates]) => ({ date, rates }))
+    .sort((a, b) => (a.date ?? '￿').localeCompare(b.date ?? '￿'));
+}
+
+// Read the cost records whose date falls in the range (inclusive), sorted by date
+async function readRange(range: DateRange): Promise<StoredCost[]> {
   const db = await getDB();
   const tx = db.transaction(STORE, 'readonly');
-  const store = tx.objectStore(STORE);
+  const rows: StoredCost[] = [];
+  await eachCostInRange(tx.objectStore(STORE), range, (c) => rows.push(c));
+  return rows;
+}
 
-  // Get all cost records
-  const rows: StoredCost[] = await new Promise((res, rej) => {
-    const rq = store.getAll();
-    rq.onsuccess = () => res((rq.result || []) as StoredCost[]);
+// Month aggregates covering a range; months not cached yet are built from the index and stored
+async function readAggregates(range: DateRange): Promise<MonthAggregate[]> {
+  const months = rangeBuckets(range, 'month');
+  const db = await getDB();
+  const rtx = db.transaction(AGGREGATES_STORE, 'readonly');
+  const cached: MonthAggregate[] = await new Promise((res, rej) => {
+    const rq = rtx.objectStore(AGGREGATES_STORE).getAll(IDBKeyRange.bound(months[0], months[months.length - 1]));
+    rq.onsuccess = () => res((rq.result || []) as MonthAggregate[]);
     rq.onerror = () => rej(rq.error);
   });
+  const have = new Set(cached.map((a) => a.month));
+  const missing = months.filter((m) => !have.has(m));
+  if (!missing.length) return cached;
+
+  // Build missing months in one write transaction, so no cost can be added in between
+  const wtx = db.transaction([STORE, AGGREGATES_STORE], 'readwrite');
+  const costs = wtx.objectStore(STORE);
+  const aggStore = wtx.objectStore(AGGREGATES_STORE);
+  const built = await Promise.all(missing.map(async (month) => {
+    const [y, m] = month.split('-').map(Number);
+    const agg: MonthAggregate = { month, count: 0, sums: {} };
+    await eachCostInRange(costs, monthRange(y, m), (c) => addToAggregate(agg, c, 1));
+    aggStore.put(agg);
+    return agg;
+  }));
+  await txDone(wtx);
+  return [...cached, ...built];
+}
+
+// Converted totals over a range from the aggregates, grouped by keyOf(day, category)
+async function aggregateTotals(
+  range: DateRange,
+  currency: Currency,
+  rateMode: RateMode,
+  keyOf: (day: string, category: string) => string
+): Promise<Map<string, number>> {
+  const [convertDay, aggs] = await Promise.all([dayConverter(rateMode), readAggregates(range)]);
+  const totals = new Map<string, number>();
+  for (const agg of aggs) {
+    for (const [dd, byCurrency] of Object.entries(agg.sums)) {
+      const day = `${agg.month}-${dd}`;
+      if (day < range.from || day > range.to) continue;
+      for (const [from, byCategory] of Object.entries(byCurrency)) {
+        for (const [category, sum] of Object.entries(byCategory)) {
+          if (!sum) continue;
+          const x = convertDay(sum, from, currency, day);
+          if (x == null) continue;
+          const key = keyOf(day, category);
+          totals.set(key, (totals.get(key) || 0) + x);
+        }
+      }
+    }
+  }
+  return totals;
+}
 
-  // Filter by year/month
-  const filtered = rows.filter((c) => c.Date?.year === year && c.Date?.month === month);
+// Get detailed report for year/month/currency
+export async function getReport(
+  year: number,
+  month: number,
+  currency: Currency,
+  rateMode: RateMode = 'historical'
+): Promise<UiReport> {
+  const convertDay = await dayConverter(rateMode);
+  // Only the month's records, via the by_date index
+  const rows = await readRange(monthRange(year, month));
   // Convert to UI format
-  const costs = filtered.map((c) => toUiCost(c, currency, r));
+  const costs = rows.map((c) => toUiCost(c, currency, convertDay(Number(c.sum || 0), c.currency, currency, costDayKey(c))));
   // Calculate total
-  const total = Math.round(costs.reduce((s, c) => s + Number(c.sum || 0), 0) * 100) / 100;
+  const total = roundAmount(convertedTotal(costs), currency);
 
   const report: UiReport = { year, month, costs, total: { currency, total } } as UiReport;
   return report;
@@ -146,73 +900,85 @@ export async function getReport(year: number, month: number, currency: Currency)
 export async function getMonthCategoryTotals(
   year: number,
   month: number,
-  currency: Currency
+  currency: Currency,
+  rateMode: RateMode = 'historical'
 ): Promise<{ name: string; value: number }[]> {
-  const r = sessionRates();
-  const db = await getDB();
-  const tx = db.transaction(STORE, 'readonly');
-  const store = tx.objectStore(STORE);
-
-  // Get all cost records
-  const rows: StoredCost[] = await new Promise((res, rej) => {
-    const rq = store.getAll();
-    rq.onsuccess = () => res((rq.result || []) as StoredCost[]);
-    rq.onerror = () => rej(rq.error);
-  });
-
-  // Filter by year/month
-  const filtered = rows.filter((c) => c.Date?.year === year && c.Date?.month === month);
-  // Aggregate by category
-  const map = new Map<string, number>();
-  for (const c of filtered) {
-    const amount = conv(Number(c.sum || 0), c.currency, currency, r);
-    map.set(c.category, (map.get(c.category) || 0) + amount);
-  }
-  return Array.from(map.entries()).map(([name, value]) => ({ name, value }));
+  return getRangeCategoryTotals(monthRange(year, month), currency, rateMode);
 }
 
-// Get totals per month for bar chart
+// Get totals per month for bar chart (from the aggregates cache)
 export async function getYearMonthTotals(
   year: number,
-  currency: Currency
+  currency: Currency,
+  rateMode: RateMode = 'historical'
 ): Promise<{ month: string; total: number }[]> {
-  const r = sessionRates();
-  const db = await getDB();
-  const tx = db.transaction(STORE, 'readonly');
-  const store = tx.objectStore(STORE);
-
-  // Get all cost records
-  const rows: StoredCost[] = await new Promise((res, rej) => {
-    const rq = store.getAll();
-    rq.onsuccess = () => res((rq.result || []) as StoredCost[]);
-    rq.onerror = () => rej(rq.error);
-  });
-
-  // Filter by year
-  const filtered = rows.filter((c) => c.Date?.year === year);
-  // Aggregate by month
-  const map = new Map<number, number>();
-  for (const c of filtered) {
-    const amount = conv(Number(c.sum || 0), c.currency, currency, r);
-    map.set(c.Date.month, (map.get(c.Date.month) || 0) + amount);
-  }
+  const totals = await aggregateTotals(yearRange(year), currency, rateMode, (day) => day.slice(5, 7));
   // Build array for all 12 months
   return Array.from({ length: 12 }, (_, i) => {
-    const m = i + 1;
-    return { month: String(m).padStart(2, '0'), total: +(map.get(m) || 0) };
+    const m = String(i + 1).padStart(2, '0');
+    return { month: m, total: +(totals.get(m) || 0) };
   });
 }
 
+/* ---- Date-range queries ---- */
+/** Detailed report over any date range: rows sorted by date with full dates, plus zero-filled bucket totals. */
+export async function getRangeReport(
+  range: DateRange,
+  currency: Currency,
+  rateMode: RateMode = 'historical',
+  bucket: Bucket = 'month'
+): Promise<RangeReport> {
+  const convertDay = await dayConverter(rateMode);
+  const rows = await readRange(range);
+  const sums = new Map<string, number>();
+  const costs = rows.map((c) => {
+    const day = costDayKey(c);
+    const ui = toUiCost(c, currency, convertDay(Number(c.sum || 0), c.currency, currency, day));
+    const key = bucketKey(day, bucket);
+    if (!ui.unconverted) sums.set(key, (sums.get(key) || 0) + ui.sum);
+    return { ...ui, Date: { year: c.Date.year, month: c.Date.month, day: c.Date.day }, tags: c.tags ?? [] };
+  });
+  const buckets = rangeBuckets(range, bucket).map((key) => ({ key, total: roundAmount(sums.get(key) || 0, currency) }));
+  const total = roundAmount(convertedTotal(costs), currency);
+  return { from: range.from, to: range.to, bucket, costs, buckets, total: { currency, total } };
+}
+
+/** Totals by category over a date range (pie chart, budgets), from the aggregates cache. */
+export async function getRangeCategoryTotals(
+  range: DateRange,
+  currency: Currency,
+  rateMode: RateMode = 'historical'
+): Promise<{ name: string; value: number }[]> {
+  const totals = await aggregateTotals(range, currency, rateMode, (_, category) => category);
+  return Array.from(totals.entries()).map(([name, value]) => ({ name, value }));
+}
+
+/** Totals per day/week/month bucket over a date range, zero-filled (bar chart), from the aggregates cache. */
+export async function getRangeBucketTotals(
+  range: DateRange,
+  bucket: Bucket,
+  currency: Currency,
+  rateMode: RateMode = 'historical'
+): Promise<{ key: string; total: number }[]> {
+  const totals = await aggregateTotals(range, currency, rateMode, (day) => bucketKey(day, bucket));
+  return rangeBuckets(range, bucket).map((key) => ({ key, total: roundAmount(totals.get(key) || 0, currency) }));
+}
+
 /* ---- Export / Import ---- */
-// Export all costs and rates as JSON
+// Export all costs (streamed with a cursor), current rates and the rates history as JSON
 export async function exportAll() {
   const db = await getDB();
   const tx = db.transaction(STORE, 'readonly');
-  const store = tx.objectStore(STORE);
   const all: StoredCost[] = await new Promise((res, rej) => {
-    const rq = store.getAll();
-    rq.onsuccess = () => res((rq.result || []) as StoredCost[]);
-    rq.onerror = () => rej(rq.error);
+    const rows: StoredCost[] = [];
+    const cur = tx.objectStore(STORE).openCursor();
+    cur.onsuccess = () => {
+      const c = cur.result;
+      if (!c) { res(rows); return; }
+      rows.push(c.value as StoredCost);
+      c.continue();
+    };
+    cur.onerror = () => rej(cur.error);
   });
 
   // Try to export current session rates (if available)
@@ -222,51 +988,23 @@ export async function exportAll() {
     if (r) rates = r;
   } catch {}
 
-  return { costs: all, rates };
+  const ratesHistory = await getRatesHistory();
+  const { getPreferences } = await import('./preferences');
+  return { costs: all, rates, ratesHistory, preferences: getPreferences() };
 }
 
-/** Accepts either an array of items or an object with { costs, rates } */
-export async function importFromJson(json: any): Promise<number> {
-  const db = await getDB();
-  const tx = db.transaction(STORE, 'readwrite');
-  const store = tx.objectStore(STORE);
-
-  // Parse costs array from input
-  const arr: any[] = Array.isArray(json) ? json : Array.isArray(json?.costs) ? json.costs : [];
-  let added = 0;
-
-  // Add each cost record
-  for (const raw of arr) {
-    const c: StoredCost = {
-      sum: Number(raw.sum || 0),
-      currency: raw.currency as Currency,
-      category: String(raw.category || ''),
-      description: raw.description ?? '',
-      Date:
-        raw.Date && typeof raw.Date === 'object' && typeof raw.Date.year === 'number'
-          ? { year: raw.Date.year, month: raw.Date.month, day: raw.Date.day }
-          : today(),
-      dateISO: raw.dateISO,
-    };
-    store.add(c as any);
-    added++;
+/**
+ * Accepts either an array of items or an object with { costs, rates, ratesHistory, preferences }, or an encrypted backup of
+ * one (./encryption) together with its passphrase.
+ * Runs the validating import pipeline (./importer) with the "merge" strategy; returns the number of records added.
+ */
+export async function importFromJson(json: any, passphrase?: string): Promise<number> {
+  const { isEncryptedBackup, decryptBackup } = await import('./encryption');
+  if (isEncryptedBackup(json)) {
+    if (passphrase === undefined) throw new Error(t('errors.needsPassphrase'));
+    json = await decryptBackup(json, passphrase);
   }
-
-  await new Promise<void>((res, rej) => {
-    tx.oncomplete = () => res();
-    tx.onerror = () => rej(tx.error);
-  });
-
-  // Apply rates from the import, if provided
-  if (json && typeof json === 'object' && !Array.isArray(json) && typeof json.rates === 'object') {
-    try {
-      const norm = normalizeRates(json.rates);
-      setInlineRates(norm); // applies immediately (switches to inline mode)
-      dispatchEvent(new CustomEvent('fx:rates-ready'));
-    } catch {
-      // ignore invalid rates
-    }
-  }
-
-  return added;
+  const { planImport, commitImport } = await import('./importer');
+  const result = await commitImport(await planImport(json, 'merge'));
+  return result.added;
 }
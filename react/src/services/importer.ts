@@ -0,0 +1,246 @@
+/**
+ * Validating JSON import pipeline: validate rows, detect duplicates (by sync uid or content fingerprint),
+ * plan the changes for a strategy (dry run), then commit the plan in one transaction.
+ */
+import {
+  openCostsDB, activeDBName, txDone, notifyCostsChanged, mergeRatesHistory, applyAggregateChanges, clearAggregates, normalizeTags, recordAudit, noonISO,
+  touchCost, recordTombstones, registerCategories, newUid, StoredCost, COSTS_STORE, AGGREGATES_STORE, CATEGORIES_STORE, AUDIT_STORE, META_STORE,
+  TOMBSTONES_STORE
+} from './idb';
+import { normalizeRates, setInlineRates, getRatesState } from './currency';
+import { normalizeCode, isValidCode } from './currencies';
+import { normalizePreferences, savePreferences, Preferences } from './preferences';
+import type { Rates, RatesSnapshot } from '../types';
+import { t } from './i18n';
+
+/**
+ * - merge: add new records, update records whose uid matches but content differs, skip exact duplicates
+ * - skip: add only records that match nothing (by uid or by content)
+ * A row is the same record as a local one only when it carries that record's uid (the file was exported from this
+ * wallet, or from a device it syncs with); ids are per DB, so they are not read at all. Added rows keep their uid (a
+ * restored backup syncs as the same records), unless a local record or tombstone already has it.
+ * - replace-all: delete every existing record, then add all valid records
+ */
+export type ImportStrategy = 'merge' | 'skip' | 'replace-all';
+
+export interface RejectedRow {
+  index: number; // 0-based position in the imported costs array
+  errors: string[];
+  raw: unknown;
+}
+
+/** Dry-run result: what a commit would do */
+export interface ImportPlan {
+  strategy: ImportStrategy;
+  dbName: string; // wallet DB the plan was made against (and is committed to)
+  total: number; // rows in the file
+  toAdd: StoredCost[];
+  toUpdate: StoredCost[]; // carry the existing record id
+  duplicates: number; // valid rows skipped as duplicates
+  rejected: RejectedRow[];
+  existing: number; // records in the DB before the import (deleted by replace-all)
+  rates?: Rates;
+  ratesHistory: RatesSnapshot[];
+  preferences?: Preferences;
+}
+
+export interface ImportResult { added: number; updated: number; deleted: number; }
+
+/** -------- Validation -------- */
+// Valid calendar date?
+function isValidDay(y: number, m: number, d: number): boolean {
+  if (![y, m, d].every(Number.isInteger)) return false;
+  const dt = new Date(y, m - 1, d);
+  return dt.getFullYear() === y && dt.getMonth() === m - 1 && dt.getDate() === d;
+}
+
+/** Validate one raw item; returns a normalized record (with its incoming uid, if any) or errors */
+export function validateCost(raw: any): { cost?: StoredCost; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object') return { errors: [t('rowError.notObject')] };
+
+  const sum = typeof raw.sum === 'string' && raw.sum.trim() !== '' ? Number(raw.sum) : raw.sum;
+  if (typeof sum !== 'number' || !Number.isFinite(sum) || sum <= 0) errors.push(t('rowError.invalidSum', { value: JSON.stringify(raw.sum) }));
+
+  const currency = normalizeCode(raw.currency ?? raw.curency);
+  if (!isValidCode(currency)) errors.push(t('rowError.invalidCurrency', { value: JSON.stringify(raw.currency) }));
+
+  const category = typeof raw.category === 'string' ? raw.category.trim() : '';
+  if (!category) errors.push(t('rowError.missingCategory'));
+
+  // Date: the {year, month, day} object wins; otherwise derive it from dateISO
+  let date: StoredCost['Date'] | null = null;
+  const D = raw.Date;
+  if (D && typeof D === 'object') {
+    const [y, m, d] = [Number(D.year), Number(D.month), Number(D.day)];
+    if (isValidDay(y, m, d)) date = { year: y, month: m, day: d };
+    else errors.push(t('rowError.invalidDate', { value: JSON.stringify(D) }));
+  } else if (typeof raw.dateISO === 'string') {
+    const dt = new Date(raw.dateISO);
+    if (!Number.isNaN(dt.getTime())) date = { year: dt.getFullYear(), month: dt.getMonth() + 1, day: dt.getDate() };
+    else errors.push(t('rowError.invalidDate', { value: JSON.stringify(raw.dateISO) }));
+  } else {
+    errors.push(t('rowError.missingDate'));
+  }
+
+  if (raw.tags != null && !Array.isArray(raw.tags)) errors.push(t('rowError.invalidTags', { value: JSON.stringify(raw.tags) }));
+
+  if (errors.length) return { errors };
+  const cost: StoredCost = {
+    sum,
+    currency,
+    category,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    Date: date!,
+    dateISO: noonISO(date!), // always agrees with Date (which wins when the file has both)
+  };
+  const tags = normalizeTags(raw.tags);
+  if (tags.length) cost.tags = tags;
+  if (typeof raw.uid === 'string' && raw.uid) cost.uid = raw.uid;
+  return { cost, errors };
+}
+
+/** Content fingerprint used to detect duplicates regardless of id (tags only count when present) */
+export function fingerprint(c: StoredCost): string {
+  const d = c.Date;
+  const parts: unknown[] = [
+    d.year, d.month, d.day,
+    Number(c.sum).toFixed(4),
+    normalizeCode(c.currency),
+    c.category.trim().toLowerCase(),
+    (c.description ?? '').trim().toLowerCase(),
+  ];
+  const tags = normalizeTags(c.tags).sort();
+  if (tags.length) parts.push(tags.join(','));
+  return parts.join('|');
+}
+
+// Valid snapshots from an imported ratesHistory array
+function validSnapshots(list: unknown): RatesSnapshot[] {
+  if (!Array.isArray(list)) return [];
+  const snaps: RatesSnapshot[] = [];
+  for (const raw of list as any[]) {
+    try {
+      if (typeof raw?.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(raw.date)) continue;
+      snaps.push({ date: raw.date, rates: normalizeRates(raw.rates), savedAt: String(raw.savedAt || raw.date) });
+    } catch {
+      // skip invalid snapshots
+    }
+  }
+  return snaps;
+}
+
+/** -------- Plan (dry run) -------- */
+/**
+ * Accepts either an array of items or an object with { costs, rates, ratesHistory, preferences }; nothing is written.
+ * Plans against the active wallet unless another wallet's DB name is given.
+ */
+export async function planImport(json: any, strategy: ImportStrategy, dbName: string = activeDBName()): Promise<ImportPlan> {
+  const arr: unknown[] = Array.isArray(json) ? json : Array.isArray(json?.costs) ? json.costs : [];
+  if (!Array.isArray(json) && !Array.isArray(json?.costs)) throw new Error(t('errors.noCosts'));
+
+  // Existing records, indexed by uid and by fingerprint, and the uids of deleted ones
+  const db = await openCostsDB(dbName);
+  const tx = db.transaction([COSTS_STORE, TOMBSTONES_STORE], 'readonly');
+  const read = <T>(rq: IDBRequest): Promise<T> => new Promise((res, rej) => {
+    rq.onsuccess = () => res(rq.result as T);
+    rq.onerror = () => rej(rq.error);
+  });
+  const [existing, deleted] = await Promise.all([
+    read<StoredCost[]>(tx.objectStore(COSTS_STORE).getAll()),
+    read<string[]>(tx.objectStore(TOMBSTONES_STORE).getAllKeys()),
+  ]);
+  const byUid = new Map(existing.filter((c) => c.uid).map((c) => [c.uid!, c]));
+  // Uids an added row cannot keep: taken by a record (replace-all deletes them, leaving tombstones) or a tombstone
+  const taken = new Set([...byUid.keys(), ...deleted]);
+  const prints = new Set(strategy === 'replace-all' ? [] : existing.map(fingerprint));
+
+  const plan: ImportPlan = {
+    strategy, dbName, total: arr.length, toAdd: [], toUpdate: [], duplicates: 0, rejected: [], existing: existing.length,
+    ratesHistory: validSnapshots(json?.ratesHistory),
+  };
+  if (json && !Array.isArray(json) && json.rates && typeof json.rates === 'object') {
+    try { plan.rates = normalizeRates(json.rates); } catch { /* invalid rates are ignored */ }
+  }
+  if (json && !Array.isArray(json) && json.preferences && typeof json.preferences === 'object') {
+    plan.preferences = normalizePreferences(json.preferences);
+  }
+
+  arr.forEach((raw, index) => {
+    const { cost, errors } = validateCost(raw);
+    if (!cost) { plan.rejected.push({ index, errors, raw }); return; }
+    const fp = fingerprint(cost);
+    const { uid, ...fresh } = cost;
+    const same = strategy !== 'replace-all' && uid ? byUid.get(uid) : undefined;
+
+    if (prints.has(fp)) {
+      plan.duplicates++; // identical content already in the DB (or earlier in this file)
+    } else if (same && strategy === 'merge') {
+      plan.toUpdate.push({ ...same, ...fresh, id: same.id });
+      prints.add(fp);
+    } else if (same && strategy === 'skip') {
+      plan.duplicates++;
+    } else {
+      const kept = uid && !taken.has(uid) ? uid : newUid();
+      taken.add(kept);
+      plan.toAdd.push({ ...fresh, uid: kept });
+      prints.add(fp);
+    }
+  });
+  return plan;
+}
+
+/** -------- Commit -------- */
+/**
+ * Write a plan in one transaction (to the wallet it was planned for), then merge its rates history and apply its rates
+ * and preferences.
+ * The import is one audit entry (records replaced or overwritten, records written, rates), so it can be undone as a whole.
+ */
+export async function commitImport(plan: ImportPlan): Promise<ImportResult> {
+  const db = await openCostsDB(plan.dbName);
+  const tx = db.transaction([COSTS_STORE, AGGREGATES_STORE, CATEGORIES_STORE, AUDIT_STORE, META_STORE, TOMBSTONES_STORE], 'readwrite');
+  const store = tx.objectStore(COSTS_STORE);
+  const updates = plan.toUpdate.map(touchCost);
+  const adds = plan.toAdd.map(touchCost);
+  // Read what gets overwritten first (requests run in order)
+  const replaced = plan.strategy === 'replace-all' ? store.getAll() : null;
+  if (replaced) replaced.onsuccess = () => recordTombstones(tx, replaced.result as StoredCost[]);
+  const overwritten = plan.toUpdate.map((c) => store.get(c.id!));
+  if (plan.strategy === 'replace-all') store.clear();
+  for (const c of updates) store.put(c as any);
+  const added = adds.map((c) => store.add(c as any));
+  // Updated rows may move between months: rebuild the cache then; plain additions are applied incrementally
+  if (plan.strategy === 'replace-all' || plan.toUpdate.length) clearAggregates(tx);
+  applyAggregateChanges(tx, adds.map((cost) => ({ cost, sign: 1 })));
+  registerCategories(tx, [...updates, ...adds].map((c) => c.category));
+  const result: ImportResult = {
+    added: plan.toAdd.length,
+    updated: plan.toUpdate.length,
+    deleted: plan.strategy === 'replace-all' ? plan.existing : 0,
+  };
+  const ratesBefore = getRatesState();
+  const changed = result.added || result.updated || result.deleted || plan.rates;
+  recordAudit(tx, () => changed ? {
+    op: 'import',
+    message: { key: result.deleted ? 'audit.importDeleted' : 'audit.import', params: { strategy: plan.strategy, added: result.added, updated: result.updated, deleted: result.deleted } },
+    before: {
+      costs: replaced ? replaced.result as StoredCost[] : overwritten.map((rq) => rq.result as StoredCost).filter(Boolean),
+      rates: plan.rates ? ratesBefore : undefined,
+    },
+    after: {
+      costs: [...updates, ...adds.map((c, i) => ({ ...c, id: added[i].result as number }))],
+      rates: plan.rates ? { source: 'inline-json', inline: plan.rates } : undefined,
+    },
+  } : null);
+  await txDone(tx);
+  notifyCostsChanged();
+
+  if (plan.ratesHistory.length) await mergeRatesHistory(plan.ratesHistory);
+  if (plan.rates) {
+    setInlineRates(plan.rates, false); // applies immediately (switches to inline mode); logged with the import
+    window.dispatchEvent(new CustomEvent('fx:rates-ready'));
+  }
+  if (plan.preferences) await savePreferences(plan.preferences);
+
+  return result;
+}
@@ -0,0 +1,248 @@
+/**
+ * Versioned schema migrations for the cost databases (every wallet DB has the same schema).
+ * MIGRATIONS is an ordered list of steps; opening a DB at DB_VERSION runs, in order and inside the one
+ * `versionchange` transaction, every step newer than the DB's version. A failing step aborts the upgrade,
+ * so a DB is never left half-migrated. Add a step (with the next version) instead of editing a released one.
+ *
+ * Steps 1–7 only create what is missing: before this list existed, DBs were created by a single
+ * create-if-missing upgrade, so a DB at any of those versions may already have later stores.
+ */
+import {
+  clearAggregates, noonISO, newUid, registerCategories, StoredCost,
+  COSTS_STORE, META_STORE, BUDGETS_STORE, RECURRING_STORE, CATEGORIES_STORE, AGGREGATES_STORE, AUDIT_STORE, TOMBSTONES_STORE
+} from './idb';
+import { normalizeCode, isLegacyCode } from './currencies';
+
+/** One upgrade step: runs when a DB older than `version` is opened */
+export interface Migration {
+  version: number;
+  description: string;
+  upgrade: (db: IDBDatabase, tx: IDBTransaction) => void | Promise<void>;
+}
+
+/* ---- Helpers for data steps (all run inside the versionchange transaction) ---- */
+// Every record of a store
+function getAll<T>(store: IDBObjectStore): Promise<T[]> {
+  return new Promise((res, rej) => {
+    const rq = store.getAll();
+    rq.onsuccess = () => res(rq.result as T[]);
+    rq.onerror = () => rej(rq.error);
+  });
+}
+
+// Rewrite records with a cursor: `fn` returns the new record, or undefined to leave it as it is
+function eachRecord<T>(store: IDBObjectStore, fn: (rec: T) => T | undefined): Promise<void> {
+  return new Promise((res, rej) => {
+    const cur = store.openCursor();
+    cur.onsuccess = () => {
+      const c = cur.result;
+      if (!c) { res(); return; }
+      const next = fn(c.value as T);
+      if (next !== undefined) c.update(next);
+      c.continue();
+    };
+    cur.onerror = () => rej(cur.error);
+  });
+}
+
+// A real calendar date, or null
+function validDate(d: any): StoredCost['Date'] | null {
+  const [y, m, day] = [Number(d?.year), Number(d?.month), Number(d?.day)];
+  if (![y, m, day].every(Number.isInteger)) return null;
+  const dt = new Date(y, m - 1, day);
+  return dt.getFullYear() === y && dt.getMonth() === m - 1 && dt.getDate() === day ? { year: y, month: m, day } : null;
+}
+
+// Local calendar date of an ISO string, or null
+function dateOfISO(iso: unknown): StoredCost['Date'] | null {
+  if (typeof iso !== 'string') return null;
+  const dt = new Date(iso);
+  return Number.isNaN(dt.getTime()) ? null : { year: dt.getFullYear(), month: dt.getMonth() + 1, day: dt.getDate() };
+}
+
+// Distinct keys of an index, without reading the records
+function uniqueKeys(index: IDBIndex): Promise<IDBValidKey[]> {
+  return new Promise((res, rej) => {
+    const keys: IDBValidKey[] = [];
+    const cur = index.openKeyCursor(null, 'nextunique');
+    cur.onsuccess = () => {
+      const c = cur.result;
+      if (!c) { res(keys); return; }
+      keys.push(c.key);
+      c.continue();
+    };
+    cur.onerror = () => rej(cur.error);
+  });
+}
+
+const sameDay = (a: StoredCost['Date'] | null, b: StoredCost['Date'] | null) =>
+  !!a && !!b && a.year === b.year && a.month === b.month && a.day === b.day;
+
+/* ---- The steps ---- */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'costs store (by_date index on Date) and meta store',
+    upgrade: (db, tx) => {
+      const costs = db.objectStoreNames.contains(COSTS_STORE)
+        ? tx.objectStore(COSTS_STORE)
+        : db.createObjectStore(COSTS_STORE, { keyPath: 'id', autoIncrement: true });
+      if (!costs.indexNames.contains('by_date')) costs.createIndex('by_date', ['Date.year', 'Date.month', 'Date.day']);
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'key' });
+    },
+  },
+  {
+    version: 2,
+    description: 'budgets store (unique by_category)',
+    upgrade: (db) => {
+      if (db.objectStoreNames.contains(BUDGETS_STORE)) return;
+      const b = db.createObjectStore(BUDGETS_STORE, { keyPath: 'id', autoIncrement: true });
+      b.createIndex('by_category', 'category', { unique: true });
+    },
+  },
+  {
+    version: 3,
+    description: 'recurring templates store',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(RECURRING_STORE)) db.createObjectStore(RECURRING_STORE, { keyPath: 'id', autoIncrement: true });
+    },
+  },
+  {
+    version: 4,
+    description: 'categories store (unique by_key on the lower-cased name)',
+    upgrade: (db) => {
+      if (db.objectStoreNames.contains(CATEGORIES_STORE)) return;
+      const c = db.createObjectStore(CATEGORIES_STORE, { keyPath: 'id', autoIncrement: true });
+      c.createIndex('by_key', 'key', { unique: true });
+    },
+  },
+  {
+    version: 5,
+    description: 'aggregates cache store and the by_category index on costs',
+    upgrade: (db, tx) => {
+      const costs = tx.objectStore(COSTS_STORE);
+      if (!costs.indexNames.contains('by_category')) costs.createIndex('by_category', 'category');
+      if (!db.objectStoreNames.contains(AGGREGATES_STORE)) db.createObjectStore(AGGREGATES_STORE, { keyPath: 'month' }); // "YYYY-MM"
+    },
+  },
+  {
+    version: 6,
+    description: 'multiEntry by_tag index on costs',
+    upgrade: (_, tx) => {
+      const costs = tx.objectStore(COSTS_STORE);
+      if (!costs.indexNames.contains('by_tag')) costs.createIndex('by_tag', 'tags', { multiEntry: true });
+    },
+  },
+  {
+    version: 7,
+    description: 'audit log store',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(AUDIT_STORE)) db.createObjectStore(AUDIT_STORE, { keyPath: 'id', autoIncrement: true });
+    },
+  },
+  {
+    version: 8,
+    description: 'backfill dateISO from Date and align records where they disagree (Date wins); by_date instead of the vanilla byDate index',
+    upgrade: async (_, tx) => {
+      const costs = tx.objectStore(COSTS_STORE);
+      // A v1 DB made by the vanilla idb.js build indexes the dateISO strings instead (and step 1 never ran on it)
+      if (costs.indexNames.contains('byDate')) costs.deleteIndex('byDate');
+      if (!costs.indexNames.contains('by_date')) costs.createIndex('by_date', ['Date.year', 'Date.month', 'Date.day']);
+      await eachRecord<StoredCost>(costs, (c) => {
+        const date = validDate(c.Date) ?? dateOfISO(c.dateISO); // Date is the source of truth; dateISO only when Date is broken
+        if (!date) return undefined;
+        const dateOk = sameDay(validDate(c.Date), date);
+        const isoOk = sameDay(dateOfISO(c.dateISO), date);
+        if (dateOk && isoOk) return undefined;
+        return { ...c, Date: date, dateISO: isoOk ? c.dateISO : noonISO(date) };
+      });
+      clearAggregates(tx);
+    },
+  },
+  {
+    version: 9,
+    description: 'normalise category names: trimmed, one spelling per name (the registered category, else the first seen)',
+    upgrade: async (_, tx) => {
+      const names = new Map<string, string>(); // key -> name
+      for (const c of await getAll<{ key: string; name: string }>(tx.objectStore(CATEGORIES_STORE))) names.set(c.key, c.name);
+      const canonical = (raw: unknown) => {
+        const name = String(raw ?? '').trim();
+        const key = name.toLowerCase(); // same key as the categories store (categoryKey in ./categories)
+        if (!names.has(key)) names.set(key, name);
+        return names.get(key)!;
+      };
+      const rename = (rec: { category: string }) => {
+        const name = canonical(rec.category);
+        return name !== rec.category ? { ...rec, category: name } : undefined;
+      };
+      await eachRecord(tx.objectStore(COSTS_STORE), rename);
+      await eachRecord(tx.objectStore(RECURRING_STORE), rename);
+      // Budgets are unique per category: rename only when no budget has the canonical name yet
+      const budgets = tx.objectStore(BUDGETS_STORE);
+      const all = await getAll<{ id: number; category: string }>(budgets);
+      const taken = new Set(all.map((b) => b.category));
+      for (const b of all) {
+        const name = b.category === '' ? '' : canonical(b.category);
+        if (name === b.category || taken.has(name)) continue;
+        taken.delete(b.category); taken.add(name);
+        budgets.put({ ...b, category: name });
+      }
+      clearAggregates(tx);
+    },
+  },
+  {
+    version: 10,
+    description: 'rewrite legacy currency codes (e.g. "EURO") to ISO 4217 in costs, budgets and recurring templates',
+    upgrade: async (_, tx) => {
+      const recode = (rec: { currency: string }) =>
+        isLegacyCode(rec.currency) ? { ...rec, currency: normalizeCode(rec.currency) } : undefined;
+      await eachRecord(tx.objectStore(COSTS_STORE), recode);
+      await eachRecord(tx.objectStore(BUDGETS_STORE), recode);
+      await eachRecord(tx.objectStore(RECURRING_STORE), recode);
+      clearAggregates(tx);
+    },
+  },
+  {
+    version: 11,
+    description: 'sync bookkeeping: uid and updatedAt on every cost (by_uid, by_dirty indexes), tombstones store for deletes',
+    upgrade: async (db, tx) => {
+      const costs = tx.objectStore(COSTS_STORE);
+      // Existing records get a sync id and are marked as local changes, so the first sync pushes them
+      const now = Date.now();
+      await eachRecord<StoredCost>(costs, (c) => c.uid ? undefined : { ...c, uid: newUid(), updatedAt: now, dirty: 1 });
+      if (!costs.indexNames.contains('by_uid')) costs.createIndex('by_uid', 'uid', { unique: true });
+      if (!costs.indexNames.contains('by_dirty')) costs.createIndex('by_dirty', 'dirty');
+      if (!db.objectStoreNames.contains(TOMBSTONES_STORE)) {
+        db.createObjectStore(TOMBSTONES_STORE, { keyPath: 'uid' }).createIndex('by_dirty', 'dirty');
+      }
+    },
+  },
+  {
+    version: 12,
+    description: 'register every category used by costs, budgets or recurring templates (writers register them from now on)',
+    upgrade: async (_, tx) => {
+      const names = (await uniqueKeys(tx.objectStore(COSTS_STORE).index('by_category'))).map(String);
+      for (const store of [BUDGETS_STORE, RECURRING_STORE]) {
+        for (const rec of await getAll<{ category: string }>(tx.objectStore(store))) names.push(rec.category);
+      }
+      registerCategories(tx, names);
+    },
+  },
+];
+
+/** Current schema version: the last step's */
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Run the steps newer than `oldVersion` (up to `newVersion`), one after the other, inside the upgrade
+ * transaction (call from onupgradeneeded). Aborts the upgrade when a step fails.
+ */
+export function runMigrations(db: IDBDatabase, tx: IDBTransaction, oldVersion: number, newVersion: number): Promise<void> {
+  const steps = MIGRATIONS.filter((m) => m.version > oldVersion && m.version <= newVersion);
+  const done = steps.reduce<Promise<void>>((prev, m) => prev.then(() => m.upgrade(db, tx)), Promise.resolve());
+  return done.catch((e) => {
+    console.error('DB migration failed', e);
+    tx.abort();
+    throw e;
+  });
+}
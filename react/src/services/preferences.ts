@@ -0,0 +1,96 @@
+/**
+ * User preferences: default report and entry currency, default entry category, first day of the week, number and
+ * date format, and the tab the app opens on. Kept in the main DB meta (shared by all wallets) and carried in JSON
+ * exports; the display settings are pushed into ./currencies and ./ranges, which format everything shown.
+ */
+import { getMainDB, txDone, META_STORE } from './idb';
+import { normalizeCode, isValidCode, setNumberFormat, NumberFormat } from './currencies';
+import { setWeekStart, setDateFormat, WeekStart, DateFormat } from './ranges';
+import { VIEWS } from './route';
+import type { Currency } from '../types';
+
+const PREFERENCES_KEY = 'preferences';
+
+export interface Preferences {
+  reportCurrency: Currency | null; // null: the wallet's currency
+  entryCurrency: Currency | null; // null: the wallet's currency
+  entryCategory: string;
+  weekStart: WeekStart;
+  numberFormat: NumberFormat;
+  dateFormat: DateFormat;
+  startTab: typeof VIEWS[number]; // opened when the URL names no view
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  reportCurrency: null,
+  entryCurrency: null,
+  entryCategory: 'Food',
+  weekStart: 1,
+  numberFormat: 'locale',
+  dateFormat: 'locale',
+  startTab: 'add',
+};
+
+const WEEK_STARTS: WeekStart[] = [0, 1, 6];
+const NUMBER_FORMATS: NumberFormat[] = ['plain', 'comma', 'dot', 'space', 'locale'];
+const DATE_FORMATS: DateFormat[] = ['iso', 'dmy', 'mdy', 'locale'];
+
+let current: Preferences = DEFAULT_PREFERENCES;
+
+/** The preferences in effect (defaults until loadPreferences has run) */
+export function getPreferences(): Preferences {
+  return current;
+}
+
+// A currency preference: a valid code, or null for the wallet's own
+function currencyOrNull(v: unknown): Currency | null {
+  const code = normalizeCode(v ?? '');
+  return v != null && isValidCode(code) ? code : null;
+}
+
+/** Preferences from stored or imported data; missing or invalid fields get their defaults */
+export function normalizePreferences(raw: any): Preferences {
+  const d = DEFAULT_PREFERENCES;
+  const p = raw && typeof raw === 'object' ? raw : {};
+  return {
+    reportCurrency: currencyOrNull(p.reportCurrency),
+    entryCurrency: currencyOrNull(p.entryCurrency),
+    entryCategory: typeof p.entryCategory === 'string' && p.entryCategory.trim() ? p.entryCategory.trim() : d.entryCategory,
+    weekStart: WEEK_STARTS.includes(p.weekStart) ? p.weekStart : d.weekStart,
+    numberFormat: NUMBER_FORMATS.includes(p.numberFormat) ? p.numberFormat : d.numberFormat,
+    dateFormat: DATE_FORMATS.includes(p.dateFormat) ? p.dateFormat : d.dateFormat,
+    startTab: (VIEWS as readonly string[]).includes(p.startTab) ? p.startTab : d.startTab,
+  };
+}
+
+// Make the preferences current and hand the display settings to the formatters
+function apply(p: Preferences) {
+  current = p;
+  setNumberFormat(p.numberFormat);
+  setWeekStart(p.weekStart);
+  setDateFormat(p.dateFormat);
+}
+
+/** Read the stored preferences and apply them (call once on startup, before rendering) */
+export async function loadPreferences(): Promise<Preferences> {
+  const db = await getMainDB();
+  const rq = db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(PREFERENCES_KEY);
+  const stored = await new Promise<unknown>((res, rej) => {
+    rq.onsuccess = () => res(rq.result?.value);
+    rq.onerror = () => rej(rq.error);
+  });
+  apply(normalizePreferences(stored));
+  return current;
+}
+
+/** Change some preferences: store, apply and notify (views re-render on preferences:changed) */
+export async function savePreferences(changes: Partial<Preferences>): Promise<Preferences> {
+  const next = normalizePreferences({ ...current, ...changes });
+  const db = await getMainDB();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put({ key: PREFERENCES_KEY, value: next });
+  await txDone(tx);
+  apply(next);
+  window.dispatchEvent(new CustomEvent('preferences:changed'));
+  return next;
+}
@@ -0,0 +1,355 @@
+/** Printable report for a date range: print-optimised HTML and a PDF file, both built in the browser. */
+import { forEachCost, costConverter, getRangeCategoryTotals, getRangeBucketTotals, getRatesUsed } from './idb';
+import { convert } from './currency';
+import { formatAmount, roundAmount } from './currencies';
+import { getCategoryColors, colorFor } from './categories';
+import { partsToDayKey, rangeLabel, formatDay } from './ranges';
+import type { Bucket, Currency, DateRange, RateMode, Rates } from '../types';
+import { t, tn, getLanguage, getLocale, getDirection } from './i18n';
+import type { jsPDF } from 'jspdf';
+import fontRegularUrl from '@expo-google-fonts/noto-sans-hebrew/400Regular/NotoSansHebrew_400Regular.ttf?url';
+import fontBoldUrl from '@expo-google-fonts/noto-sans-hebrew/700Bold/NotoSansHebrew_700Bold.ttf?url';
+
+/** Everything the printed report shows, in the report currency */
+export interface PrintReport {
+  range: DateRange;
+  bucket: Bucket;
+  currency: Currency;
+  rateMode: RateMode;
+  generatedAt: string; // ISO timestamp
+  rows: { date: string; category: string; description: string; tags: string[]; sum: number; currency: Currency; converted: number | null }[];
+  total: number;
+  categories: { name: string; value: number; share: number; color: string }[];
+  buckets: { key: string; total: number }[];
+  /** Rate sets used (date null = current session rates), as "1 <report currency> = rate <code>" */
+  rates: { date: string | null; quotes: { code: Currency; rate: number }[] }[];
+}
+
+// Chart sizes (px) shared by the HTML page and the PDF images
+const PIE_SIZE = 240;
+const BAR_W = 520, BAR_H = 240;
+
+/** Collect the report data: rows with original and converted amounts, category and period totals, rates used */
+export async function buildPrintReport(range: DateRange, bucket: Bucket, currency: Currency, rateMode: RateMode = 'historical'): Promise<PrintReport> {
+  const toTarget = await costConverter(currency, rateMode);
+  const rows: PrintReport['rows'] = [];
+  await forEachCost(range, (c) => {
+    const converted = toTarget(c);
+    rows.push({
+      date: partsToDayKey(c.Date.year, c.Date.month, c.Date.day),
+      category: c.category,
+      description: c.description ?? '',
+      tags: c.tags ?? [],
+      sum: Number(c.sum || 0),
+      currency: c.currency,
+      converted: converted == null ? null : roundAmount(converted, currency),
+    });
+  });
+  const [cats, buckets, colors, used] = await Promise.all([
+    getRangeCategoryTotals(range, currency, rateMode),
+    getRangeBucketTotals(range, bucket, currency, rateMode),
+    getCategoryColors(),
+    getRatesUsed(range, rateMode),
+  ]);
+  const total = roundAmount(rows.reduce((s, r) => s + (r.converted ?? 0), 0), currency);
+  const codes = Array.from(new Set(rows.map((r) => r.currency))).filter((c) => c !== currency).sort();
+  return {
+    range, bucket, currency, rateMode,
+    generatedAt: new Date().toISOString(),
+    rows,
+    total,
+    categories: cats.map((c) => ({ ...c, share: total ? c.value / total : 0, color: colorFor(c.name, colors) })),
+    buckets,
+    rates: used.map((u) => ({ date: u.date, quotes: codes.map((code) => ({ code, rate: quote(currency, code, u.rates) })) })),
+  };
+}
+
+// 1 unit of `from` in `to` (NaN when a rate is missing)
+function quote(from: Currency, to: Currency, rates: Rates): number {
+  try { return convert(1, from, to, rates); } catch { return NaN; }
+}
+
+/* ---- Charts (SVG strings) ---- */
+// Escape text for HTML/SVG
+function esc(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Pie of the category totals (no labels; the category summary is the legend) */
+export function pieSvg(report: PrintReport, size: number = PIE_SIZE): string {
+  const r = size / 2 - 4, c = size / 2;
+  const slices = report.categories.filter((s) => s.value > 0);
+  const sum = slices.reduce((s, x) => s + x.value, 0);
+  let body = '';
+  if (slices.length === 1) body = `<circle cx="${c}" cy="${c}" r="${r}" fill="${slices[0].color}"/>`;
+  else {
+    let a = -Math.PI / 2;
+    for (const s of slices) {
+      const b = a + (s.value / sum) * 2 * Math.PI;
+      const [x1, y1, x2, y2] = [c + r * Math.cos(a), c + r * Math.sin(a), c + r * Math.cos(b), c + r * Math.sin(b)];
+      body += `<path d="M${c},${c} L${x1.toFixed(2)},${y1.toFixed(2)} A${r},${r} 0 ${b - a > Math.PI ? 1 : 0} 1 ${x2.toFixed(2)},${y2.toFixed(2)} Z" fill="${s.color}" stroke="#fff" stroke-width="1"/>`;
+      a = b;
+    }
+  }
+  if (!slices.length) body = `<circle cx="${c}" cy="${c}" r="${r}" fill="#eee"/>`;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">${body}</svg>`;
+}
+
+/** Bars of the period totals, with the largest value on the y axis and thinned x labels */
+export function barSvg(report: PrintReport, w: number = BAR_W, h: number = BAR_H): string {
+  const left = 56, bottom = 28, top = 10;
+  const data = report.buckets;
+  const max = Math.max(0, ...data.map((d) => d.total)) || 1;
+  const plotW = w - left - 8, plotH = h - top - bottom;
+  const step = plotW / Math.max(1, data.length);
+  const every = Math.ceil(data.length / 12);
+  let body = `<line x1="${left}" y1="${top + plotH}" x2="${w - 8}" y2="${top + plotH}" stroke="#999"/>`
+    + `<text x="${left - 4}" y="${top + 8}" font-size="10" text-anchor="end" fill="#555">${esc(formatAmount(max, report.currency))}</text>`
+    + `<text x="${left - 4}" y="${top + plotH}" font-size="10" text-anchor="end" fill="#555">0</text>`;
+  data.forEach((d, i) => {
+    const bh = (d.total / max) * plotH;
+    const x = left + i * step + step * 0.15;
+    body += `<rect x="${x.toFixed(2)}" y="${(top + plotH - bh).toFixed(2)}" width="${(step * 0.7).toFixed(2)}" height="${bh.toFixed(2)}" fill="#1976d2"/>`;
+    if (i % every === 0) {
+      body += `<text x="${(x + step * 0.35).toFixed(2)}" y="${h - 10}" font-size="10" text-anchor="middle" fill="#555">${esc(d.key)}</text>`;
+    }
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}" font-family="Helvetica, Arial, sans-serif">${body}</svg>`;
+}
+
+/* ---- HTML ---- */
+// Header lines shared by both outputs
+function headerLines(report: PrintReport): string[] {
+  const { range } = report;
+  return [
+    t('print.period', { range: rangeLabel(range), from: formatDay(range.from), to: formatDay(range.to) }),
+    t('print.currency', { currency: report.currency, rates: t(report.rateMode === 'historical' ? 'print.historicalRates' : 'print.todayRates') }),
+    t('print.generated', { time: new Date(report.generatedAt).toLocaleString(getLocale()) }),
+  ];
+}
+
+// Total line shared by both outputs
+const totalLine = (report: PrintReport) =>
+  tn('print.total', report.rows.length, { amount: formatAmount(report.total, report.currency), currency: report.currency });
+
+// Converted amount of a row; '—' when no rate set has its currency (left out of the totals)
+const convertedCell = (v: number | null, cur: Currency) => (v == null ? '—' : formatAmount(v, cur));
+
+// Rate set label
+const rateSetLabel = (date: string | null) => (date ? t('print.ratesOf', { date: formatDay(date) }) : t('print.sessionRates'));
+
+// The quotes of a rate set on one line
+const quotesLine = (quotes: PrintReport['rates'][number]['quotes'], cur: Currency) => (quotes.length
+  ? quotes.map((q) => `1 ${cur} = ${Number.isFinite(q.rate) ? q.rate.toFixed(4) : '—'} ${q.code}`).join(' · ')
+  : t('print.onlyCurrency', { currency: cur }));
+
+// Escaped text isolated in its own direction (names and amounts read right whatever the page direction)
+const bdi = (s: string) => `<bdi>${esc(s)}</bdi>`;
+
+/** The report as a standalone, print-optimised HTML document (A4, repeated table headers, no page-split rows) */
+export function reportToHtml(report: PrintReport): string {
+  const cur = report.currency;
+  const catRows = report.categories.map((c) => `<tr><td><span class="sw" style="background:${c.color}"></span>${bdi(c.name)}</td>`
+    + `<td class="num">${bdi(formatAmount(c.value, cur))}</td><td class="num">${bdi(`${(c.share * 100).toFixed(1)}%`)}</td></tr>`).join('');
+  const costRows = report.rows.map((r) => `<tr><td>${bdi(formatDay(r.date))}</td><td>${bdi(r.category)}</td>`
+    + `<td>${bdi(r.description)}${r.tags.map((tag) => ` <span class="tag">${bdi(tag)}</span>`).join('')}</td>`
+    + `<td class="num">${bdi(`${formatAmount(r.sum, r.currency)} ${r.currency}`)}</td><td class="num">${bdi(convertedCell(r.converted, cur))}</td></tr>`).join('');
+  const rateRows = report.rates.map((s) => `<tr><td>${esc(rateSetLabel(s.date))}</td><td>${bdi(quotesLine(s.quotes, cur))}</td></tr>`).join('');
+
+  return `<!doctype html>
+<html lang="${getLanguage()}" dir="${getDirection()}"><head><meta charset="utf-8"><title>${esc(t('print.documentTitle', { from: report.range.from, to: report.range.to, currency: cur }))}</title>
+<style>
+  @page { size: A4; margin: 14mm; }
+  body { font: 12px/1.4 Helvetica, Arial, sans-serif; color: #111; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; } h2 { font-size: 14px; margin: 20px 0 6px; }
+  .meta { color: #555; margin: 0; }
+  .total { font-size: 16px; font-weight: bold; margin: 10px 0; }
+  .charts { display: flex; gap: 24px; align-items: flex-start; break-inside: avoid; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #ddd; padding: 4px 6px; text-align: start; vertical-align: top; }
+  th { background: #f3f3f3; } thead { display: table-header-group; } tr { break-inside: avoid; }
+  .num { text-align: end; white-space: nowrap; }
+  .sw { display: inline-block; width: 10px; height: 10px; margin-inline-end: 6px; border-radius: 2px; }
+  .tag { font-size: 10px; border: 1px solid #bbb; border-radius: 8px; padding: 0 5px; color: #444; }
+  .toolbar { margin-bottom: 16px; }
+  @media print { body { margin: 0; } .toolbar { display: none; } th { -webkit-print-color-adjust: exact; print-color-adjust: exact; } .sw { print-color-adjust: exact; -webkit-print-color-adjust: exact; } }
+</style></head><body>
+<div class="toolbar"><button onclick="window.print()">${esc(t('report.print'))}</button></div>
+<h1>${esc(t('print.title'))}</h1>
+${headerLines(report).map((l) => `<p class="meta">${esc(l)}</p>`).join('\n')}
+<p class="total">${esc(totalLine(report))}</p>
+<div class="charts">${pieSvg(report)}${barSvg(report)}</div>
+<h2>${esc(t('print.byCategory'))}</h2>
+<table><thead><tr><th>${esc(t('common.category'))}</th><th class="num">${esc(t('print.categoryTotal', { currency: cur }))}</th><th class="num">${esc(t('print.share'))}</th></tr></thead><tbody>${catRows}</tbody></table>
+<h2>${esc(t('print.costs'))}</h2>
+<table><thead><tr><th>${esc(t('common.date'))}</th><th>${esc(t('common.category'))}</th><th>${esc(t('common.description'))}</th><th class="num">${esc(t('print.amount'))}</th><th class="num">${esc(t('print.converted', { currency: cur }))}</th></tr></thead>
+<tbody>${costRows}<tr><td colspan="4" class="num"><b>${esc(t('common.total'))}</b></td><td class="num"><b>${bdi(formatAmount(report.total, cur))}</b></td></tr></tbody></table>
+<h2>${esc(t('print.rates'))}</h2>
+<table><tbody>${rateRows || `<tr><td>${esc(t('print.noConversion'))}</td></tr>`}</tbody></table>
+</body></html>`;
+}
+
+/** Open the HTML report in a new window and bring up the print dialog */
+export function openPrintableReport(report: PrintReport) {
+  const w = window.open('', '_blank');
+  if (!w) throw new Error(t('errors.popupBlocked'));
+  w.document.open();
+  w.document.write(reportToHtml(report));
+  w.document.close();
+  w.focus();
+  w.print();
+}
+
+/* ---- PDF ---- */
+// Rasterise an SVG string to a PNG data URL (2x for sharp print)
+function svgToPng(svg: string, w: number, h: number): Promise<string> {
+  return new Promise((res, rej) => {
+    const img = new Image();
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = w * 2; canvas.height = h * 2;
+      const ctx = canvas.getContext('2d')!;
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      res(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => { URL.revokeObjectURL(url); rej(new Error(t('errors.chartsFailed'))); };
+    img.src = url;
+  });
+}
+
+// Noto Sans Hebrew (Latin, Hebrew and the currency signs): jsPDF's built-in fonts only cover Latin. The files are
+// fetched when the first PDF is built, not with the app.
+const PDF_FONT = 'NotoSansHebrew';
+const PDF_FONT_FILES = { normal: fontRegularUrl, bold: fontBoldUrl };
+
+// Embed the font (both weights) in a document
+async function addPdfFont(doc: jsPDF) {
+  await Promise.all(Object.entries(PDF_FONT_FILES).map(async ([style, url]) => {
+    const res = await fetch(url).catch(() => null);
+    if (!res?.ok) throw new Error(t('errors.fontFailed'));
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    let bin = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    const file = `${PDF_FONT}-${style}.ttf`;
+    doc.addFileToVFS(file, btoa(bin));
+    doc.addFont(file, PDF_FONT, style);
+  }));
+}
+
+// Direction of a text as dir="auto" finds it: its first strong letter's (the UI direction when it has none)
+function isRtlText(text: string): boolean {
+  const letter = text.match(/\p{L}/u)?.[0];
+  return letter ? /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/.test(letter) : getDirection() === 'rtl';
+}
+
+// jsPDF draws glyphs left to right: reorder each text (logical order) for display, in its own direction
+const bidiOptions = (text: string | string[]) => ({
+  isInputVisual: false, isOutputVisual: true, isOutputRtl: false, isSymmetricSwapping: true,
+  isInputRtl: isRtlText(Array.isArray(text) ? text.join(' ') : text),
+});
+
+/**
+ * The report as a PDF (A4, mm). jsPDF and the font are loaded on demand so they are not part of the main bundle.
+ * The layout is mirrored when the UI is right-to-left.
+ */
+export async function reportToPdf(report: PrintReport): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  await addPdfFont(doc);
+  const cur = report.currency;
+  const rtl = getDirection() === 'rtl';
+  const M = 14, W = 210 - 2 * M, BOTTOM = 297 - M;
+  let y = M;
+
+  // Page x of a block `x` mm from the start edge, `w` wide (mirrored in RTL), and text drawn at the start edge
+  const at = (x: number, w = 0) => (rtl ? M + W - x - w : M + x);
+  const text = (s: string | string[], x: number, w = 0, align: 'left' | 'right' = 'left') => {
+    const end = (align === 'right') !== rtl;
+    doc.text(s, end ? at(x, w) + w : at(x, w), y, { align: end ? 'right' : 'left', ...bidiOptions(s) });
+  };
+
+  // Start a new page when the next block does not fit
+  const ensure = (h: number) => { if (y + h > BOTTOM) { doc.addPage(); y = M; return true; } return false; };
+  const heading = (s: string) => {
+    ensure(12);
+    y += 4;
+    doc.setFont(PDF_FONT, 'bold').setFontSize(12);
+    text(s, 0);
+    y += 6;
+    doc.setFont(PDF_FONT, 'normal').setFontSize(9);
+  };
+  // One table row; `cols` are [offset from the start edge, width, align]; text is clipped to one line
+  const row = (cells: string[], cols: [number, number, 'left' | 'right'][], bold = false) => {
+    doc.setFont(PDF_FONT, bold ? 'bold' : 'normal');
+    cells.forEach((cell, i) => {
+      const [x, w, align] = cols[i];
+      let s = cell;
+      if (doc.getTextWidth(s) > w - 1) {
+        while (s && doc.getTextWidth(s + '…') > w - 1) s = s.slice(0, -1);
+        s += '…';
+      }
+      text(s, x, w, align);
+    });
+    y += 5;
+  };
+
+  // Header
+  doc.setFont(PDF_FONT, 'bold').setFontSize(18);
+  y += 4;
+  text(t('print.title'), 0);
+  y += 7;
+  doc.setFont(PDF_FONT, 'normal').setFontSize(9).setTextColor(90);
+  for (const line of headerLines(report)) { text(line, 0); y += 4.5; }
+  doc.setTextColor(0).setFont(PDF_FONT, 'bold').setFontSize(12);
+  y += 2;
+  text(totalLine(report), 0);
+  y += 6;
+
+  // Charts side by side (pie 60 mm, bars the rest)
+  const [pie, bars] = await Promise.all([svgToPng(pieSvg(report), PIE_SIZE, PIE_SIZE), svgToPng(barSvg(report), BAR_W, BAR_H)]);
+  const pieMm = 60, barMm = W - pieMm - 6;
+  doc.addImage(pie, 'PNG', at(0, pieMm), y, pieMm, pieMm);
+  doc.addImage(bars, 'PNG', at(pieMm + 6, barMm), y, barMm, barMm * BAR_H / BAR_W);
+  y += pieMm + 2;
+
+  // Category summary with colour swatches
+  heading(t('print.byCategory'));
+  const catCols: [number, number, 'left' | 'right'][] = [[5, 100, 'left'], [105, 40, 'right'], [145, 37, 'right']];
+  row([t('common.category'), t('print.categoryTotal', { currency: cur }), t('print.share')], catCols, true);
+  for (const c of report.categories) {
+    ensure(5);
+    doc.setFillColor(c.color).rect(at(0, 3), y - 2.8, 3, 3, 'F');
+    row([c.name, formatAmount(c.value, cur), `${(c.share * 100).toFixed(1)}%`], catCols);
+  }
+
+  // Cost table (header repeated on every page)
+  heading(t('print.costs'));
+  const costCols: [number, number, 'left' | 'right'][] = [[0, 22, 'left'], [22, 32, 'left'], [54, 70, 'left'], [124, 30, 'right'], [154, 28, 'right']];
+  const costHeader = [t('common.date'), t('common.category'), t('common.description'), t('print.amount'), t('print.converted', { currency: cur })];
+  row(costHeader, costCols, true);
+  for (const r of report.rows) {
+    if (ensure(5)) { doc.setFontSize(9); row(costHeader, costCols, true); }
+    const desc = r.description + (r.tags.length ? ` [${r.tags.join(', ')}]` : '');
+    row([formatDay(r.date), r.category, desc, `${formatAmount(r.sum, r.currency)} ${r.currency}`, convertedCell(r.converted, cur)], costCols);
+  }
+  ensure(5);
+  row(['', '', '', t('common.total'), formatAmount(report.total, cur)], costCols, true);
+
+  // Rates used
+  heading(t('print.rates'));
+  if (!report.rates.length) row([t('print.noConversion')], [[0, W, 'left']]);
+  for (const s of report.rates) {
+    const lines: string[] = doc.splitTextToSize(quotesLine(s.quotes, cur), W - 45);
+    ensure(5 * lines.length);
+    doc.setFont(PDF_FONT, 'normal');
+    text(rateSetLabel(s.date), 0);
+    text(lines, 45, W - 45);
+    y += 5 * lines.length;
+  }
+
+  return doc.output('blob');
+}
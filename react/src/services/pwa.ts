@@ -0,0 +1,11 @@
+/** Service worker registration for the installable/offline app (sw.js is emitted by the Vite build only). */
+
+// Register sw.js next to index.html; failures only mean no offline support
+export function registerServiceWorker(): void {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch((e) => {
+      console.warn('Service worker registration failed', e);
+    });
+  });
+}
@@ -0,0 +1,174 @@
+/** Date ranges for reports: presets (this quarter, last 30 days, fiscal year...), validation, day/week/month buckets and day display. */
+import type { Bucket, DateRange } from '../types';
+import { t, getLocale } from './i18n';
+
+/** Range presets offered by the picker */
+export type RangePreset = 'this-month' | 'last-month' | 'this-quarter' | 'last-30-days' | 'this-year' | 'fiscal-year' | 'custom';
+
+export const RANGE_PRESETS: RangePreset[] = [
+  'this-month', 'last-month', 'this-quarter', 'last-30-days', 'this-year', 'fiscal-year', 'custom',
+];
+
+/** First month (1-based) of the fiscal year */
+export const FISCAL_START_MONTH = 4;
+
+/** First day of the week (as Date.getDay(): 0 Sunday, 1 Monday, 6 Saturday) */
+export type WeekStart = 0 | 1 | 6;
+/** How days are shown: 2025-03-05, 05/03/2025, 03/05/2025 or as the UI language writes them */
+export type DateFormat = 'iso' | 'dmy' | 'mdy' | 'locale';
+
+// Display settings (from the user preferences, see ./preferences)
+let weekStart: WeekStart = 1;
+let dateFormat: DateFormat = 'locale';
+
+/** Set the first day of week buckets */
+export function setWeekStart(d: WeekStart) { weekStart = d; }
+
+/** Set how formatDay shows days */
+export function setDateFormat(f: DateFormat) { dateFormat = f; }
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Local YYYY-MM-DD for a Date */
+export function toDayKey(d: Date): string {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** YYYY-MM-DD for year/month/day parts */
+export function partsToDayKey(year: number, month: number, day: number): string {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/** Local Date for a YYYY-MM-DD key */
+export function fromDayKey(key: string): Date {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+/** Whether `key` is a real YYYY-MM-DD day */
+export function isDayKey(key: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(key) && toDayKey(fromDayKey(key)) === key;
+}
+
+// Utility: key `n` days after `key`
+function addDays(key: string, n: number): string {
+  const d = fromDayKey(key);
+  d.setDate(d.getDate() + n);
+  return toDayKey(d);
+}
+
+/** A whole calendar month */
+export function monthRange(year: number, month: number): DateRange {
+  return { from: partsToDayKey(year, month, 1), to: toDayKey(new Date(year, month, 0)) };
+}
+
+/** A whole calendar year */
+export function yearRange(year: number): DateRange {
+  return { from: partsToDayKey(year, 1, 1), to: partsToDayKey(year, 12, 31) };
+}
+
+/** The range a preset stands for on `now` ('custom' keeps the current month as a starting point) */
+export function presetRange(preset: RangePreset, now: Date = new Date()): DateRange {
+  const y = now.getFullYear();
+  const m = now.getMonth() + 1;
+  switch (preset) {
+    case 'last-month':
+      return m === 1 ? monthRange(y - 1, 12) : monthRange(y, m - 1);
+    case 'this-quarter': {
+      const first = Math.floor((m - 1) / 3) * 3 + 1;
+      return { from: partsToDayKey(y, first, 1), to: toDayKey(new Date(y, first + 2, 0)) };
+    }
+    case 'last-30-days': {
+      const to = toDayKey(now);
+      return { from: addDays(to, -29), to };
+    }
+    case 'this-year':
+      return yearRange(y);
+    case 'fiscal-year': {
+      const start = m >= FISCAL_START_MONTH ? y : y - 1;
+      return { from: partsToDayKey(start, FISCAL_START_MONTH, 1), to: toDayKey(new Date(start + 1, FISCAL_START_MONTH - 1, 0)) };
+    }
+    default:
+      return monthRange(y, m);
+  }
+}
+
+/** Validate a range: both ends real days and from <= to */
+export function checkRange(range: DateRange): string | null {
+  if (!isDayKey(range.from) || !isDayKey(range.to)) return t('errors.bothDates');
+  if (range.from > range.to) return t('errors.fromAfterTo');
+  return null;
+}
+
+/** The calendar month a range covers exactly, or null (monthly budgets only apply to whole months) */
+export function singleMonth(range: DateRange): { year: number; month: number } | null {
+  const d = fromDayKey(range.from);
+  const m = monthRange(d.getFullYear(), d.getMonth() + 1);
+  return m.from === range.from && m.to === range.to ? { year: d.getFullYear(), month: d.getMonth() + 1 } : null;
+}
+
+/** Number of days in a range (inclusive) */
+export function rangeDays(range: DateRange): number {
+  return Math.round((fromDayKey(range.to).getTime() - fromDayKey(range.from).getTime()) / 86_400_000) + 1;
+}
+
+/** Sensible bucket for a range: daily up to a month, weekly up to a quarter, monthly beyond */
+export function defaultBucket(range: DateRange): Bucket {
+  const days = rangeDays(range);
+  if (days <= 31) return 'day';
+  return days <= 92 ? 'week' : 'month';
+}
+
+/** Bucket key for a day: the day itself, the first day of its week (Monday unless set otherwise), or YYYY-MM */
+export function bucketKey(day: string, bucket: Bucket): string {
+  if (bucket === 'month') return day.slice(0, 7);
+  if (bucket === 'week') {
+    const d = fromDayKey(day);
+    return addDays(day, -((d.getDay() - weekStart + 7) % 7));
+  }
+  return day;
+}
+
+/** Every bucket key touched by a range, in order (used to zero-fill chart data) */
+export function rangeBuckets(range: DateRange, bucket: Bucket): string[] {
+  const keys: string[] = [];
+  let key = bucketKey(range.from, bucket);
+  const last = bucketKey(range.to, bucket);
+  while (key <= last) {
+    keys.push(key);
+    if (bucket === 'month') {
+      const [y, m] = key.split('-').map(Number);
+      key = m === 12 ? `${y + 1}-01` : `${y}-${pad(m + 1)}`;
+    } else {
+      key = addDays(key, bucket === 'week' ? 7 : 1);
+    }
+  }
+  return keys;
+}
+
+/** A YYYY-MM-DD key for display, in the chosen date format */
+export function formatDay(key: string, format: DateFormat = dateFormat): string {
+  if (format === 'iso' || !isDayKey(key)) return key;
+  const [y, m, d] = key.split('-');
+  if (format === 'dmy') return `${d}/${m}/${y}`;
+  if (format === 'mdy') return `${m}/${d}/${y}`;
+  return new Intl.DateTimeFormat(getLocale()).format(fromDayKey(key));
+}
+
+/** A YYYY-MM key as month name and year in the UI language, e.g. "September 2025" (short: "Sep 2025") */
+export function formatMonth(key: string, width: 'long' | 'short' = 'long'): string {
+  const [y, m] = key.split('-').map(Number);
+  if (!y || !m) return key;
+  return new Intl.DateTimeFormat(getLocale(), { month: width, year: 'numeric' }).format(new Date(y, m - 1, 1));
+}
+
+/** Name of a month (1-12) in the UI language */
+export function monthName(month: number, width: 'long' | 'short' = 'short'): string {
+  return new Intl.DateTimeFormat(getLocale(), { month: width }).format(new Date(2000, month - 1, 1));
+}
+
+/** Short label for a range, e.g. "2025-04-01 – 2026-03-31" or "September 2025" for a whole month */
+export function rangeLabel(range: DateRange): string {
+  const m = singleMonth(range);
+  return m ? formatMonth(range.from.slice(0, 7)) : `${formatDay(range.from)} – ${formatDay(range.to)}`;
+}
@@ -0,0 +1,228 @@
+/** Recurring cost templates (rent, subscriptions) and the catch-up that materializes missed occurrences. */
+import {
+  getDB, txDone, notifyCostsChanged, applyAggregateChanges, touchCost, recordAudit, registerCategories, AggregateChange, StoredCost,
+  RECURRING_STORE, COSTS_STORE, AGGREGATES_STORE, CATEGORIES_STORE, AUDIT_STORE, META_STORE
+} from './idb';
+import { normalizeCode } from './currencies';
+import type { Currency, Frequency, RecurringTemplate } from '../types';
+import { t } from './i18n';
+
+/** Fields the management UI edits */
+export interface RecurringInput {
+  sum: number;
+  currency: Currency;
+  category: string;
+  description?: string;
+  frequency: Frequency;
+  startDate: string;
+  endDate?: string;
+}
+
+// Notify the recurring view that templates changed
+function notifyRecurringChanged() {
+  window.dispatchEvent(new CustomEvent('recurring:changed'));
+}
+
+/** -------- Date helpers (local YYYY-MM-DD strings) -------- */
+function parseDay(s: string): { year: number; month: number; day: number } {
+  const [year, month, day] = s.split('-').map(Number);
+  return { year, month, day };
+}
+
+function formatDay(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** Today as YYYY-MM-DD (local time) */
+export function todayKey(): string {
+  const d = new Date();
+  return formatDay(d.getFullYear(), d.getMonth() + 1, d.getDate());
+}
+
+/**
+ * Date of the n-th occurrence (0 = start). Monthly/yearly occurrences stay anchored to the start
+ * day and are clamped to short months (Jan 31 -> Feb 28 -> Mar 31).
+ */
+export function occurrenceDate(t: Pick<RecurringTemplate, 'frequency' | 'startDate'>, n: number): string {
+  const s = parseDay(t.startDate);
+  if (t.frequency === 'weekly') {
+    const d = new Date(s.year, s.month - 1, s.day + 7 * n);
+    return formatDay(d.getFullYear(), d.getMonth() + 1, d.getDate());
+  }
+  const months = t.frequency === 'monthly' ? n : 12 * n;
+  const first = new Date(s.year, s.month - 1 + months, 1);
+  const lastDay = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+  return formatDay(first.getFullYear(), first.getMonth() + 1, Math.min(s.day, lastDay));
+}
+
+/** Index of the first occurrence on or after `day` */
+function firstIndexOnOrAfter(t: Pick<RecurringTemplate, 'frequency' | 'startDate'>, day: string): number {
+  let n = 0;
+  while (occurrenceDate(t, n) < day) n++;
+  return n;
+}
+
+/** Next occurrences that have not been materialized yet (respects endDate) */
+export function upcomingOccurrences(t: RecurringTemplate, count = 5): string[] {
+  const out: string[] = [];
+  for (let n = t.handled; out.length < count; n++) {
+    const d = occurrenceDate(t, n);
+    if (t.endDate && d > t.endDate) break;
+    out.push(d);
+  }
+  return out;
+}
+
+// Validate and normalize editable fields
+function cleanInput(input: RecurringInput) {
+  const sum = Number(input.sum);
+  if (!Number.isFinite(sum) || sum <= 0) throw new Error(t('errors.positiveSum'));
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.startDate)) throw new Error(t('errors.startDate'));
+  if (input.endDate && input.endDate < input.startDate) throw new Error(t('errors.endBeforeStart'));
+  return {
+    sum,
+    currency: normalizeCode(input.currency),
+    category: input.category.trim(),
+    description: input.description ?? '',
+    frequency: input.frequency,
+    startDate: input.startDate,
+    endDate: input.endDate || undefined,
+  };
+}
+
+/** -------- CRUD -------- */
+export async function listRecurring(): Promise<RecurringTemplate[]> {
+  const db = await getDB();
+  const tx = db.transaction(RECURRING_STORE, 'readonly');
+  return new Promise((res, rej) => {
+    const rq = tx.objectStore(RECURRING_STORE).getAll();
+    rq.onsuccess = () => res((rq.result || []) as RecurringTemplate[]);
+    rq.onerror = () => rej(rq.error);
+  });
+}
+
+// Read-modify-write one template inside a transaction
+async function mutateTemplate(id: number, fn: (t: RecurringTemplate) => RecurringTemplate) {
+  const db = await getDB();
+  const tx = db.transaction(RECURRING_STORE, 'readwrite');
+  const store = tx.objectStore(RECURRING_STORE);
+  const rq = store.get(id);
+  rq.onsuccess = () => {
+    if (!rq.result) { tx.abort(); return; }
+    store.put(fn(rq.result as RecurringTemplate));
+  };
+  try {
+    await txDone(tx);
+  } catch (e) {
+    throw rq.result ? e : new Error(t('errors.recurringNotFound', { id }));
+  }
+  notifyRecurringChanged();
+}
+
+/** Create a template; past occurrences since the start date are generated by the next catch-up */
+export async function addRecurring(input: RecurringInput) {
+  const t: RecurringTemplate = { ...cleanInput(input), paused: false, handled: 0, skipped: [] };
+  const db = await getDB();
+  const tx = db.transaction(RECURRING_STORE, 'readwrite');
+  tx.objectStore(RECURRING_STORE).add(t);
+  await txDone(tx);
+  notifyRecurringChanged();
+}
+
+/** Edit a template; changes apply to occurrences from the next upcoming one (already generated costs stay) */
+export async function updateRecurring(id: number, input: RecurringInput) {
+  await mutateTemplate(id, (prev) => {
+    const next = { ...prev, ...cleanInput(input) };
+    // Re-anchor the counter so nothing before the previous "next occurrence" is generated again
+    const from = prev.handled > 0 ? occurrenceDate(prev, prev.handled) : next.startDate;
+    return { ...next, handled: firstIndexOnOrAfter(next, from) };
+  });
+}
+
+/** Pause or resume; occurrences that fall inside a pause are not generated afterwards */
+export async function setRecurringPaused(id: number, paused: boolean) {
+  await mutateTemplate(id, (t) => ({
+    ...t,
+    paused,
+    handled: paused ? t.handled : Math.max(t.handled, firstIndexOnOrAfter(t, todayKey())),
+  }));
+}
+
+/** Toggle skipping a single upcoming occurrence */
+export async function toggleSkipOccurrence(id: number, date: string) {
+  await mutateTemplate(id, (t) => ({
+    ...t,
+    skipped: t.skipped.includes(date) ? t.skipped.filter((d) => d !== date) : [...t.skipped, date],
+  }));
+}
+
+export async function deleteRecurring(id: number) {
+  const db = await getDB();
+  const tx = db.transaction(RECURRING_STORE, 'readwrite');
+  tx.objectStore(RECURRING_STORE).delete(id);
+  await txDone(tx);
+  notifyRecurringChanged();
+}
+
+/** -------- Catch-up -------- */
+/**
+ * Generate every occurrence due up to `until` (default today) that has not been generated yet.
+ * Templates and costs are written in one transaction and each template's counter advances with
+ * its costs, so concurrent or repeated runs never create duplicates. A run that adds costs is one
+ * audit entry (undoing it deletes them; the templates stay advanced). Returns the number of costs added.
+ */
+export async function materializeRecurring(until: string = todayKey()): Promise<number> {
+  const db = await getDB();
+  const tx = db.transaction([RECURRING_STORE, COSTS_STORE, AGGREGATES_STORE, CATEGORIES_STORE, AUDIT_STORE, META_STORE], 'readwrite');
+  const templates = tx.objectStore(RECURRING_STORE);
+  const costs = tx.objectStore(COSTS_STORE);
+  let added = 0;
+  const changes: AggregateChange[] = [];
+  const writes: { item: StoredCost; rq: IDBRequest }[] = [];
+
+  const rq = templates.getAll();
+  rq.onsuccess = () => {
+    for (const t of (rq.result || []) as RecurringTemplate[]) {
+      if (t.paused) continue;
+      let n = t.handled;
+      for (;;) {
+        const day = occurrenceDate(t, n);
+        if (day > until || (t.endDate && day > t.endDate)) break;
+        if (!t.skipped.includes(day)) {
+          const { year, month, day: d } = parseDay(day);
+          const item: StoredCost = touchCost({
+            sum: t.sum,
+            currency: t.currency,
+            category: t.category,
+            description: t.description,
+            Date: { year, month, day: d },
+            dateISO: new Date(year, month - 1, d, 12).toISOString(),
+            recurringId: t.id,
+          });
+          writes.push({ item, rq: costs.add(item as any) });
+          changes.push({ cost: item, sign: 1 });
+          added++;
+        }
+        n++;
+      }
+      if (n !== t.handled) {
+        // Skipped dates in the past are no longer needed
+        templates.put({ ...t, handled: n, skipped: t.skipped.filter((s) => s > until) });
+      }
+    }
+    applyAggregateChanges(tx, changes);
+    registerCategories(tx, writes.map(({ item }) => item.category));
+    // After the adds, so the entry has their ids
+    recordAudit(tx, () => writes.length ? {
+      op: 'import', message: { key: 'audit.recurring', params: { n: writes.length } },
+      before: { costs: [] }, after: { costs: writes.map(({ item, rq }) => ({ ...item, id: rq.result as number })) },
+    } : null);
+  };
+
+  await txDone(tx);
+  if (added) {
+    notifyCostsChanged();
+    notifyRecurringChanged();
+  }
+  return added;
+}
@@ -0,0 +1,92 @@
+/**
+ * Deep links: the view and its parameters live in the URL, e.g. `/pie?period=2025-03&currency=ILS`.
+ *   path      the view: /add, /report, /search, /pie, /bar, /compare, /forecast, /budgets, /recurring,
+ *             /categories, /settings, or /all-wallets (consolidated report); / opens the start tab (a preference)
+ *   period    a preset (this-month, last-month, this-quarter, last-30-days, this-year, fiscal-year),
+ *             a month (2025-03), a year (2025) or a custom range (2025-01-15..2025-02-14); default this-month
+ *   group     day | week | month (default: what suits the period)
+ *   currency  ISO code (default: the wallet's currency)
+ *   rates     today (default: historical)
+ * Anything invalid falls back to its default, and the URL is rewritten to what is shown.
+ */
+import type { Bucket, Currency, DateRange, RateMode } from '../types';
+import {
+  RangePreset, RANGE_PRESETS, presetRange, defaultBucket, checkRange, singleMonth, monthRange, yearRange
+} from './ranges';
+import { normalizeCode, isValidCode } from './currencies';
+
+/** Wallet views, in tab order */
+export const VIEWS = [
+  'add', 'report', 'search', 'pie', 'bar', 'compare', 'forecast', 'budgets', 'recurring', 'categories', 'settings',
+] as const;
+export type View = typeof VIEWS[number] | 'all-wallets';
+
+/** Everything the URL carries */
+export interface Route {
+  view: View;
+  preset: RangePreset;
+  range: DateRange;
+  bucket: Bucket;
+  currency: Currency | null; // null: the wallet's default
+  rateMode: RateMode;
+}
+
+const BUCKETS: Bucket[] = ['day', 'week', 'month'];
+const BASE = import.meta.env.BASE_URL; // "/" unless the app is served from a sub-path
+
+// A period parameter as preset and range, or null when invalid
+function parsePeriod(p: string): { preset: RangePreset; range: DateRange } | null {
+  if (RANGE_PRESETS.includes(p as RangePreset) && p !== 'custom') return { preset: p as RangePreset, range: presetRange(p as RangePreset) };
+  let range: DateRange | null = null;
+  const m = p.match(/^(\d{4})(?:-(\d{2}))?$/);
+  if (m) {
+    const month = m[2] ? Number(m[2]) : 0;
+    if (m[2] && (month < 1 || month > 12)) return null;
+    range = month ? monthRange(Number(m[1]), month) : yearRange(Number(m[1]));
+  } else {
+    const [from, to] = p.split('..');
+    if (to !== undefined) range = { from, to };
+  }
+  return range && !checkRange(range) ? { preset: 'custom', range } : null;
+}
+
+// Shortest period parameter for a preset and range
+function periodParam(preset: RangePreset, range: DateRange): string {
+  if (preset !== 'custom') return preset;
+  const month = singleMonth(range);
+  if (month) return range.from.slice(0, 7);
+  const year = range.from.slice(0, 4);
+  if (range.from === `${year}-01-01` && range.to === `${year}-12-31`) return year;
+  return `${range.from}..${range.to}`;
+}
+
+/** Read a route from a location; invalid parts get their defaults (an empty or unknown path: `startView`) */
+export function parseRoute(loc: { pathname: string; search: string } = window.location, startView: View = 'add'): Route {
+  const path = loc.pathname.startsWith(BASE) ? loc.pathname.slice(BASE.length) : loc.pathname.replace(/^\//, '');
+  const name = path.replace(/\/+$/, '');
+  const view: View = name === 'all-wallets' || (VIEWS as readonly string[]).includes(name) ? name as View : startView;
+
+  const q = new URLSearchParams(loc.search);
+  const period = parsePeriod(q.get('period') ?? '') ?? { preset: 'this-month' as RangePreset, range: presetRange('this-month') };
+  const group = q.get('group') as Bucket;
+  const code = normalizeCode(q.get('currency') ?? '');
+  return {
+    view,
+    ...period,
+    bucket: BUCKETS.includes(group) ? group : defaultBucket(period.range),
+    currency: isValidCode(code) ? code : null,
+    rateMode: q.get('rates') === 'today' ? 'today' : 'historical',
+  };
+}
+
+/** URL (path and query) of a route; default parameters are left out, the view always names its path */
+export function routeUrl(r: Route): string {
+  const q = new URLSearchParams();
+  const period = periodParam(r.preset, r.range);
+  if (period !== 'this-month') q.set('period', period);
+  if (r.bucket !== defaultBucket(r.range)) q.set('group', r.bucket);
+  if (r.currency) q.set('currency', r.currency);
+  if (r.rateMode === 'today') q.set('rates', 'today');
+  const search = q.toString();
+  return BASE + r.view + (search ? '?' + search : '');
+}
@@ -0,0 +1,114 @@
+/** Search across all costs: text, category, tag, currency, amount and date filters, sorting, and saved named views. */
+import { forEachCost, costConverter, getMeta, setMeta, StoredCost } from './idb';
+import { categoryKey } from './categories';
+import { roundAmount } from './currencies';
+import { partsToDayKey } from './ranges';
+import type { CostFilter, Currency, RateMode, SavedView } from '../types';
+import { t } from './i18n';
+
+const SAVED_VIEWS_KEY = 'savedViews';
+
+export const EMPTY_FILTER: CostFilter = {
+  text: '', categories: [], tags: [], currencies: [], minAmount: null, maxAmount: null, from: '', to: '',
+};
+
+/** One matching cost: original amount plus the amount in the report currency */
+export interface SearchRow {
+  id?: number;
+  date: string; // YYYY-MM-DD
+  category: string;
+  description: string;
+  tags: string[];
+  sum: number;
+  currency: Currency;
+  converted: number | null; // null: no rate for the currency
+}
+
+export type SortKey = 'date' | 'category' | 'description' | 'sum' | 'converted';
+export type SortDir = 'asc' | 'desc';
+
+/** Whether a filter has any criteria set */
+export function isEmptyFilter(f: CostFilter): boolean {
+  return !f.text.trim() && !f.categories.length && !f.tags?.length && !f.currencies.length
+    && f.minAmount == null && f.maxAmount == null && !f.from && !f.to;
+}
+
+/**
+ * All costs matching the filter. A date filter goes through the by_date index; the other criteria are
+ * checked while streaming. Text matches every word of the query (case-insensitive) in the description;
+ * tags match when the cost carries every selected tag.
+ */
+export async function searchCosts(filter: CostFilter, currency: Currency, rateMode: RateMode = 'historical'): Promise<SearchRow[]> {
+  if (filter.from && filter.to && filter.from > filter.to) throw new Error(t('errors.fromAfterTo'));
+  const words = filter.text.toLowerCase().split(/\s+/).filter(Boolean);
+  const cats = new Set(filter.categories.map(categoryKey));
+  const curs = new Set(filter.currencies);
+  const tags = filter.tags ?? []; // views saved before tags existed have none
+  const toTarget = await costConverter(currency, rateMode);
+  const range = filter.from || filter.to ? { from: filter.from || '0000-01-01', to: filter.to || '9999-12-31' } : null;
+
+  const rows: SearchRow[] = [];
+  await forEachCost(range, (c: StoredCost) => {
+    const description = c.description ?? '';
+    if (cats.size && !cats.has(categoryKey(c.category))) return;
+    if (curs.size && !curs.has(c.currency)) return;
+    if (tags.length && !tags.every((t) => c.tags?.includes(t))) return;
+    if (words.length) {
+      const text = description.toLowerCase();
+      if (!words.every((w) => text.includes(w))) return;
+    }
+    const x = toTarget(c);
+    const converted = x == null ? null : roundAmount(x, currency);
+    if (filter.minAmount != null && (converted == null || converted < filter.minAmount)) return;
+    if (filter.maxAmount != null && (converted == null || converted > filter.maxAmount)) return;
+    rows.push({
+      id: c.id,
+      date: partsToDayKey(c.Date.year, c.Date.month, c.Date.day),
+      category: c.category,
+      description,
+      tags: c.tags ?? [],
+      sum: Number(c.sum || 0),
+      currency: c.currency,
+      converted,
+    });
+  });
+  return rows;
+}
+
+/** Rows sorted by a column (ties keep date order) */
+export function sortRows(rows: SearchRow[], key: SortKey, dir: SortDir): SearchRow[] {
+  const sign = dir === 'asc' ? 1 : -1;
+  return rows.slice().sort((a, b) => {
+    const x = a[key] ?? -Infinity, y = b[key] ?? -Infinity; // unconverted amounts sort lowest
+    const d = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+    return sign * (d || a.date.localeCompare(b.date));
+  });
+}
+
+/** Running total of `converted` in row order (unconverted rows add nothing) */
+export function runningTotals(rows: SearchRow[], currency: Currency): number[] {
+  let acc = 0;
+  return rows.map((r) => (acc = roundAmount(acc + (r.converted ?? 0), currency)));
+}
+
+/* ---- Saved views ---- */
+/** Saved views, sorted by name */
+export async function listSavedViews(): Promise<SavedView[]> {
+  const views = (await getMeta<SavedView[]>(SAVED_VIEWS_KEY)) ?? [];
+  return views.slice().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Save (or overwrite) a view under a name */
+export async function saveView(name: string, filter: CostFilter): Promise<void> {
+  const n = name.trim();
+  if (!n) throw new Error(t('errors.viewName'));
+  const views = (await listSavedViews()).filter((v) => v.name !== n);
+  await setMeta(SAVED_VIEWS_KEY, [...views, { name: n, filter }]);
+  window.dispatchEvent(new CustomEvent('search:views-changed'));
+}
+
+/** Delete a saved view */
+export async function deleteView(name: string): Promise<void> {
+  await setMeta(SAVED_VIEWS_KEY, (await listSavedViews()).filter((v) => v.name !== name));
+  window.dispatchEvent(new CustomEvent('search:views-changed'));
+}
@@ -0,0 +1,283 @@
+/**
+ * Optional sync of the cost records with a self-hosted server (reference server: server/sync-server.mjs).
+ * Every wallet syncs with a server ledger named after the wallet when it first synced with that server. The ledger
+ * name is kept in the wallet's sync state, so renaming the wallet later does not move it to another ledger:
+ *
+ *   GET  {url}/wallets/{name}/costs?since={rev}&limit={n} -> { rev, changes: SyncChange[], more }
+ *   POST {url}/wallets/{name}/costs   { changes: SyncChange[] } -> { rev, accepted: string[], conflicts: SyncChange[] }
+ *
+ * A change is one version of a record: { uid, updatedAt, deleted?, cost? } (`cost` without the per-device ids).
+ * The server keeps the latest version per uid and numbers every stored change (`rev`), so a pull asks for what
+ * came after the last rev it saw. A sync pushes the local changes (records and tombstones marked dirty), then pulls.
+ *
+ * Conflict rules (the same on both sides):
+ *  1. The newer version wins: updatedAt is the time of the change; a record replaces the other one as a whole.
+ *  2. A delete is a version too: a tombstone removes edits older than it, and a later edit brings the record back.
+ *  3. Same updatedAt: a delete wins over an edit; two edits count as the same version (on push the server's copy stays).
+ *  4. A push the server refuses comes back in `conflicts` with the server's copy, which replaces the local one.
+ * Changes pulled from the server are not recorded in the audit log.
+ */
+import {
+  openCostsDB, txDone, notifyCostsChanged, applyAggregateChanges, registerCategories, AggregateChange, StoredCost, Tombstone,
+  COSTS_STORE, META_STORE, AGGREGATES_STORE, CATEGORIES_STORE, TOMBSTONES_STORE
+} from './idb';
+import { listWallets, walletDbName } from './wallets';
+import { validateCost } from './importer';
+import { t } from './i18n';
+
+const LS_URL_KEY = 'syncUrl'; // sync server base URL ('' = sync off)
+const SYNC_STATE_KEY = 'sync'; // per wallet DB (meta): server, ledger and last pulled rev
+const PULL_PAGE = 500;
+const AUTO_SYNC_DELAY = 3000; // after a local change
+const AUTO_SYNC_INTERVAL = 5 * 60 * 1000; // to pick up changes from other devices
+
+/** A cost as sent to the server: the stored record without device-local fields (record and template ids) */
+export type SyncedCost = Omit<StoredCost, 'id' | 'uid' | 'updatedAt' | 'dirty' | 'recurringId'>;
+
+/** One version of a record, as exchanged with the server */
+export interface SyncChange {
+  uid: string;
+  updatedAt: number;
+  deleted?: boolean;
+  cost?: SyncedCost; // absent for deletes
+  rev?: number; // set by the server
+}
+
+/** Where a wallet last synced to (server and ledger name, kept across wallet renames), and how far it has pulled */
+interface SyncState { url: string; ledger: string; rev: number; }
+
+/** Status shown in Settings (`sync:changed` announces every update) */
+export interface SyncStatus {
+  state: 'off' | 'idle' | 'syncing' | 'error';
+  lastSync?: string; // ISO time of the last successful sync
+  pushed?: number;
+  pulled?: number;
+  error?: string;
+}
+
+let status: SyncStatus | null = null; // null until the first run or URL change
+
+function setStatus(next: SyncStatus) {
+  status = next;
+  window.dispatchEvent(new CustomEvent('sync:changed'));
+}
+
+/** Current sync status */
+export function getSyncStatus(): SyncStatus {
+  return status ?? { state: getSyncUrl() ? 'idle' : 'off' };
+}
+
+/** Sync server base URL ('' when sync is off) */
+export function getSyncUrl(): string {
+  return localStorage.getItem(LS_URL_KEY) || '';
+}
+
+/** Set (or clear, with '') the sync server URL */
+export function setSyncUrl(url: string) {
+  const clean = url.trim().replace(/\/+$/, '');
+  if (clean && !/^https?:\/\//i.test(clean)) throw new Error(t('errors.syncUrl'));
+  if (clean) localStorage.setItem(LS_URL_KEY, clean);
+  else localStorage.removeItem(LS_URL_KEY);
+  setStatus({ state: clean ? 'idle' : 'off' });
+}
+
+/* ---- Local side ---- */
+// Utility: wrap a request in a promise
+function req<T>(rq: IDBRequest<T>): Promise<T> {
+  return new Promise((res, rej) => { rq.onsuccess = () => res(rq.result); rq.onerror = () => rej(rq.error); });
+}
+
+// Local version of a record: its updatedAt, or the tombstone's deletedAt
+function localVersion(cost: StoredCost | undefined, tomb: Tombstone | undefined): { updatedAt: number; deleted: boolean } | null {
+  if (cost) return { updatedAt: cost.updatedAt ?? 0, deleted: false };
+  if (tomb) return { updatedAt: tomb.deletedAt, deleted: true };
+  return null;
+}
+
+// Rules 1–3: does the remote version replace the local one?
+function remoteWins(remote: SyncChange, local: { updatedAt: number; deleted: boolean } | null): boolean {
+  if (!local) return !remote.deleted;
+  if (remote.updatedAt !== local.updatedAt) return remote.updatedAt > local.updatedAt;
+  return !!remote.deleted && !local.deleted;
+}
+
+// What to push: the dirty records and tombstones (everything, for a server or ledger not synced with before)
+async function localChanges(db: IDBDatabase, all: boolean): Promise<SyncChange[]> {
+  const tx = db.transaction([COSTS_STORE, TOMBSTONES_STORE], 'readonly');
+  const costs = tx.objectStore(COSTS_STORE);
+  const tombs = tx.objectStore(TOMBSTONES_STORE);
+  const [records, deleted] = await Promise.all([
+    req(all ? costs.getAll() : costs.index('by_dirty').getAll(1)) as Promise<StoredCost[]>,
+    req(all ? tombs.getAll() : tombs.index('by_dirty').getAll(1)) as Promise<Tombstone[]>,
+  ]);
+  return [
+    ...records.filter((c) => c.uid).map((c): SyncChange => {
+      const { id, uid, updatedAt, dirty, recurringId, ...cost } = c;
+      return { uid: uid!, updatedAt: updatedAt ?? 0, cost };
+    }),
+    ...deleted.map((t): SyncChange => ({ uid: t.uid, updatedAt: t.deletedAt, deleted: true })),
+  ];
+}
+
+/**
+ * Write server versions into a wallet DB, in one transaction. Pulled changes follow the conflict rules;
+ * `refused` (rule 4) maps uid -> the version that was pushed: the server's copy replaces it unless the record
+ * changed again meanwhile. Records that fail the import validation are skipped. Returns the number of records changed.
+ */
+async function applyRemote(db: IDBDatabase, changes: SyncChange[], refused?: Map<string, number>): Promise<number> {
+  const tx = db.transaction([COSTS_STORE, TOMBSTONES_STORE, AGGREGATES_STORE, CATEGORIES_STORE], 'readwrite');
+  const costs = tx.objectStore(COSTS_STORE);
+  const tombs = tx.objectStore(TOMBSTONES_STORE);
+  const aggregate: AggregateChange[] = [];
+  let applied = 0;
+  await Promise.all(changes.map(async (ch) => {
+    const [cost, tomb] = await Promise.all([
+      req(costs.index('by_uid').get(ch.uid)) as Promise<StoredCost | undefined>,
+      req(tombs.get(ch.uid)) as Promise<Tombstone | undefined>,
+    ]);
+    const local = localVersion(cost, tomb);
+    const apply = refused ? refused.get(ch.uid) === local?.updatedAt : remoteWins(ch, local);
+    const valid = ch.deleted ? null : validateCost(ch.cost).cost;
+    if (!apply || (!ch.deleted && !valid)) return;
+    if (cost) aggregate.push({ cost, sign: -1 });
+    if (ch.deleted) {
+      if (cost) costs.delete(cost.id!);
+      const t: Tombstone = { uid: ch.uid, deletedAt: ch.updatedAt };
+      tombs.put(t);
+    } else if (valid) {
+      // Keep the local id (a validated cost has none)
+      const next: StoredCost = { ...valid, uid: ch.uid, updatedAt: ch.updatedAt };
+      if (cost) next.id = cost.id;
+      if (cost?.recurringId != null) next.recurringId = cost.recurringId;
+      costs.put(next as any);
+      if (tomb) tombs.delete(ch.uid);
+      aggregate.push({ cost: next, sign: 1 });
+    }
+    applied++;
+  }));
+  applyAggregateChanges(tx, aggregate);
+  registerCategories(tx, aggregate.filter((ch) => ch.sign > 0).map((ch) => ch.cost.category));
+  await txDone(tx);
+  return applied;
+}
+
+// After a push: clear the dirty mark of what the server took, unless the record changed again meanwhile
+async function markPushed(db: IDBDatabase, accepted: string[], pushed: Map<string, number>) {
+  const tx = db.transaction([COSTS_STORE, TOMBSTONES_STORE], 'readwrite');
+  const costs = tx.objectStore(COSTS_STORE);
+  const tombs = tx.objectStore(TOMBSTONES_STORE);
+  await Promise.all(accepted.map(async (uid) => {
+    const [cost, tomb] = await Promise.all([
+      req(costs.index('by_uid').get(uid)) as Promise<StoredCost | undefined>,
+      req(tombs.get(uid)) as Promise<Tombstone | undefined>,
+    ]);
+    if (cost?.dirty && cost.updatedAt === pushed.get(uid)) {
+      const { dirty, ...clean } = cost;
+      costs.put(clean);
+    }
+    if (tomb?.dirty && tomb.deletedAt === pushed.get(uid)) tombs.put({ uid, deletedAt: tomb.deletedAt });
+  }));
+  await txDone(tx);
+}
+
+async function readState(db: IDBDatabase): Promise<SyncState | undefined> {
+  const row = await req(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(SYNC_STATE_KEY));
+  return row?.value;
+}
+
+async function writeState(db: IDBDatabase, state: SyncState) {
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put({ key: SYNC_STATE_KEY, value: state });
+  await txDone(tx);
+}
+
+/* ---- Server side ---- */
+// Call the sync API; errors carry the server's message when it sends one
+async function call<T>(url: string, init?: RequestInit): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' }, cache: 'no-store' });
+  } catch {
+    throw new Error(t('errors.syncUnreachable'));
+  }
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(t('errors.syncServer', { error: body?.error ?? `HTTP ${res.status}` }));
+  return body as T;
+}
+
+// Push, then pull, one wallet (`name`: its current name, the ledger on a first sync with the server); returns the counts
+async function syncWallet(url: string, dbName: string, name: string): Promise<{ pushed: number; pulled: number }> {
+  const db = await openCostsDB(dbName);
+  const prev = await readState(db);
+  const fresh = !prev || prev.url !== url;
+  const ledger = fresh ? name : prev.ledger;
+  const endpoint = `${url}/wallets/${encodeURIComponent(ledger)}/costs`;
+  let rev = fresh ? 0 : prev.rev;
+
+  // Push
+  const changes = await localChanges(db, fresh);
+  let pulled = 0;
+  if (changes.length) {
+    const pushed = new Map(changes.map((c) => [c.uid, c.updatedAt]));
+    const res = await call<{ accepted: string[]; conflicts: SyncChange[] }>(endpoint, { method: 'POST', body: JSON.stringify({ changes }) });
+    await markPushed(db, res.accepted, pushed);
+    if (res.conflicts.length) pulled += await applyRemote(db, res.conflicts, pushed);
+  }
+
+  // Pull, a page at a time (the rev is saved after every page)
+  for (;;) {
+    const page = await call<{ rev: number; changes: SyncChange[]; more: boolean }>(`${endpoint}?since=${rev}&limit=${PULL_PAGE}`);
+    if (page.changes.length) pulled += await applyRemote(db, page.changes);
+    rev = page.rev;
+    await writeState(db, { url, ledger, rev });
+    if (!page.more) break;
+  }
+  return { pushed: changes.length, pulled };
+}
+
+/* ---- Runs ---- */
+let running: Promise<SyncStatus> | null = null;
+let quiet = false; // our own costs:changed events do not schedule another sync
+
+/** Sync every wallet with the server now (a call during a running sync waits for it) */
+export function syncNow(): Promise<SyncStatus> {
+  running ??= (async () => {
+    const url = getSyncUrl();
+    if (!url) { setStatus({ state: 'off' }); return getSyncStatus(); }
+    setStatus({ ...getSyncStatus(), state: 'syncing', error: undefined });
+    try {
+      let pushed = 0, pulled = 0;
+      for (const w of await listWallets()) {
+        const r = await syncWallet(url, walletDbName(w.id), w.name);
+        pushed += r.pushed; pulled += r.pulled;
+      }
+      if (pulled) {
+        quiet = true;
+        try { notifyCostsChanged(); } finally { quiet = false; }
+      }
+      setStatus({ state: 'idle', lastSync: new Date().toISOString(), pushed, pulled });
+    } catch (e: any) {
+      setStatus({ ...getSyncStatus(), state: 'error', error: e?.message ?? String(e) });
+    }
+    return getSyncStatus();
+  })().finally(() => { running = null; });
+  return running;
+}
+
+/**
+ * Keep wallets in sync while the app is open (call once at start-up): on start, shortly after local changes,
+ * when the browser comes back online and every few minutes. Does nothing while no server is set.
+ */
+export function startAutoSync() {
+  let timer: number | undefined;
+  const run = () => { if (getSyncUrl() && navigator.onLine) void syncNow(); };
+  const later = () => {
+    if (quiet) return;
+    window.clearTimeout(timer);
+    timer = window.setTimeout(run, AUTO_SYNC_DELAY);
+  };
+  window.addEventListener('costs:changed', later);
+  window.addEventListener('online', run);
+  window.setInterval(run, AUTO_SYNC_INTERVAL);
+  run();
+}
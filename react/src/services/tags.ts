@@ -0,0 +1,45 @@
+/** Tags: free labels that cut across categories ("vacation-2026", "reimbursable"); listing and by-tag totals. */
+import { getDB, forEachCost, costConverter, COSTS_STORE } from './idb';
+import type { Currency, DateRange, RateMode } from '../types';
+
+/** Every tag in use, sorted (unique keys of the multiEntry by_tag index) */
+export async function listTags(): Promise<string[]> {
+  const db = await getDB();
+  const index = db.transaction(COSTS_STORE, 'readonly').objectStore(COSTS_STORE).index('by_tag');
+  return new Promise((res, rej) => {
+    const tags: string[] = [];
+    const cur = index.openKeyCursor(null, 'nextunique');
+    cur.onsuccess = () => {
+      const c = cur.result;
+      if (!c) { res(tags); return; }
+      tags.push(String(c.key));
+      c.continue();
+    };
+    cur.onerror = () => rej(cur.error);
+  });
+}
+
+/**
+ * Totals per tag over a date range in the report currency. A cost with several tags counts towards each
+ * of them, so the slices can add up to more than the period total. `only` limits the result to some tags.
+ */
+export async function getRangeTagTotals(
+  range: DateRange,
+  currency: Currency,
+  rateMode: RateMode = 'historical',
+  only: string[] = []
+): Promise<{ name: string; value: number }[]> {
+  const toTarget = await costConverter(currency, rateMode);
+  const wanted = new Set(only);
+  const map = new Map<string, number>();
+  await forEachCost(range, (c) => {
+    if (!c.tags?.length) return;
+    const amount = toTarget(c);
+    if (amount == null) return;
+    for (const t of c.tags) {
+      if (wanted.size && !wanted.has(t)) continue;
+      map.set(t, (map.get(t) || 0) + amount);
+    }
+  });
+  return Array.from(map.entries()).map(([name, value]) => ({ name, value })).sort((a, b) => b.value - a.value);
+}
@@ -0,0 +1,210 @@
+/**
+ * Wallets (profiles): separate ledgers for e.g. personal, household and business costs. Each wallet has its
+ * own IndexedDB database (costs, budgets, recurring templates, categories) and a default currency; the
+ * wallet list and the rates history live in the main DB and are shared.
+ */
+import {
+  getMainDB, openCostsDB, closeCostsDB, setActiveDB, txDone, forEachCost, costConverter, getRatesHistory, newUid, StoredCost,
+  META_STORE, MAIN_DB_NAME
+} from './idb';
+import { planImport, commitImport, ImportResult } from './importer';
+import { getCachedSessionRates } from './currency';
+import { getPreferences } from './preferences';
+import { normalizeCode, isValidCode, roundAmount } from './currencies';
+import { categoryKey } from './categories';
+import { partsToDayKey } from './ranges';
+import type { Currency, DateRange, RateMode, Wallet } from '../types';
+import { t } from './i18n';
+
+const WALLETS_KEY = 'wallets';
+const LS_ACTIVE_KEY = 'activeWallet';
+
+/** The first wallet: the original `costsDB`, so data from before wallets existed stays where it is */
+export const DEFAULT_WALLET = 'default';
+/** Switcher value for the consolidated "all wallets" report */
+export const ALL_WALLETS = '*';
+
+/** DB name of a wallet */
+export function walletDbName(id: string): string {
+  return id === DEFAULT_WALLET ? MAIN_DB_NAME : `${MAIN_DB_NAME}-${id}`;
+}
+
+// Notify the switcher and the app shell that wallets changed
+function notifyWalletsChanged() {
+  window.dispatchEvent(new CustomEvent('wallets:changed'));
+}
+
+/** -------- List (main DB meta) -------- */
+/** All wallets in creation order; before any wallet is created there is just the default one (named in the UI language) */
+export async function listWallets(): Promise<Wallet[]> {
+  const db = await getMainDB();
+  const rq = db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(WALLETS_KEY);
+  const stored: Wallet[] | undefined = await new Promise((res, rej) => {
+    rq.onsuccess = () => res(rq.result?.value);
+    rq.onerror = () => rej(rq.error);
+  });
+  return stored?.length ? stored : [{ id: DEFAULT_WALLET, name: t('wallet.defaultName'), currency: 'USD' }];
+}
+
+// Replace the stored list
+async function writeWallets(list: Wallet[]) {
+  const db = await getMainDB();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put({ key: WALLETS_KEY, value: list });
+  await txDone(tx);
+  notifyWalletsChanged();
+}
+
+// Validate name (unique, case-insensitive) and currency
+function cleanWallet(input: { name: string; currency: Currency }, others: Wallet[]) {
+  const name = input.name.trim();
+  if (!name) throw new Error(t('errors.walletName'));
+  if (others.some((w) => w.name.toLowerCase() === name.toLowerCase())) throw new Error(t('errors.walletExists', { name }));
+  const currency = normalizeCode(input.currency);
+  if (!isValidCode(currency)) throw new Error(t('errors.unknownCurrency', { code: JSON.stringify(input.currency) }));
+  return { name, currency };
+}
+
+/** Create a wallet (its DB is created on first use; ids are random, so wallets created together never share one) */
+export async function addWallet(input: { name: string; currency: Currency }): Promise<Wallet> {
+  const list = await listWallets();
+  const wallet: Wallet = { id: `w${newUid()}`, ...cleanWallet(input, list) };
+  await writeWallets([...list, wallet]);
+  return wallet;
+}
+
+/** Rename a wallet or change its default currency */
+export async function updateWallet(id: string, input: { name: string; currency: Currency }) {
+  const list = await listWallets();
+  if (!list.some((w) => w.id === id)) throw new Error(t('errors.walletNotFound'));
+  const clean = cleanWallet(input, list.filter((w) => w.id !== id));
+  await writeWallets(list.map((w) => (w.id === id ? { ...w, ...clean } : w)));
+}
+
+/** Delete a wallet and its whole database (the default wallet cannot be deleted) */
+export async function deleteWallet(id: string) {
+  if (id === DEFAULT_WALLET) throw new Error(t('errors.firstWallet'));
+  if (getActiveWalletId() === id) setActiveWallet(DEFAULT_WALLET);
+  const name = walletDbName(id);
+  await closeCostsDB(name);
+  await new Promise<void>((res, rej) => {
+    const rq = indexedDB.deleteDatabase(name);
+    rq.onsuccess = () => res();
+    rq.onerror = () => rej(rq.error);
+    rq.onblocked = () => rej(new Error(t('errors.walletOpen')));
+  });
+  await writeWallets((await listWallets()).filter((w) => w.id !== id));
+}
+
+/** -------- Active wallet (remembered per browser) -------- */
+export function getActiveWalletId(): string {
+  return localStorage.getItem(LS_ACTIVE_KEY) || DEFAULT_WALLET;
+}
+
+/** Point every service at a wallet's DB; views reload on "wallets:changed" */
+export function setActiveWallet(id: string) {
+  localStorage.setItem(LS_ACTIVE_KEY, id);
+  setActiveDB(walletDbName(id));
+  notifyWalletsChanged();
+}
+
+/** Reopen the wallet used last (call once before rendering) */
+export function restoreActiveWallet() {
+  setActiveDB(walletDbName(getActiveWalletId()));
+}
+
+/** -------- Consolidated report -------- */
+export interface AllWalletsRow {
+  wallet: string;
+  date: string; // YYYY-MM-DD
+  category: string;
+  description: string;
+  sum: number;
+  currency: Currency;
+  converted: number | null; // null: no rate for the currency (left out of the totals)
+}
+
+export interface AllWalletsReport {
+  wallets: { id: string; name: string; count: number; total: number }[];
+  categories: { name: string; value: number }[]; // merged case-insensitively across wallets
+  rows: AllWalletsRow[]; // date order
+  total: number;
+}
+
+/** Every wallet's costs of a range in one report currency: totals per wallet and per category, and the rows */
+export async function getAllWalletsReport(range: DateRange, currency: Currency, rateMode: RateMode = 'historical'): Promise<AllWalletsReport> {
+  const toTarget = await costConverter(currency, rateMode);
+  const report: AllWalletsReport = { wallets: [], categories: [], rows: [], total: 0 };
+  const cats = new Map<string, { name: string; value: number }>();
+  for (const w of await listWallets()) {
+    const db = await openCostsDB(walletDbName(w.id));
+    const entry = { id: w.id, name: w.name, count: 0, total: 0 };
+    await forEachCost(range, (c) => {
+      const converted = toTarget(c);
+      entry.count++;
+      if (converted != null) {
+        entry.total += converted;
+        const key = categoryKey(c.category);
+        const cat = cats.get(key) ?? { name: c.category, value: 0 };
+        cat.value += converted;
+        cats.set(key, cat);
+      }
+      report.rows.push({
+        wallet: w.name,
+        date: partsToDayKey(c.Date.year, c.Date.month, c.Date.day),
+        category: c.category,
+        description: c.description ?? '',
+        sum: Number(c.sum || 0),
+        currency: c.currency,
+        converted: converted == null ? null : roundAmount(converted, currency),
+      });
+    }, db);
+    entry.total = roundAmount(entry.total, currency);
+    report.wallets.push(entry);
+  }
+  report.rows.sort((a, b) => a.date.localeCompare(b.date));
+  report.categories = Array.from(cats.values())
+    .map((c) => ({ name: c.name, value: roundAmount(c.value, currency) }))
+    .sort((a, b) => b.value - a.value);
+  report.total = roundAmount(report.wallets.reduce((s, w) => s + w.total, 0), currency);
+  return report;
+}
+
+/** -------- Export / import of every wallet -------- */
+/** `{ wallets: [{ name, currency, costs }], rates, ratesHistory }` */
+export async function exportAllWallets() {
+  const wallets = [];
+  for (const w of await listWallets()) {
+    const costs: StoredCost[] = [];
+    await forEachCost(null, (c) => costs.push(c), await openCostsDB(walletDbName(w.id)));
+    wallets.push({ name: w.name, currency: w.currency, costs });
+  }
+  return { wallets, rates: getCachedSessionRates() ?? undefined, ratesHistory: await getRatesHistory(), preferences: getPreferences() };
+}
+
+/** Whether a parsed JSON file is an all-wallets export */
+export function isAllWalletsExport(json: any): boolean {
+  return !!json && !Array.isArray(json) && Array.isArray(json.wallets);
+}
+
+/**
+ * Import an all-wallets export: each section is merged (the same pipeline and rules as a single-wallet
+ * import) into the wallet with the same name, which is created when missing.
+ */
+export async function importAllWallets(json: any): Promise<(ImportResult & { wallet: string; rejected: number })[]> {
+  if (!isAllWalletsExport(json)) throw new Error(t('errors.noWallets'));
+  const results = [];
+  for (const [i, section] of (json.wallets as any[]).entries()) {
+    const name = typeof section?.name === 'string' && section.name.trim() ? section.name.trim() : t('wallet.importedName', { n: i + 1 });
+    const list = await listWallets();
+    const wallet = list.find((w) => w.name.toLowerCase() === name.toLowerCase())
+      ?? await addWallet({ name, currency: isValidCode(normalizeCode(section?.currency)) ? section.currency : 'USD' });
+    // Shared rates and preferences travel with the first section only, so they are applied once
+    const part = i === 0
+      ? { costs: section?.costs ?? [], rates: json.rates, ratesHistory: json.ratesHistory, preferences: json.preferences }
+      : { costs: section?.costs ?? [] };
+    const plan = await planImport(part, 'merge', walletDbName(wallet.id));
+    results.push({ wallet: wallet.name, rejected: plan.rejected.length, ...(await commitImport(plan)) });
+  }
+  return results;
+}
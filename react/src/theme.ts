@@ -1,21 +1,82 @@
-import { createTheme } from '@mui/material/styles';
-
-// MUI theme with custom palette, typography, and shape
-const theme = createTheme({
-  palette: {
-    mode: 'light',
-    primary: { main: '#1976d2' },
-    secondary: { main: '#9c27b0' },
-  },
-  typography: {
-    fontFamily: 'Inter, Roboto, Helvetica, Arial, sans-serif',
-  },
-  shape: { borderRadius: 10 },
-  components: {
-    MuiPaper: { styleOverrides: { root: { borderRadius: 0 } } },
-    MuiCard:  { styleOverrides: { root: { borderRadius: 16 } } },
-    MuiButton:{ styleOverrides: { root: { borderRadius: 12, textTransform: 'none' } } },
-  },
-});
-
-export default theme;
+import { createTheme, Theme, PaletteMode, getContrastRatio, getLuminance, lighten, darken } from '@mui/material/styles';
+import createCache, { EmotionCache } from '@emotion/cache';
+import { prefixer } from 'stylis';
+import rtlPlugin from 'stylis-plugin-rtl';
+
+type Direction = 'ltr' | 'rtl';
+
+/** Page background per mode (also painted by the inline script in index.html before the app loads) */
+export const BACKGROUND: Record<PaletteMode, string> = { light: '#ffffff', dark: '#121212' };
+
+/**
+ * A colour with at least `ratio` contrast against `background`: lightened on dark backgrounds, darkened on light
+ * ones (3 is the WCAG minimum for chart marks and UI parts, 4.5 for text).
+ */
+export function readableOn(color: string, background: string, ratio = 3): string {
+  const dark = getLuminance(background) < 0.5;
+  let c = color;
+  for (let i = 0; i < 8 && getContrastRatio(c, background) < ratio; i++) c = dark ? lighten(c, 0.15) : darken(c, 0.15);
+  return c;
+}
+
+// MUI theme with custom palette, typography, and shape; the accent is the primary colour
+function buildTheme(direction: Direction, mode: PaletteMode, accent: string): Theme {
+  const background = BACKGROUND[mode];
+  return createTheme({
+    direction,
+    palette: {
+      mode,
+      primary: { main: readableOn(accent, background, 4.5) },
+      secondary: { main: readableOn('#9c27b0', background, 4.5) },
+      background: { default: background, paper: background },
+    },
+    typography: {
+      fontFamily: 'Inter, Roboto, Helvetica, Arial, sans-serif',
+    },
+    shape: { borderRadius: 10 },
+    components: {
+      MuiPaper: { styleOverrides: { root: { borderRadius: 0 } } },
+      MuiCard:  { styleOverrides: { root: { borderRadius: 16 } } },
+      MuiButton:{ styleOverrides: { root: { borderRadius: 12, textTransform: 'none' } } },
+    },
+  });
+}
+
+const themes = new Map<string, Theme>();
+
+/** The theme for a text direction (MUI mirrors its components for 'rtl'), mode and accent colour */
+export function themeFor(direction: Direction, mode: PaletteMode = 'light', accent = '#1976d2'): Theme {
+  const key = `${direction} ${mode} ${accent}`;
+  if (!themes.has(key)) themes.set(key, buildTheme(direction, mode, accent));
+  return themes.get(key)!;
+}
+
+/** Recharts styling that follows the theme: grid, axes and tooltip, and chart colours readable on the background */
+export function chartStyle(theme: Theme) {
+  const { palette } = theme;
+  return {
+    grid: palette.divider,
+    axis: { stroke: palette.text.secondary, tick: { fill: palette.text.secondary } },
+    tooltip: {
+      contentStyle: { background: palette.background.paper, borderColor: palette.divider, color: palette.text.primary },
+      labelStyle: { color: palette.text.primary },
+    },
+    color: (c: string) => readableOn(c, palette.background.paper),
+    primary: palette.primary.main,
+    warning: palette.warning.main,
+    error: palette.error.main,
+    background: palette.background.paper,
+  };
+}
+
+// Emotion caches, one per direction; the RTL one flips left/right in every style (sx included)
+const caches: Partial<Record<Direction, EmotionCache>> = {};
+
+/** The emotion cache for a text direction */
+export function cacheFor(direction: Direction): EmotionCache {
+  return caches[direction] ??= direction === 'rtl'
+    ? createCache({ key: 'muirtl', stylisPlugins: [prefixer, rtlPlugin] })
+    : createCache({ key: 'mui' });
+}
+
+export default themeFor('ltr');
@@ -1,4 +1,68 @@
-export type Currency = 'USD' | 'ILS' | 'GBP' | 'EURO';
-export interface Cost { id?: number; sum: number; currency: Currency; category: string; description: string; Date: { year: number; month: number; day: number }; dateISO: string; }
-export interface Report { year: number; month: number; costs: Array<{ sum: number; currency: Currency; category: string; description: string; Date: { day: number }; }>; total: { currency: Currency; total: number }; }
+/** ISO 4217 currency code (e.g. "USD", "EUR", "JPY"); the available set comes from the currency registry. */
+export type Currency = string;
+/** Registry entry for a currency; `rate` (units per 1 USD) is only set on user-added currencies. */
+export interface CurrencyInfo { code: Currency; symbol: string; name: string; decimals: number; rate?: number; }
+export interface Cost { id?: number; sum: number; currency: Currency; category: string; description: string; Date: { year: number; month: number; day: number }; dateISO: string; tags?: string[]; }
+export interface Report { year: number; month: number; costs: Array<{ id?: number; sum: number; currency: Currency; category: string; description: string; Date: { day: number }; unconverted?: boolean; }>; total: { currency: Currency; total: number }; }
 export type Rates = Record<Currency, number>;
+
+/** A rate set as it was on a given day (YYYY-MM-DD); kept in IndexedDB `meta` under "ratesHistory". */
+export interface RatesSnapshot { date: string; rates: Rates; savedAt: string; }
+/** Which rates reports convert with: the snapshot closest to each cost's date, or the current session rates. */
+export type RateMode = 'historical' | 'today';
+/** Monthly budget for one category (category "" = overall), stored in IndexedDB `budgets`. */
+export interface Budget { id?: number; category: string; amount: number; currency: Currency; }
+/** How often a recurring cost repeats. */
+export type Frequency = 'weekly' | 'monthly' | 'yearly';
+/**
+ * Recurring cost template, stored in IndexedDB `recurring`. Dates are local YYYY-MM-DD.
+ * `handled` counts occurrences already materialized (or skipped) since `startDate`.
+ */
+export interface RecurringTemplate {
+  id?: number;
+  sum: number;
+  currency: Currency;
+  category: string;
+  description: string;
+  frequency: Frequency;
+  startDate: string;
+  endDate?: string;
+  paused: boolean;
+  handled: number;
+  skipped: string[];
+}
+/** Category with a stable colour and an icon, stored in IndexedDB `categories` (`key` = lower-cased name, unique). */
+export interface Category { id?: number; name: string; key: string; color: string; icon: string; }
+/** Inclusive date range of local YYYY-MM-DD days (reports and charts). */
+export interface DateRange { from: string; to: string; }
+/** Bucket size for range totals. */
+export type Bucket = 'day' | 'week' | 'month';
+/** Report over a date range: rows carry full dates, `buckets` holds the zero-filled totals per day/week/month. */
+export interface RangeReport {
+  from: string;
+  to: string;
+  bucket: Bucket;
+  costs: Array<{ id?: number; sum: number; currency: Currency; category: string; description: string; Date: { year: number; month: number; day: number }; tags: string[]; unconverted?: boolean; }>;
+  buckets: Array<{ key: string; total: number }>;
+  total: { currency: Currency; total: number };
+}
+/** Search filters over all costs; empty fields do not filter. Amounts are in the report currency. */
+export interface CostFilter {
+  text: string;
+  categories: string[];
+  tags: string[]; // every selected tag must be present
+  currencies: Currency[];
+  minAmount: number | null;
+  maxAmount: number | null;
+  from: string;
+  to: string;
+}
+/** A named search, kept in IndexedDB `meta` under "savedViews". */
+export interface SavedView { name: string; filter: CostFilter; }
+/**
+ * Wallet (profile) with its own ledger: costs, budgets, recurring templates and categories live in a
+ * separate IndexedDB database. The list is kept in the main DB's `meta` under "wallets".
+ */
+export interface Wallet { id: string; name: string; currency: Currency; }
+/** Rates configuration (source and inline rates), as recorded in the audit log when `setInlineRates` changes it. */
+export interface RatesState { source: 'url' | 'inline-json'; inline: Rates | null; }
@@ -0,0 +1,37 @@
+/* Service worker for the installable app. Built by the "precache" plugin in vite.config.ts, which fills in the
+ * PRECACHE list with the files of the Vite build and the cache version with a hash of that list.
+ * - install: precache the app shell (index.html, hashed JS/CSS, manifest, icons)
+ * - navigations: network first, the cached index.html when offline
+ * - precached files: cache first (file names are content-hashed)
+ * - anything else (the sync server, other origins such as the rates URL) is not intercepted and goes to the
+ *   network; offline rates come from IndexedDB
+ */
+const PRECACHE = __PRECACHE__;
+const CACHE = 'cost-manager-' + __VERSION__;
+// Absolute URLs of the precached files (the list is relative to this worker)
+const PRECACHED = new Set(PRECACHE.map((path) => new URL(path, self.location.href).href));
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(PRECACHE)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith('cost-manager-') && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const req = event.request;
+  if (req.method !== 'GET' || new URL(req.url).origin !== self.location.origin) return;
+
+  if (req.mode === 'navigate') {
+    event.respondWith(fetch(req).catch(() => caches.match('index.html', { ignoreSearch: true }).then((r) => r || Response.error())));
+    return;
+  }
+  const url = new URL(req.url);
+  if (!PRECACHED.has(url.origin + url.pathname)) return;
+  event.respondWith(caches.match(req, { ignoreSearch: true }).then((hit) => hit || fetch(req)));
+});
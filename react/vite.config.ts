@@ -1,7 +1,30 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { readFileSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+
+// Public files the service worker precaches next to the build output
+const PUBLIC_SHELL = ['manifest.webmanifest', 'icon-192.png', 'icon-512.png'];
+
+// Emit sw.js (from ./sw.js) with the list of built files to precache and a version derived from it
+function precache(): Plugin {
+  return {
+    name: 'precache',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+      const files = Object.keys(bundle).filter((f) => !f.endsWith('.map') && f !== 'bench.html');
+      const list = ['./', ...files, ...PUBLIC_SHELL].sort();
+      const version = createHash('sha256').update(list.join('\n')).digest('hex').slice(0, 12);
+      const source = readFileSync(new URL('./sw.js', import.meta.url), 'utf8')
+        .replace('__PRECACHE__', JSON.stringify(list))
+        .replace('__VERSION__', JSON.stringify(version));
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+  };
+}
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precache()],
   server: { port: 5182, strictPort: true, host: 'localhost' }
 });